@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+
+/**
+ * File tree benchmark for SkriptPanda Studio
+ * Times what a keystroke in the editor costs the workspace tree and its persistence, for trees of
+ * growing size. Sizes are file counts and can be given as arguments: npm run bench:tree -- 100 5000
+ */
+
+import { createServer } from 'vite';
+
+const log = (message) => console.log(`🔧 ${message}`);
+
+const DEFAULT_SIZES = [100, 1000, 5000, 10000];
+const FILE_CONTENT = 'on join:\n    send "Welcome %player%!" to player\n'.repeat(40);
+
+// Average milliseconds per run of fn, over at least 200 ms or 1000 runs, whichever comes first.
+function time(fn) {
+  fn();
+  let runs = 0;
+  const start = performance.now();
+  while (runs < 1000 && performance.now() - start < 200) {
+    fn(runs);
+    runs++;
+  }
+  return (performance.now() - start) / runs;
+}
+
+// Files in folders of 10, in folders of 10 folders: group-0/sub-0/script-0.sk and so on.
+function buildTree(fs, files) {
+  const groups = [];
+  for (let i = 0; i < files; i += 100) {
+    const subs = [];
+    for (let j = i; j < Math.min(i + 100, files); j += 10) {
+      const scripts = [];
+      for (let k = j; k < Math.min(j + 10, files); k++) scripts.push(fs.createFile(`script-${k}.sk`, FILE_CONTENT));
+      subs.push(fs.createFolder(`sub-${j / 10}`, scripts));
+    }
+    groups.push(fs.createFolder(`group-${i / 100}`, subs));
+  }
+  return fs.createFolder('Benchmark', groups);
+}
+
+const manager = (tree) => ({
+  activeWorkspaceId: 'bench',
+  workspaces: [{ id: 'bench', name: 'Benchmark', createdAt: new Date(), lastAccessed: new Date(), tree }],
+});
+
+async function runBenchmark() {
+  const sizes = process.argv.slice(2).map(Number).filter((n) => n > 0);
+  const server = await createServer({ logLevel: 'error', server: { middlewareMode: true }, appType: 'custom' });
+  try {
+    const fs = await server.ssrLoadModule('/src/lib/fs.ts');
+    const storage = await server.ssrLoadModule('/src/lib/storage.ts');
+    const rows = [];
+
+    for (const size of sizes.length ? sizes : DEFAULT_SIZES) {
+      log(`Timing a tree of ${size} files...`);
+      const tree = buildTree(fs, size);
+      const files = fs.listFiles(tree).map((e) => e.file);
+      const last = files[files.length - 1];
+      // index the tree, as the app has by the time anyone types
+      fs.findNode(tree, last.id);
+
+      const edited = fs.updateFileContent(tree, last.id, `${FILE_CONTENT}# edited\n`);
+      const saved = manager(tree);
+      const next = manager(edited);
+      rows.push({
+        files: size,
+        'full copy (ms)': time(() => structuredClone(tree)),
+        'edit (ms)': time((i) => fs.updateFileContent(tree, last.id, `${FILE_CONTENT}${i}`)),
+        'lookup (ms)': time((i) => fs.findNode(tree, files[(i ?? 0) % files.length].id)),
+        'plan write after edit (ms)': time(() => storage.planChanges(saved, next)),
+        'plan first write (ms)': time(() => storage.planChanges(null, saved)),
+        'rename + lookup (ms)': time((i) => fs.findNode(fs.renameNode(tree, last.id, `renamed-${i}.sk`), last.id)),
+        'move + lookup (ms)': time(() => fs.findNode(fs.moveNode(tree, last.id, tree.children[0].id, 'inside'), last.id)),
+      });
+    }
+
+    console.table(
+      rows.map((row) =>
+        Object.fromEntries(Object.entries(row).map(([key, value]) => [key, key === 'files' ? value : Number(value.toFixed(4))]))
+      )
+    );
+  } finally {
+    await server.close();
+  }
+}
+
+runBenchmark().catch((e) => {
+  console.error(`❌ ${e.message}`);
+  process.exit(1);
+});
@@ -1,6 +1,13 @@
 import { Sidebar, SidebarContent } from "@/components/ui/sidebar";
 import { FileExplorer } from "@/components/explorer/FileExplorer";
+import { OutlineView } from "@/components/explorer/OutlineView";
+import { VariablesView } from "@/components/explorer/VariablesView";
+import { SearchView, SearchViewProps } from "@/components/explorer/SearchView";
+import { TrashView, TrashViewProps } from "@/components/explorer/TrashView";
 import { FileLeaf, FileTree } from "@/lib/fs";
+import { OutlineSymbol } from "@/lib/skript/outline";
+import { SourceRange } from "@/lib/skript/ast";
+import { VariableFamily } from "@/lib/skript/variables";
 
 export type AppSidebarProps = {
   tree: FileTree;
@@ -9,24 +16,39 @@ export type AppSidebarProps = {
   onOpenFile: (file: FileLeaf) => void;
   onRename: (id: string, currentName: string) => void;
   onDelete: (id: string) => void;
-  onMove: (sourceId: string, targetId: string, position: "inside" | "before" | "after") => void;
+  onMove: (sourceId: string, targetId: string, position: "inside" | "before" | "after") => string | null;
+  onDropFiles: (data: DataTransfer, parentId: string) => void;
   selectedId?: string | null;
+  outline: OutlineSymbol[] | null;
+  outlinePath: OutlineSymbol[];
+  onSelectSymbol: (range: SourceRange) => void;
+  variables: VariableFamily[];
+  onOpenAt: (file: FileLeaf, line: number, column: number) => void;
+  search: Omit<SearchViewProps, "tree" | "onOpen">;
+  trash: TrashViewProps;
 };
 
-export function AppSidebar({ tree, onCreateFile, onCreateFolder, onOpenFile, onRename, onDelete, onMove, selectedId }: AppSidebarProps) {
+export function AppSidebar({ tree, onCreateFile, onCreateFolder, onOpenFile, onRename, onDelete, onMove, onDropFiles, selectedId, outline, outlinePath, onSelectSymbol, variables, onOpenAt, search, trash }: AppSidebarProps) {
   return (
     <Sidebar collapsible="icon">
-      <SidebarContent>
-        <FileExplorer
-          root={tree}
-          onCreateFile={onCreateFile}
-          onCreateFolder={onCreateFolder}
-          onOpenFile={onOpenFile}
-          onRename={onRename}
-          onDelete={onDelete}
-          onMove={onMove}
-          selectedId={selectedId}
-        />
+      <SidebarContent className="gap-0">
+        <div className="flex-1 min-h-0">
+          <FileExplorer
+            root={tree}
+            onCreateFile={onCreateFile}
+            onCreateFolder={onCreateFolder}
+            onOpenFile={onOpenFile}
+            onRename={onRename}
+            onDelete={onDelete}
+            onMove={onMove}
+            onDropFiles={onDropFiles}
+            selectedId={selectedId}
+          />
+        </div>
+        <SearchView tree={tree} onOpen={onOpenAt} {...search} />
+        <OutlineView symbols={outline} activePath={outlinePath} onSelect={onSelectSymbol} />
+        <VariablesView families={variables} onOpen={onOpenAt} />
+        <TrashView {...trash} />
       </SidebarContent>
     </Sidebar>
   );
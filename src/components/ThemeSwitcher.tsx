@@ -1,39 +1,9 @@
-import { useEffect, useState } from "react";
 import { Paintbrush } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { THEMES } from "@/lib/themes";
 
-const THEMES = [
-  { key: "sp-dark", label: "SkriptPanda Dark", dark: true },
-  { key: "sp-light", label: "SkriptPanda Light", dark: false },
-  { key: "dracula", label: "Dracula", dark: true },
-  { key: "solarized", label: "Solarized Light", dark: false },
-];
-
-const STORAGE_KEY = "skriptpanda.theme";
-
-export function ThemeSwitcher({ onModeChange }: { onModeChange?: (mode: string) => void }) {
-  const [theme, setTheme] = useState<string>(() => localStorage.getItem(STORAGE_KEY) || "sp-dark");
-
-  useEffect(() => {
-    applyTheme(theme);
-    // Notify parent component of initial theme
-    onModeChange?.(theme);
-  }, []);
-
-  function applyTheme(key: string) {
-    const t = THEMES.find((t) => t.key === key) || THEMES[0];
-    document.body.classList.remove(
-      ...THEMES.map((t) => `theme-${t.key}`),
-      "dark"
-    );
-    document.body.classList.add(`theme-${t.key}`);
-    if (t.dark) document.body.classList.add("dark");
-    localStorage.setItem(STORAGE_KEY, key);
-    setTheme(key);
-    onModeChange?.(key);
-  }
-
+export function ThemeSwitcher({ theme, onThemeChange }: { theme: string; onThemeChange: (theme: string) => void }) {
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
@@ -44,7 +14,7 @@ export function ThemeSwitcher({ onModeChange }: { onModeChange?: (mode: string)
       <DropdownMenuContent align="end" className="w-48 z-50">
         <DropdownMenuLabel>Theme</DropdownMenuLabel>
         {THEMES.map((t) => (
-          <DropdownMenuItem key={t.key} onClick={() => applyTheme(t.key)}>
+          <DropdownMenuItem key={t.key} onClick={() => onThemeChange(t.key)} className={t.key === theme ? "font-medium" : ""}>
             {t.label}
           </DropdownMenuItem>
         ))}
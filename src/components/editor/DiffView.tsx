@@ -0,0 +1,38 @@
+import { useMemo } from "react";
+import { diffLines } from "@/lib/diff";
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+  className?: string;
+}
+
+// Line-by-line difference of two texts, with removed lines marked "-" and added ones "+".
+export const DiffView = ({ before, after, beforeLabel, afterLabel, className = "" }: DiffViewProps) => {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  return (
+    <div className={`rounded border font-mono text-xs overflow-auto ${className}`}>
+      <div className="flex gap-3 px-2 py-0.5 border-b text-muted-foreground">
+        <span className="text-red-600 dark:text-red-400">- {beforeLabel}</span>
+        <span className="text-green-600 dark:text-green-400">+ {afterLabel}</span>
+      </div>
+      {lines.map((line, i) => (
+        <div
+          key={i}
+          className={`px-2 whitespace-pre ${
+            line.kind === "removed"
+              ? "bg-red-500/10 text-red-600 dark:text-red-400"
+              : line.kind === "added"
+                ? "bg-green-500/10 text-green-600 dark:text-green-400"
+                : ""
+          }`}
+        >
+          {line.kind === "removed" ? "- " : line.kind === "added" ? "+ " : "  "}
+          {line.text}
+        </div>
+      ))}
+    </div>
+  );
+};
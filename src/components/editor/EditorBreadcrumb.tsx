@@ -0,0 +1,58 @@
+import { Fragment } from "react";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { OutlineIcon } from "@/components/explorer/OutlineView";
+import { OutlineSymbol } from "@/lib/skript/outline";
+import { SourceRange } from "@/lib/skript/ast";
+
+export type EditorBreadcrumbProps = {
+  // slash-separated path of the open file
+  path: string;
+  // symbols enclosing the cursor, outermost first
+  symbols: OutlineSymbol[];
+  onSelect: (range: SourceRange) => void;
+};
+
+export function EditorBreadcrumb({ path, symbols, onSelect }: EditorBreadcrumbProps) {
+  const segments = path.split("/");
+  return (
+    <Breadcrumb className="h-6 border-b px-3 flex items-center shrink-0 overflow-hidden">
+      <BreadcrumbList className="flex-nowrap gap-1 text-xs sm:gap-1.5">
+        {segments.map((segment, i) => (
+          <Fragment key={`file-${i}`}>
+            {i > 0 && <BreadcrumbSeparator />}
+            <BreadcrumbItem>
+              {i === segments.length - 1 && symbols.length === 0 ? (
+                <BreadcrumbPage className="text-xs">{segment}</BreadcrumbPage>
+              ) : (
+                <span>{segment}</span>
+              )}
+            </BreadcrumbItem>
+          </Fragment>
+        ))}
+        {symbols.map((symbol, i) => (
+          <Fragment key={`symbol-${i}`}>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem className="min-w-0">
+              <BreadcrumbLink asChild>
+                <button
+                  className={`flex items-center gap-1 min-w-0 ${i === symbols.length - 1 ? "text-foreground" : ""}`}
+                  onClick={() => onSelect(symbol.selectionRange)}
+                >
+                  <OutlineIcon kind={symbol.kind} />
+                  <span className="truncate max-w-[240px]">{symbol.name}</span>
+                </button>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+          </Fragment>
+        ))}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+}
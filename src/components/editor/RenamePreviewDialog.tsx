@@ -0,0 +1,100 @@
+import { useEffect, useMemo, useState } from "react";
+import { FileCode } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileRename, RenameKind } from "@/lib/skript/rename";
+
+export type RenamePreview = {
+  // "text" for a search and replace
+  kind: RenameKind | "text";
+  oldName: string;
+  newName: string;
+  renames: FileRename[];
+};
+
+export type RenamePreviewDialogProps = {
+  preview: RenamePreview | null;
+  onApply: (renames: FileRename[]) => void;
+  onCancel: () => void;
+};
+
+// Lines of a file that a rename changes; renames never add or remove lines.
+function changedLines(rename: FileRename) {
+  const before = rename.file.content.split("\n");
+  const after = rename.content.split("\n");
+  return after
+    .map((text, i) => ({ line: i + 1, before: before[i], after: text }))
+    .filter((l) => l.before !== l.after);
+}
+
+export function RenamePreviewDialog({ preview, onApply, onCancel }: RenamePreviewDialogProps) {
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setExcluded(new Set());
+  }, [preview]);
+
+  const files = useMemo(
+    () => (preview?.renames ?? []).map((rename) => ({ rename, lines: changedLines(rename) })),
+    [preview]
+  );
+  const editCount = files.reduce((n, f) => n + (excluded.has(f.rename.file.id) ? 0 : f.rename.edits.length), 0);
+
+  const toggle = (id: string) =>
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <Dialog open={!!preview} onOpenChange={(o) => !o && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{preview?.kind === "text" ? "Replace" : `Rename ${preview?.kind}`}</DialogTitle>
+          <DialogDescription>
+            <code>{preview?.oldName}</code> → <code>{preview?.newName}</code>: {editCount} occurrences in{" "}
+            {files.length - excluded.size} files.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-auto space-y-3 text-sm">
+          {files.map(({ rename, lines }) => (
+            <div key={rename.file.id}>
+              <label className="flex items-center gap-2 font-medium">
+                <Checkbox checked={!excluded.has(rename.file.id)} onCheckedChange={() => toggle(rename.file.id)} />
+                <FileCode className="h-3.5 w-3.5" />
+                <span className="truncate">{rename.path}</span>
+                <span className="rounded-full bg-muted px-1.5 text-xs text-muted-foreground">{rename.edits.length}</span>
+              </label>
+              <div className={`mt-1 ml-6 font-mono text-xs ${excluded.has(rename.file.id) ? "opacity-50" : ""}`}>
+                {lines.map((l) => (
+                  <div key={l.line} className="py-0.5">
+                    <div className="flex gap-2 text-destructive">
+                      <span className="w-8 shrink-0 text-right text-muted-foreground">{l.line}</span>
+                      <span className="whitespace-pre line-through">{l.before.trim()}</span>
+                    </div>
+                    <div className="flex gap-2 text-green-600 dark:text-green-400">
+                      <span className="w-8 shrink-0" />
+                      <span className="whitespace-pre">{l.after.trim()}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button
+            disabled={editCount === 0}
+            onClick={() => onApply(files.map((f) => f.rename).filter((r) => !excluded.has(r.file.id)))}
+          >
+            {preview?.kind === "text" ? "Replace" : "Apply Rename"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
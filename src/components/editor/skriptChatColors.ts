@@ -0,0 +1,176 @@
+import type * as monacoTypes from "monaco-editor";
+import { findStrings, splitLine } from "@/lib/skript/parser";
+import {
+  ChatSpan,
+  ChatStyle,
+  HexColorFormat,
+  findHexColors,
+  formatHexColor,
+  hasChatFormatting,
+  parseChatText,
+} from "@/lib/skript/chatFormat";
+
+type ChatString = {
+  line: number;
+  // 1-based column of the first character after the opening quote
+  column: number;
+  text: string;
+};
+
+const STYLE_ID = "skript-chat-colors";
+const DEFAULT_CHAT_COLOR = "#ffffff";
+const CHAT_BACKGROUND = "#1f1f1f";
+const colorClasses = new Set<string>();
+
+function chatStrings(model: monacoTypes.editor.ITextModel, lineNumber: number): ChatString[] {
+  const line = splitLine(model.getLineContent(lineNumber), lineNumber);
+  return findStrings(line.code).map((s) => ({
+    line: lineNumber,
+    column: line.codeStart + s.start + 1,
+    text: line.code.slice(s.start + 1, s.closed ? s.end - 1 : s.end),
+  }));
+}
+
+function styleSheet(): CSSStyleSheet | null {
+  let el = document.getElementById(STYLE_ID) as HTMLStyleElement | null;
+  if (!el) {
+    el = document.createElement("style");
+    el.id = STYLE_ID;
+    el.textContent = [
+      ".monaco-editor .mc-bold { font-weight: bold; }",
+      ".monaco-editor .mc-italic { font-style: italic; }",
+      ".monaco-editor .mc-underlined { text-decoration: underline; }",
+      ".monaco-editor .mc-strikethrough { text-decoration: line-through; }",
+      ".monaco-editor .mc-underlined.mc-strikethrough { text-decoration: underline line-through; }",
+      ".monaco-editor .mc-obfuscated { filter: blur(1.5px); }",
+      ".monaco-editor .mc-code { opacity: 0.6; }",
+    ].join("\n");
+    document.head.appendChild(el);
+  }
+  return el.sheet;
+}
+
+// Class names for a style; a rule is added for each color the first time it's used.
+function styleClasses(style: ChatStyle, code: boolean): string {
+  const classes: string[] = [];
+  if (style.color) {
+    const name = `mc-color-${style.color.slice(1)}`;
+    if (!colorClasses.has(name)) {
+      styleSheet()?.insertRule(`.monaco-editor .${name} { color: ${style.color} !important; }`);
+      colorClasses.add(name);
+    }
+    classes.push(name);
+  }
+  if (style.bold) classes.push("mc-bold");
+  if (style.italic) classes.push("mc-italic");
+  if (style.underlined) classes.push("mc-underlined");
+  if (style.strikethrough) classes.push("mc-strikethrough");
+  if (style.obfuscated) classes.push("mc-obfuscated");
+  if (code) classes.push("mc-code");
+  return classes.join(" ");
+}
+
+// Inline decorations drawing every formatted string of the model the way it looks in game.
+export function chatColorDecorations(model: monacoTypes.editor.ITextModel): monacoTypes.editor.IModelDeltaDecoration[] {
+  const decorations: monacoTypes.editor.IModelDeltaDecoration[] = [];
+  for (let n = 1; n <= model.getLineCount(); n++) {
+    for (const str of chatStrings(model, n)) {
+      const spans = parseChatText(str.text);
+      if (!spans.some((s) => s.code)) continue;
+      for (const span of spans) {
+        const className = styleClasses(span.style, span.code);
+        if (!className) continue;
+        decorations.push({
+          range: { startLineNumber: n, startColumn: str.column + span.start, endLineNumber: n, endColumn: str.column + span.end },
+          options: { inlineClassName: className },
+        });
+      }
+    }
+  }
+  return decorations;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"'*_`[\]\\#|~]/g, (c) => `&#${c.charCodeAt(0)};`).replace(/ /g, "&nbsp;");
+
+function spanHtml(span: ChatSpan): string {
+  const { style } = span;
+  let html = escapeHtml(style.obfuscated ? span.text.replace(/\S/g, "▒") : span.text);
+  if (style.bold) html = `<b>${html}</b>`;
+  if (style.italic) html = `<i>${html}</i>`;
+  if (style.underlined) html = `<u>${html}</u>`;
+  if (style.strikethrough) html = `<del>${html}</del>`;
+  return `<span style="color:${style.color ?? DEFAULT_CHAT_COLOR};">${html}</span>`;
+}
+
+// The string as a chat line, for hovers.
+export function chatPreviewHtml(text: string): string {
+  const body = parseChatText(text)
+    .filter((s) => !s.code)
+    .map(spanHtml)
+    .join("");
+  return `<span style="color:${DEFAULT_CHAT_COLOR};background-color:${CHAT_BACKGROUND};">&nbsp;${body}&nbsp;</span>`;
+}
+
+const toColor = (hex: string): monacoTypes.languages.IColor => ({
+  red: parseInt(hex.slice(1, 3), 16) / 255,
+  green: parseInt(hex.slice(3, 5), 16) / 255,
+  blue: parseInt(hex.slice(5, 7), 16) / 255,
+  alpha: 1,
+});
+
+const toHex = (color: monacoTypes.languages.IColor) =>
+  `#${[color.red, color.green, color.blue].map((c) => Math.round(c * 255).toString(16).padStart(2, "0")).join("")}`;
+
+export function registerSkriptChatColors(monaco: typeof monacoTypes) {
+  monaco.languages.registerHoverProvider("skript", {
+    provideHover(model, position) {
+      const str = chatStrings(model, position.lineNumber).find(
+        (s) => position.column >= s.column && position.column <= s.column + s.text.length
+      );
+      if (!str || !hasChatFormatting(str.text)) return null;
+      return {
+        range: {
+          startLineNumber: str.line,
+          startColumn: str.column,
+          endLineNumber: str.line,
+          endColumn: str.column + str.text.length,
+        },
+        contents: [{ value: "**Chat preview**" }, { value: chatPreviewHtml(str.text), supportHtml: true }],
+      };
+    },
+  });
+
+  monaco.languages.registerColorProvider("skript", {
+    provideDocumentColors(model) {
+      const colors: monacoTypes.languages.IColorInformation[] = [];
+      for (let n = 1; n <= model.getLineCount(); n++) {
+        for (const str of chatStrings(model, n)) {
+          for (const code of findHexColors(str.text)) {
+            colors.push({
+              color: toColor(code.color),
+              range: { startLineNumber: n, startColumn: str.column + code.start, endLineNumber: n, endColumn: str.column + code.end },
+            });
+          }
+        }
+      }
+      return colors;
+    },
+    provideColorPresentations(model, info) {
+      // keep the way the color was written; new colors use Skript's `<#rrggbb>`
+      const format: HexColorFormat = findHexColors(model.getValueInRange(info.range))[0]?.format ?? "tag";
+      return [{ label: formatHexColor(toHex(info.color), format) }];
+    },
+  });
+
+  monaco.editor.addEditorAction({
+    id: "skript.insertHexColor",
+    label: "Insert Hex Color",
+    precondition: "editorLangId == skript",
+    keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Alt | monaco.KeyCode.KeyC],
+    contextMenuGroupId: "1_modification",
+    run(editor) {
+      return editor.getAction("editor.action.showOrFocusStandaloneColorPicker")?.run();
+    },
+  });
+}
@@ -0,0 +1,21 @@
+import type * as monacoTypes from "monaco-editor";
+import { IndentStyle, formatEdits } from "@/lib/skript/formatter";
+
+// The workspace's indentation style reaches the providers through the model's tab options.
+const indentStyle = (options: monacoTypes.languages.FormattingOptions): IndentStyle => ({
+  useTabs: !options.insertSpaces,
+  size: options.tabSize,
+});
+
+export function registerSkriptFormatting(monaco: typeof monacoTypes) {
+  monaco.languages.registerDocumentFormattingEditProvider("skript", {
+    provideDocumentFormattingEdits(model, options) {
+      return formatEdits(model.getValue(), indentStyle(options));
+    },
+  });
+  monaco.languages.registerDocumentRangeFormattingEditProvider("skript", {
+    provideDocumentRangeFormattingEdits(model, range, options) {
+      return formatEdits(model.getValue(), indentStyle(options), range);
+    },
+  });
+}
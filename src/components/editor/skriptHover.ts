@@ -0,0 +1,34 @@
+import type * as monacoTypes from "monaco-editor";
+import { codeRange, splitLine } from "@/lib/skript/parser";
+import { findEvent, formatEventDoc } from "@/lib/skript/events";
+import { KEYWORD_DOCS } from "@/lib/skript/keywords";
+
+const NOT_EVENTS = /^(command|function|options|variables|every|at)\b/i;
+
+export function registerSkriptHover(monaco: typeof monacoTypes) {
+  return monaco.languages.registerHoverProvider("skript", {
+    provideHover(model, position) {
+      const line = splitLine(model.getLineContent(position.lineNumber), position.lineNumber);
+      if (!line.code) return null;
+
+      // Top-level `on <event>:` headers show the event reference
+      if (line.indentWidth === 0 && !NOT_EVENTS.test(line.code)) {
+        const info = findEvent(line.code.replace(/:$/, "").replace(/^on\s+/i, ""));
+        if (info) return { range: codeRange(line), contents: [{ value: formatEventDoc(info) }] };
+      }
+
+      const word = model.getWordAtPosition(position);
+      const doc = word && KEYWORD_DOCS[word.word.toLowerCase()];
+      if (!word || !doc) return null;
+      return {
+        range: {
+          startLineNumber: position.lineNumber,
+          startColumn: word.startColumn,
+          endLineNumber: position.lineNumber,
+          endColumn: word.endColumn,
+        },
+        contents: [{ value: `**${word.word.toLowerCase()}**` }, { value: doc }],
+      };
+    },
+  });
+}
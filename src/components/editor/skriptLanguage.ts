@@ -0,0 +1,183 @@
+import type * as monacoTypes from "monaco-editor";
+import { EVENT_CATALOG, SkriptEventInfo } from "@/lib/skript/eventCatalog";
+import { eventKeywords, formatEventDoc } from "@/lib/skript/events";
+import { ADDON_NAMES } from "@/lib/skript/addons";
+import { SKRIPT_KEYWORDS } from "@/lib/skript/keywords";
+import { SkriptProfile, enabledEvents, isAddonEnabled, isSupported } from "@/lib/skript/profile";
+import { findConstruct } from "@/lib/skript/versions";
+import { registerSkriptChatColors } from "./skriptChatColors";
+import { registerSkriptFormatting } from "./skriptFormatting";
+import { registerSkriptHover } from "./skriptHover";
+import { registerSkriptNavigation } from "./skriptNavigation";
+import { registerSkriptRename } from "./skriptRename";
+import { registerSkriptSymbols } from "./skriptSymbols";
+
+// Monaco providers are global, so the profile of the open workspace is kept here for them to read.
+let currentProfile: SkriptProfile = {};
+let registered = false;
+
+const wordsRegex = (words: string[]) => new RegExp(`\\b(${words.join("|")})\\b`);
+
+function skriptTokenizer(profile: SkriptProfile): monacoTypes.languages.IMonarchLanguage {
+  const enabled = eventKeywords(enabledEvents(profile));
+  const enabledSet = new Set(enabled);
+  // events of addons the workspace doesn't have are still recognised, but styled differently
+  const disabled = eventKeywords(EVENT_CATALOG).filter((k) => !enabledSet.has(k));
+  const root: monacoTypes.languages.IMonarchLanguageRule[] = [
+    [/^\s*#.*/, "comment"],
+    [wordsRegex(SKRIPT_KEYWORDS), "keyword"],
+    [/\b(true|false|null|yes|no)\b/, "constant"],
+    [wordsRegex(enabled), "event"],
+    ...(disabled.length ? [[wordsRegex(disabled), "event.disabled"] as monacoTypes.languages.IMonarchLanguageRule] : []),
+    [/\d+/, "number"],
+    [/"[^"]*"/, "string"],
+    [/'[^']*'/, "string"],
+    [/\/[a-zA-Z-]+/, "type"], // commands like /hello
+    [/:$/, "colon"], // colon at end of line
+  ];
+  return { tokenizer: { root } };
+}
+
+function firstSentence(text: string) {
+  const end = text.indexOf(". ");
+  return (end === -1 ? text : text.slice(0, end)).replace(/\.$/, "");
+}
+
+// Items the target version doesn't support stay listed, but struck through and sorted last.
+function unsupportedItem(monaco: typeof monacoTypes, label: string, requirement: string) {
+  return {
+    tags: [monaco.languages.CompletionItemTag.Deprecated],
+    sortText: `~${label}`,
+    detail: `Requires ${requirement}`,
+  };
+}
+
+// One completion per event name; names shared by several entries go to the first enabled one.
+function eventSuggestions(monaco: typeof monacoTypes, profile: SkriptProfile, range: monacoTypes.IRange) {
+  const seen = new Set<string>();
+  const suggestions: monacoTypes.languages.CompletionItem[] = [];
+  const add = (info: SkriptEventInfo, keyword: string) => {
+    if (seen.has(keyword)) return;
+    seen.add(keyword);
+    const label = `on ${keyword}`;
+    suggestions.push({
+      label: { label, description: ADDON_NAMES[info.addon] },
+      kind: monaco.languages.CompletionItemKind.Snippet,
+      detail: `${ADDON_NAMES[info.addon]}${info.since ? ` · since ${info.since}` : ""}`,
+      documentation: { value: formatEventDoc(info) },
+      insertText: `on ${keyword}:\n\t\${1:# ${firstSentence(info.description)}}`,
+      insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+      range,
+      ...(isSupported(profile, info.addon, info.since)
+        ? {}
+        : unsupportedItem(monaco, label, `${ADDON_NAMES[info.addon]} ${info.since}`)),
+    });
+  };
+  for (const info of EVENT_CATALOG) {
+    if (isAddonEnabled(profile, info.addon)) info.keywords.forEach((k) => add(info, k));
+  }
+  return suggestions;
+}
+
+const structureSnippets = [
+  { label: "command", insertText: 'command /${1:name}:\n\ttrigger:\n\t\t${2:# Your command code here}', documentation: "Skript command template with proper indentation" },
+  { label: "if", insertText: 'if ${1:condition}:\n\t${2:# Action here}', documentation: "If statement with proper indentation" },
+  { label: "loop", insertText: 'loop ${1:times}:\n\t${2:# Loop code here}', documentation: "Loop statement with proper indentation" },
+  { label: "function", insertText: 'function ${1:name}(${2:parameters}):\n\t${3:# Function code here}', documentation: "Function definition with proper indentation" },
+];
+
+// Monaco language of a file, by its extension.
+export function editorLanguage(fileName: string) {
+  if (fileName.endsWith(".sk") || fileName.endsWith(".sktest")) return "skript";
+  if (fileName.endsWith(".md")) return "markdown";
+  if (fileName.endsWith(".json")) return "json";
+  return "plaintext";
+}
+
+export function registerSkriptLanguage(monaco: typeof monacoTypes) {
+  if (registered) return;
+  registered = true;
+
+  monaco.languages.register({ id: "skript" });
+  monaco.languages.setMonarchTokensProvider("skript", skriptTokenizer(currentProfile));
+
+  // Configure language settings for proper indentation
+  monaco.languages.setLanguageConfiguration("skript", {
+    brackets: [
+      ['{', '}'],
+      ['[', ']'],
+      ['(', ')']
+    ],
+    autoClosingPairs: [
+      { open: '{', close: '}' },
+      { open: '[', close: ']' },
+      { open: '(', close: ')' },
+      { open: '"', close: '"' },
+      { open: "'", close: "'" }
+    ],
+    surroundingPairs: [
+      { open: '{', close: '}' },
+      { open: '[', close: ']' },
+      { open: '(', close: ')' },
+      { open: '"', close: '"' },
+      { open: "'", close: "'" }
+    ],
+    indentationRules: {
+      increaseIndentPattern: /.*:$/,
+      decreaseIndentPattern: /^\s*(else|elif).*$/
+    },
+    onEnterRules: [
+      {
+        beforeText: /.*:$/,
+        action: { indentAction: monaco.languages.IndentAction.Indent }
+      }
+    ]
+  });
+
+  monaco.languages.registerCompletionItemProvider("skript", {
+    triggerCharacters: ["/", " ", "\n"],
+    provideCompletionItems: (model, position) => {
+      const word = model.getWordUntilPosition(position);
+      const range = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn,
+      };
+      const keywordSuggestions = SKRIPT_KEYWORDS.map((k) => ({
+        label: k,
+        kind: monaco.languages.CompletionItemKind.Keyword,
+        insertText: k,
+        range,
+      }));
+      const snippetSuggestions = structureSnippets.map((s) => {
+        const construct = findConstruct(s.insertText, "structure");
+        return {
+          ...s,
+          kind: monaco.languages.CompletionItemKind.Snippet,
+          insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+          range,
+          ...(construct && !isSupported(currentProfile, "skript", construct.since)
+            ? unsupportedItem(monaco, s.label, `Skript ${construct.since}`)
+            : {}),
+        };
+      });
+      return {
+        suggestions: [...eventSuggestions(monaco, currentProfile, range), ...snippetSuggestions, ...keywordSuggestions],
+      };
+    },
+  });
+
+  registerSkriptHover(monaco);
+  registerSkriptSymbols(monaco);
+  registerSkriptNavigation(monaco);
+  registerSkriptRename(monaco);
+  registerSkriptFormatting(monaco);
+  registerSkriptChatColors(monaco);
+}
+
+// Re-highlights and re-filters completions for the given workspace profile.
+export function applySkriptProfile(monaco: typeof monacoTypes, profile: SkriptProfile) {
+  currentProfile = profile;
+  if (registered) monaco.languages.setMonarchTokensProvider("skript", skriptTokenizer(profile));
+}
@@ -0,0 +1,84 @@
+import type * as monacoTypes from "monaco-editor";
+import { FileTree, listFiles } from "@/lib/fs";
+import { isSkriptFile } from "@/lib/skript/diagnostics";
+import { splitLine } from "@/lib/skript/parser";
+import { SymbolIndex, SymbolIndexCache, SymbolLocation, buildSymbolIndex, functionSymbolAt } from "@/lib/skript/symbols";
+
+export type OpenLocationHandler = (fileId: string, line: number, column: number) => void;
+
+// The editor shows one file at a time, but peek and reference views need a model for every
+// file they list. Each `.sk` file of the workspace therefore gets a background model, addressed by its path.
+const SCHEME = "skript-workspace";
+
+let index: SymbolIndex = { definitions: new Map(), calls: new Map() };
+const indexCache: SymbolIndexCache = new Map();
+const modelFiles = new Map<string, string>(); // model uri -> file id
+let openLocation: OpenLocationHandler | null = null;
+
+const workspaceUri = (monaco: typeof monacoTypes, path: string) => monaco.Uri.from({ scheme: SCHEME, path: `/${path}` });
+
+function toLocation(monaco: typeof monacoTypes, location: SymbolLocation): monacoTypes.languages.Location {
+  return { uri: workspaceUri(monaco, location.path), range: location.range };
+}
+
+// Rebuilds the symbol index and background models after the workspace tree changed.
+export function syncSkriptWorkspace(monaco: typeof monacoTypes, tree: FileTree) {
+  index = buildSymbolIndex(tree, indexCache);
+
+  modelFiles.clear();
+  for (const { file, path } of listFiles(tree)) {
+    if (!isSkriptFile(file.name)) continue;
+    const uri = workspaceUri(monaco, path);
+    const model = monaco.editor.getModel(uri);
+    if (!model) monaco.editor.createModel(file.content, "skript", uri);
+    else if (model.getValue() !== file.content) model.setValue(file.content);
+    modelFiles.set(uri.toString(), file.id);
+  }
+  for (const model of monaco.editor.getModels()) {
+    if (model.uri.scheme === SCHEME && !modelFiles.has(model.uri.toString())) model.dispose();
+  }
+}
+
+export function setOpenLocationHandler(handler: OpenLocationHandler | null) {
+  openLocation = handler;
+}
+
+function functionAt(model: monacoTypes.editor.ITextModel, position: monacoTypes.Position) {
+  const line = splitLine(model.getLineContent(position.lineNumber), position.lineNumber);
+  return functionSymbolAt(line, position.column);
+}
+
+export function registerSkriptNavigation(monaco: typeof monacoTypes) {
+  monaco.languages.registerDefinitionProvider("skript", {
+    provideDefinition(model, position) {
+      const symbol = functionAt(model, position);
+      if (!symbol) return null;
+      return (index.definitions.get(symbol.name) ?? []).map((l) => toLocation(monaco, l));
+    },
+  });
+
+  monaco.languages.registerReferenceProvider("skript", {
+    provideReferences(model, position, context) {
+      const symbol = functionAt(model, position);
+      if (!symbol) return null;
+      const calls = index.calls.get(symbol.name) ?? [];
+      const definitions = context.includeDeclaration ? index.definitions.get(symbol.name) ?? [] : [];
+      return [...definitions, ...calls].map((l) => toLocation(monaco, l));
+    },
+  });
+
+  // Jumps to a background model open the file as a tab instead
+  monaco.editor.registerEditorOpener({
+    openCodeEditor(_source, resource, selectionOrPosition) {
+      const fileId = modelFiles.get(resource.toString());
+      if (!fileId || !openLocation) return false;
+      if (!selectionOrPosition) openLocation(fileId, 1, 1);
+      else if (monaco.Range.isIRange(selectionOrPosition)) {
+        openLocation(fileId, selectionOrPosition.startLineNumber, selectionOrPosition.startColumn);
+      } else {
+        openLocation(fileId, selectionOrPosition.lineNumber, selectionOrPosition.column);
+      }
+      return true;
+    },
+  });
+}
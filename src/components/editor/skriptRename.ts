@@ -0,0 +1,51 @@
+import type * as monacoTypes from "monaco-editor";
+import { parseSkript } from "@/lib/skript/parser";
+import { RenameTarget, renameTargetAt, validateRename } from "@/lib/skript/rename";
+
+export type RenameRequest = {
+  target: RenameTarget;
+  newName: string;
+};
+
+export type RenameHandler = (request: RenameRequest) => void;
+
+const NOT_RENAMABLE = "Only functions, options and variables can be renamed";
+
+let renameHandler: RenameHandler | null = null;
+
+export function setRenameHandler(handler: RenameHandler | null) {
+  renameHandler = handler;
+}
+
+function targetAt(model: monacoTypes.editor.ITextModel, position: monacoTypes.Position) {
+  return renameTargetAt(parseSkript(model.getValue()), position.lineNumber, position.column);
+}
+
+// Renames touch other files, so instead of letting Monaco apply the edits to this model the
+// request is handed to the page, which previews the workspace-wide changes before applying them.
+export function registerSkriptRename(monaco: typeof monacoTypes) {
+  return monaco.languages.registerRenameProvider("skript", {
+    resolveRenameLocation(model, position) {
+      const target = targetAt(model, position);
+      if (!target) {
+        const word = model.getWordAtPosition(position);
+        const range = new monaco.Range(
+          position.lineNumber,
+          word?.startColumn ?? position.column,
+          position.lineNumber,
+          word?.endColumn ?? position.column
+        );
+        return { range, text: word?.word ?? "", rejectReason: NOT_RENAMABLE };
+      }
+      return { range: target.range, text: target.name };
+    },
+    provideRenameEdits(model, position, newName) {
+      const target = targetAt(model, position);
+      if (!target) return { edits: [], rejectReason: NOT_RENAMABLE };
+      const error = validateRename(target, newName);
+      if (error) return { edits: [], rejectReason: error };
+      renameHandler?.({ target, newName });
+      return { edits: [] };
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import type * as monacoTypes from "monaco-editor";
+import { parseSkript } from "@/lib/skript/parser";
+import { OutlineKind, OutlineSymbol, buildOutline } from "@/lib/skript/outline";
+
+function symbolKind(monaco: typeof monacoTypes, kind: OutlineKind): monacoTypes.languages.SymbolKind {
+  const { SymbolKind } = monaco.languages;
+  switch (kind) {
+    case "event":
+      return SymbolKind.Event;
+    case "command":
+      return SymbolKind.Method;
+    case "function":
+      return SymbolKind.Function;
+    case "options":
+    case "variables":
+      return SymbolKind.Namespace;
+    case "option":
+      return SymbolKind.Constant;
+    case "variable":
+      return SymbolKind.Variable;
+    default:
+      return SymbolKind.Object;
+  }
+}
+
+function toDocumentSymbol(monaco: typeof monacoTypes, symbol: OutlineSymbol): monacoTypes.languages.DocumentSymbol {
+  return {
+    name: symbol.name,
+    detail: symbol.detail,
+    kind: symbolKind(monaco, symbol.kind),
+    tags: [],
+    range: symbol.range,
+    selectionRange: symbol.selectionRange,
+    children: symbol.children.map((c) => toDocumentSymbol(monaco, c)),
+  };
+}
+
+export function registerSkriptSymbols(monaco: typeof monacoTypes) {
+  return monaco.languages.registerDocumentSymbolProvider("skript", {
+    displayName: "Skript",
+    provideDocumentSymbols(model) {
+      return buildOutline(parseSkript(model.getValue())).map((s) => toDocumentSymbol(monaco, s));
+    },
+  });
+}
@@ -1,5 +1,5 @@
-import { ChevronDown, ChevronRight, File as FileIcon, Folder, FolderOpen, MoreVertical, Plus } from "lucide-react";
-import { useState } from "react";
+import { ChevronDown, ChevronRight, File as FileIcon, Folder, FolderOpen, MoreVertical, Plus, X } from "lucide-react";
+import { useEffect, useState } from "react";
 import { FileNode, FileLeaf, FolderNode, isFile, isFolder } from "@/lib/fs";
 import { Button } from "@/components/ui/button";
 import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger } from "@/components/ui/context-menu";
@@ -17,10 +17,15 @@ export type FileExplorerProps = {
   onOpenFile: (file: FileLeaf) => void;
   onRename: (id: string, currentName: string) => void;
   onDelete: (id: string) => void;
-  onMove: (sourceId: string, targetId: string, position: "inside" | "before" | "after") => void;
+  // returns why the node can't be moved there, if it can't
+  onMove: (sourceId: string, targetId: string, position: "inside" | "before" | "after") => string | null;
+  // files or folders dropped from the desktop onto a folder
+  onDropFiles?: (data: DataTransfer, parentId: string) => void;
   selectedId?: string | null;
 };
 
+const hasDesktopFiles = (data: DataTransfer) => data.types.includes("Files");
+
 function NodeRow({
   node,
   depth,
@@ -30,6 +35,7 @@ function NodeRow({
   onRename,
   onDelete,
   onMove,
+  onDropFiles,
   selectedId,
 }: {
   node: FileNode;
@@ -39,7 +45,8 @@ function NodeRow({
   onCreateFolder: (parentId: string) => void;
   onRename: (id: string, currentName: string) => void;
   onDelete: (id: string) => void;
-  onMove: (sourceId: string, targetId: string, position: "inside" | "before" | "after") => void;
+  onMove: (sourceId: string, targetId: string, position: "inside" | "before" | "after") => string | null;
+  onDropFiles?: (data: DataTransfer, parentId: string) => void;
   selectedId?: string | null;
 }) {
   const [open, setOpen] = useState(true);
@@ -63,6 +70,11 @@ function NodeRow({
               onDragOver={(e) => e.preventDefault()}
               onDrop={(e) => {
                 e.preventDefault();
+                e.stopPropagation();
+                if (hasDesktopFiles(e.dataTransfer)) {
+                  onDropFiles?.(e.dataTransfer, node.id);
+                  return;
+                }
                 const sourceId = e.dataTransfer.getData("text/plain");
                 if (sourceId) onMove(sourceId, node.id, "inside");
               }}
@@ -111,6 +123,7 @@ function NodeRow({
                 onRename={onRename}
                 onDelete={onDelete}
                 onMove={onMove}
+                onDropFiles={onDropFiles}
                 selectedId={selectedId}
               />
             ))}
@@ -165,7 +178,31 @@ function NodeRow({
   );
 }
 
-export function FileExplorer({ root, onCreateFile, onCreateFolder, onOpenFile, onRename, onDelete, onMove, selectedId }: FileExplorerProps) {
+export function FileExplorer({
+  root,
+  onCreateFile,
+  onCreateFolder,
+  onOpenFile,
+  onRename,
+  onDelete,
+  onMove,
+  onDropFiles,
+  selectedId,
+}: FileExplorerProps) {
+  const [moveError, setMoveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!moveError) return;
+    const handle = setTimeout(() => setMoveError(null), 5000);
+    return () => clearTimeout(handle);
+  }, [moveError]);
+
+  const move = (sourceId: string, targetId: string, position: "inside" | "before" | "after") => {
+    const error = onMove(sourceId, targetId, position);
+    setMoveError(error);
+    return error;
+  };
+
   return (
     <div className="flex flex-col h-full">
       <div className="flex items-center justify-between px-2 py-2 border-b">
@@ -179,7 +216,22 @@ export function FileExplorer({ root, onCreateFile, onCreateFolder, onOpenFile, o
           </Button>
         </div>
       </div>
-      <div className="flex-1 overflow-auto py-1">
+      {moveError && (
+        <div className="flex items-start gap-1 px-2 py-1 border-b text-xs text-destructive" role="alert">
+          <span className="flex-1">{moveError}</span>
+          <button className="shrink-0 hover:text-foreground" onClick={() => setMoveError(null)} title="Dismiss">
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+      <div
+        className="flex-1 overflow-auto py-1"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          if (hasDesktopFiles(e.dataTransfer)) onDropFiles?.(e.dataTransfer, root.id);
+        }}
+      >
         <NodeRow
           node={root}
           depth={0}
@@ -188,7 +240,8 @@ export function FileExplorer({ root, onCreateFile, onCreateFolder, onOpenFile, o
           onCreateFolder={onCreateFolder}
           onRename={onRename}
           onDelete={onDelete}
-          onMove={onMove}
+          onMove={move}
+          onDropFiles={onDropFiles}
           selectedId={selectedId}
         />
       </div>
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import {
+  Box,
+  Braces,
+  ChevronDown,
+  ChevronRight,
+  Hash,
+  Repeat,
+  Split,
+  SquareFunction,
+  SquareTerminal,
+  Variable,
+  Zap,
+} from "lucide-react";
+import { OutlineKind, OutlineSymbol } from "@/lib/skript/outline";
+import { SourceRange } from "@/lib/skript/ast";
+
+export type OutlineViewProps = {
+  // null when the open file is not a Skript file
+  symbols: OutlineSymbol[] | null;
+  // symbols enclosing the cursor, outermost first
+  activePath: OutlineSymbol[];
+  onSelect: (range: SourceRange) => void;
+};
+
+export function OutlineIcon({ kind }: { kind: OutlineKind }) {
+  const className = "h-3.5 w-3.5 shrink-0";
+  switch (kind) {
+    case "event":
+      return <Zap className={`${className} text-yellow-500`} />;
+    case "command":
+      return <SquareTerminal className={`${className} text-blue-500`} />;
+    case "function":
+      return <SquareFunction className={`${className} text-purple-500`} />;
+    case "options":
+    case "variables":
+      return <Braces className={className} />;
+    case "option":
+      return <Hash className={className} />;
+    case "variable":
+      return <Variable className={className} />;
+    case "conditional":
+      return <Split className={className} />;
+    case "loop":
+      return <Repeat className={className} />;
+    default:
+      return <Box className={className} />;
+  }
+}
+
+function SymbolRow({
+  symbol,
+  depth,
+  activePath,
+  onSelect,
+}: {
+  symbol: OutlineSymbol;
+  depth: number;
+  activePath: OutlineSymbol[];
+  onSelect: (range: SourceRange) => void;
+}) {
+  const [open, setOpen] = useState(true);
+  const hasChildren = symbol.children.length > 0;
+  const isActive = activePath[activePath.length - 1] === symbol;
+
+  return (
+    <div>
+      <div
+        className={`flex items-center gap-1 w-full text-sm hover:bg-muted/60 rounded px-1 py-0.5 ${isActive ? "bg-muted" : ""}`}
+        style={{ paddingLeft: 8 + depth * 12 }}
+      >
+        <button
+          className={`shrink-0 ${hasChildren ? "" : "invisible"}`}
+          onClick={() => setOpen((o) => !o)}
+          aria-label={`Toggle ${symbol.name}`}
+        >
+          {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+        </button>
+        <button className="flex items-center gap-1 flex-1 min-w-0 text-left" onClick={() => onSelect(symbol.selectionRange)}>
+          <OutlineIcon kind={symbol.kind} />
+          <span className="ml-1 truncate">{symbol.name}</span>
+          {symbol.detail && <span className="truncate text-xs text-muted-foreground">{symbol.detail}</span>}
+        </button>
+      </div>
+      {open &&
+        symbol.children.map((child, i) => (
+          <SymbolRow key={i} symbol={child} depth={depth + 1} activePath={activePath} onSelect={onSelect} />
+        ))}
+    </div>
+  );
+}
+
+export function OutlineView({ symbols, activePath, onSelect }: OutlineViewProps) {
+  const [open, setOpen] = useState(true);
+
+  return (
+    <div className={`flex flex-col border-t ${open ? "flex-1 min-h-0" : ""}`}>
+      <button
+        className="flex items-center gap-1 px-2 py-2 border-b text-left"
+        onClick={() => setOpen((o) => !o)}
+      >
+        {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+        <span className="text-xs font-medium tracking-wider uppercase">Outline</span>
+      </button>
+      {open && (
+        <div className="flex-1 overflow-auto py-1">
+          {!symbols && <div className="px-3 py-1 text-xs text-muted-foreground">Open a Skript file to see its outline.</div>}
+          {symbols?.length === 0 && (
+            <div className="px-3 py-1 text-xs text-muted-foreground">No events, commands or functions in this file.</div>
+          )}
+          {symbols?.map((symbol, i) => (
+            <SymbolRow key={i} symbol={symbol} depth={0} activePath={activePath} onSelect={onSelect} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
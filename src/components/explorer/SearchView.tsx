@@ -0,0 +1,206 @@
+import { useDeferredValue, useMemo, useState } from "react";
+import { CaseSensitive, ChevronDown, ChevronRight, FileCode, Regex, Replace, ReplaceAll, Undo2, WholeWord } from "lucide-react";
+import { FileLeaf, FileTree } from "@/lib/fs";
+import {
+  DEFAULT_SEARCH_OPTIONS,
+  FileMatches,
+  SearchMatch,
+  SearchOptions,
+  planReplace,
+  replaceInFile,
+  searchFiles,
+  searchPattern,
+} from "@/lib/search";
+import { FileRename } from "@/lib/skript/rename";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export type SearchViewProps = {
+  tree: FileTree;
+  onOpen: (file: FileLeaf, line: number, column: number) => void;
+  // replaces every match, after a preview
+  onReplaceAll: (renames: FileRename[], query: string, replacement: string) => void;
+  // replaces one match right away
+  onReplace: (rename: FileRename) => void;
+  // undoes the last replace, while it can be
+  onUndo: (() => void) | null;
+};
+
+type Toggle = { key: "caseSensitive" | "wholeWord" | "regex"; icon: typeof Regex; title: string };
+
+const TOGGLES: Toggle[] = [
+  { key: "caseSensitive", icon: CaseSensitive, title: "Match case" },
+  { key: "wholeWord", icon: WholeWord, title: "Match whole word" },
+  { key: "regex", icon: Regex, title: "Use regular expression" },
+];
+
+function MatchRow({ match, onOpen, onReplace }: { match: SearchMatch; onOpen: () => void; onReplace: () => void }) {
+  // the line from its first non-blank character, with the match highlighted
+  const start = match.text.length - match.text.trimStart().length;
+  const from = match.column - 1;
+  return (
+    <div className="group flex items-center w-full text-xs hover:bg-muted/60 rounded py-0.5" style={{ paddingLeft: 28 }}>
+      <button className="flex-1 min-w-0 truncate text-left font-mono" onClick={onOpen} title={`Ln ${match.line}, Col ${match.column}`}>
+        <span className="text-muted-foreground">{match.text.slice(start, from)}</span>
+        <span className="bg-yellow-200 dark:bg-yellow-800 rounded-sm">{match.text.slice(from, from + match.length)}</span>
+        <span className="text-muted-foreground">{match.text.slice(from + match.length)}</span>
+      </button>
+      <button
+        className="opacity-0 group-hover:opacity-100 px-1 text-muted-foreground hover:text-foreground"
+        onClick={onReplace}
+        title="Replace"
+      >
+        <Replace className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
+
+function FileRow({
+  entry,
+  onOpen,
+  onReplace,
+}: {
+  entry: FileMatches;
+  onOpen: SearchViewProps["onOpen"];
+  onReplace: (match: SearchMatch) => void;
+}) {
+  const [open, setOpen] = useState(true);
+  return (
+    <div>
+      <button
+        className="flex items-center gap-1 w-full text-sm hover:bg-muted/60 rounded px-1 py-0.5 text-left"
+        style={{ paddingLeft: 8 }}
+        onClick={() => setOpen((o) => !o)}
+        title={entry.path}
+      >
+        {open ? <ChevronDown className="h-3.5 w-3.5 shrink-0" /> : <ChevronRight className="h-3.5 w-3.5 shrink-0" />}
+        <FileCode className="h-3.5 w-3.5 shrink-0" />
+        <span className="ml-1 truncate">{entry.path}</span>
+        <span className="ml-auto shrink-0 rounded-full bg-muted px-1.5 text-xs text-muted-foreground">{entry.matches.length}</span>
+      </button>
+      {open &&
+        entry.matches.map((match) => (
+          <MatchRow
+            key={`${match.line}:${match.column}`}
+            match={match}
+            onOpen={() => onOpen(entry.file, match.line, match.column)}
+            onReplace={() => onReplace(match)}
+          />
+        ))}
+    </div>
+  );
+}
+
+export function SearchView({ tree, onOpen, onReplaceAll, onReplace, onUndo }: SearchViewProps) {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [replacement, setReplacement] = useState("");
+  // typing stays responsive while a large workspace is searched
+  const searched = useDeferredValue(options);
+
+  const compiled = useMemo(() => searchPattern(searched), [searched]);
+  const result = useMemo(
+    () => (open && "pattern" in compiled ? searchFiles(tree, searched, compiled.pattern) : null),
+    [open, tree, searched, compiled]
+  );
+
+  const set = <K extends keyof SearchOptions>(key: K, value: SearchOptions[K]) => setOptions((o) => ({ ...o, [key]: value }));
+
+  const replaceMatch = (entry: FileMatches, match: SearchMatch) => {
+    if (!("pattern" in compiled)) return;
+    const rename = replaceInFile(entry, compiled.pattern, replacement, searched, match);
+    if (rename) onReplace(rename);
+  };
+
+  const replaceAll = () => {
+    if (!result || !("pattern" in compiled)) return;
+    onReplaceAll(planReplace(result, compiled.pattern, replacement, searched), searched.query, replacement);
+  };
+
+  const inputClass = "h-7 px-2 text-xs";
+
+  return (
+    <div className={`flex flex-col border-t ${open ? "flex-1 min-h-0" : ""}`}>
+      <button className="flex items-center gap-1 px-2 py-2 border-b text-left" onClick={() => setOpen((o) => !o)}>
+        {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+        <span className="text-xs font-medium tracking-wider uppercase">Search</span>
+        {result && result.total > 0 && (
+          <span className="ml-auto text-xs text-muted-foreground">
+            {result.total}
+            {result.truncated && "+"}
+          </span>
+        )}
+      </button>
+      {open && (
+        <>
+          <div className="space-y-1 p-2 border-b">
+            <div className="flex items-center gap-0.5">
+              <Input
+                autoFocus
+                className={inputClass}
+                value={options.query}
+                onChange={(e) => set("query", e.target.value)}
+                placeholder="Search"
+                aria-invalid={"error" in compiled}
+              />
+              {TOGGLES.map(({ key, icon: Icon, title }) => (
+                <Button
+                  key={key}
+                  size="icon"
+                  variant={options[key] ? "secondary" : "ghost"}
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => set(key, !options[key])}
+                  title={title}
+                  aria-pressed={options[key]}
+                >
+                  <Icon className="h-3.5 w-3.5" />
+                </Button>
+              ))}
+            </div>
+            <div className="flex items-center gap-0.5">
+              <Input className={inputClass} value={replacement} onChange={(e) => setReplacement(e.target.value)} placeholder="Replace" />
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 shrink-0"
+                onClick={replaceAll}
+                disabled={!result?.total}
+                title="Replace all…"
+              >
+                <ReplaceAll className="h-3.5 w-3.5" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-7 w-7 shrink-0" onClick={onUndo ?? undefined} disabled={!onUndo} title="Undo last replace">
+                <Undo2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+            <Input
+              className={inputClass}
+              value={options.include}
+              onChange={(e) => set("include", e.target.value)}
+              placeholder="Files to include, e.g. scripts/**, *.sk"
+            />
+            <Input
+              className={inputClass}
+              value={options.exclude}
+              onChange={(e) => set("exclude", e.target.value)}
+              placeholder="Files to exclude"
+            />
+            {"error" in compiled && <p className="text-xs text-destructive">{compiled.error}</p>}
+          </div>
+          <div className="flex-1 overflow-auto py-1">
+            {result && options.query && result.total === 0 && <div className="px-3 py-1 text-xs text-muted-foreground">No results.</div>}
+            {result?.truncated && (
+              <div className="px-3 py-1 text-xs text-muted-foreground">
+                Showing the first {result.total} results. Narrow the search to see the rest.
+              </div>
+            )}
+            {result?.files.map((entry) => (
+              <FileRow key={entry.file.id} entry={entry} onOpen={onOpen} onReplace={(match) => replaceMatch(entry, match)} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, File as FileIcon, Folder, RotateCcw, Settings2, Trash2, X } from "lucide-react";
+import { isFolder } from "@/lib/fs";
+import { TrashItem, countFiles } from "@/lib/trash";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+export type TrashViewProps = {
+  items: TrashItem[];
+  retentionDays: number;
+  onRestore: (itemId: string) => void;
+  // deletes items for good; all of them when no id is given
+  onPurge: (itemId?: string) => void;
+  onRetentionChange: (days: number) => void;
+};
+
+const RETENTION_OPTIONS = [
+  { days: 7, label: "After 7 days" },
+  { days: 30, label: "After 30 days" },
+  { days: 90, label: "After 90 days" },
+  { days: 0, label: "Never" },
+];
+
+export function TrashView({ items, retentionDays, onRestore, onPurge, onRetentionChange }: TrashViewProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className={`flex flex-col border-t ${open ? "flex-1 min-h-0" : ""}`}>
+      <div className="flex items-center gap-1 px-2 py-2 border-b">
+        <button className="flex items-center gap-1 flex-1 text-left" onClick={() => setOpen((o) => !o)}>
+          {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+          <span className="text-xs font-medium tracking-wider uppercase">Trash</span>
+          <span className="ml-auto text-xs text-muted-foreground">{items.length}</span>
+        </button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="icon" variant="ghost" className="h-6 w-6" title="Trash settings">
+              <Settings2 className="h-3.5 w-3.5" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Delete items for good</DropdownMenuLabel>
+            <DropdownMenuRadioGroup value={String(retentionDays)} onValueChange={(v) => onRetentionChange(Number(v))}>
+              {RETENTION_OPTIONS.map((o) => (
+                <DropdownMenuRadioItem key={o.days} value={String(o.days)}>
+                  {o.label}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem disabled={items.length === 0} onClick={() => onPurge()}>
+              <Trash2 className="h-3.5 w-3.5 mr-2" /> Empty trash
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      {open && (
+        <div className="flex-1 overflow-auto py-1">
+          {items.length === 0 && <div className="px-3 py-1 text-xs text-muted-foreground">Deleted files and folders show up here.</div>}
+          {items.map((item) => {
+            const Icon = isFolder(item.node) ? Folder : FileIcon;
+            const files = countFiles(item.node);
+            return (
+              <div
+                key={item.id}
+                className="group flex items-center gap-2 w-full text-sm hover:bg-muted/60 rounded px-1 py-0.5"
+                style={{ paddingLeft: 8 }}
+                title={`Deleted ${item.deletedAt.toLocaleString()} from /${item.parentPath}`}
+              >
+                <Icon className="h-4 w-4 shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">{item.node.name}</div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    {item.parentPath || "/"}
+                    {isFolder(item.node) && ` • ${files} ${files === 1 ? "file" : "files"}`}
+                  </div>
+                </div>
+                <button
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                  onClick={() => onRestore(item.id)}
+                  title="Restore to its original location"
+                >
+                  <RotateCcw className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                  onClick={() => onPurge(item.id)}
+                  title="Delete for good"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
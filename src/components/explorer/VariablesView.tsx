@@ -0,0 +1,99 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle, ChevronDown, ChevronRight, FileCode, Info, Variable } from "lucide-react";
+import { FileLeaf } from "@/lib/fs";
+import { VariableAccess, VariableFamily } from "@/lib/skript/variables";
+
+export type VariablesViewProps = {
+  families: VariableFamily[];
+  onOpen: (file: FileLeaf, line: number, column: number) => void;
+};
+
+const PROBLEM_TITLES: Record<string, string> = {
+  "variable-typo": "Possibly a typo of another variable",
+  "variable-never-set": "Read but never set",
+  "variable-never-read": "Set but never read",
+};
+
+function groupByFile(accesses: VariableAccess[]) {
+  const files = new Map<string, { file: FileLeaf; path: string; accesses: VariableAccess[] }>();
+  for (const access of accesses) {
+    const entry = files.get(access.file.id);
+    if (entry) entry.accesses.push(access);
+    else files.set(access.file.id, { file: access.file, path: access.path, accesses: [access] });
+  }
+  return [...files.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function FamilyRow({ family, onOpen }: { family: VariableFamily; onOpen: VariablesViewProps["onOpen"] }) {
+  const [open, setOpen] = useState(false);
+  const files = useMemo(() => groupByFile(family.accesses), [family]);
+
+  return (
+    <div>
+      <button
+        className="flex items-center gap-1 w-full text-sm hover:bg-muted/60 rounded px-1 py-0.5 text-left"
+        style={{ paddingLeft: 8 }}
+        onClick={() => setOpen((o) => !o)}
+      >
+        {open ? <ChevronDown className="h-3.5 w-3.5 shrink-0" /> : <ChevronRight className="h-3.5 w-3.5 shrink-0" />}
+        <Variable className="h-3.5 w-3.5 shrink-0" />
+        <span className="ml-1 truncate">{family.family}</span>
+        {family.problem === "variable-never-read" ? (
+          <span title={PROBLEM_TITLES[family.problem]}><Info className="h-3.5 w-3.5 shrink-0 text-blue-500" /></span>
+        ) : family.problem ? (
+          <span title={PROBLEM_TITLES[family.problem]}><AlertTriangle className="h-3.5 w-3.5 shrink-0 text-yellow-500" /></span>
+        ) : null}
+        <span className="ml-auto shrink-0 text-xs text-muted-foreground" title="Reads / writes">
+          {family.reads}R {family.writes}W
+        </span>
+      </button>
+      {open &&
+        files.map(({ file, path, accesses }) => (
+          <div key={file.id}>
+            <div className="flex items-center gap-1 text-xs text-muted-foreground py-0.5" style={{ paddingLeft: 28 }}>
+              <FileCode className="h-3.5 w-3.5 shrink-0" />
+              <span className="truncate">{path}</span>
+            </div>
+            {accesses.map((a, i) => (
+              <button
+                key={i}
+                className="flex items-center gap-2 w-full text-xs hover:bg-muted/60 rounded py-0.5 text-left"
+                style={{ paddingLeft: 44 }}
+                onClick={() => onOpen(file, a.range.startLineNumber, a.range.startColumn)}
+              >
+                <span className={`w-3 shrink-0 font-medium ${a.write ? "text-orange-500" : "text-blue-500"}`}>
+                  {a.write ? "W" : "R"}
+                </span>
+                <span className="truncate font-mono">{a.name}</span>
+                <span className="ml-auto pr-2 shrink-0 text-muted-foreground">Ln {a.range.startLineNumber}</span>
+              </button>
+            ))}
+          </div>
+        ))}
+    </div>
+  );
+}
+
+export function VariablesView({ families, onOpen }: VariablesViewProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className={`flex flex-col border-t ${open ? "flex-1 min-h-0" : ""}`}>
+      <button className="flex items-center gap-1 px-2 py-2 border-b text-left" onClick={() => setOpen((o) => !o)}>
+        {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+        <span className="text-xs font-medium tracking-wider uppercase">Variables</span>
+        <span className="ml-auto text-xs text-muted-foreground">{families.length}</span>
+      </button>
+      {open && (
+        <div className="flex-1 overflow-auto py-1">
+          {families.length === 0 && (
+            <div className="px-3 py-1 text-xs text-muted-foreground">No global variables are used in this workspace.</div>
+          )}
+          {families.map((family) => (
+            <FamilyRow key={family.family} family={family} onOpen={onOpen} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { DiffEditor } from "@monaco-editor/react";
+import { Circle, CircleDot, RotateCcw, Settings2, X } from "lucide-react";
+import { FileLeaf } from "@/lib/fs";
+import { FileSnapshot, HistoryRetention, SNAPSHOT_REASONS } from "@/lib/history";
+import { FileHistory } from "@/hooks/useFileHistory";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { defineMonacoThemes, getMonacoTheme } from "@/components/editor/monacoThemes";
+import { editorLanguage, registerSkriptLanguage } from "@/components/editor/skriptLanguage";
+
+export type HistoryPanelProps = {
+  // the active file, with its current content
+  file: FileLeaf | null;
+  path: string | null;
+  history: FileHistory;
+  retention: HistoryRetention;
+  onRetentionChange: (retention: HistoryRetention) => void;
+  onRestore: (snapshot: FileSnapshot) => void;
+  themeKey: string;
+  onClose: () => void;
+};
+
+const CURRENT = "current";
+const MAX_SNAPSHOT_OPTIONS = [20, 50, 100, 200];
+const MAX_AGE_OPTIONS = [7, 30, 90, 365];
+
+function Pick({ selected, onClick, title }: { selected: boolean; onClick: () => void; title: string }) {
+  const Icon = selected ? CircleDot : Circle;
+  return (
+    <button className="shrink-0 text-muted-foreground hover:text-foreground" onClick={onClick} title={title}>
+      <Icon className={`h-3.5 w-3.5 ${selected ? "text-primary" : ""}`} />
+    </button>
+  );
+}
+
+export function HistoryPanel({ file, path, history, retention, onRetentionChange, onRestore, themeKey, onClose }: HistoryPanelProps) {
+  const { loadHistory, version } = history;
+  const [snapshots, setSnapshots] = useState<FileSnapshot[]>([]);
+  // the two versions compared, as snapshot ids or CURRENT
+  const [from, setFrom] = useState<string | null>(null);
+  const [to, setTo] = useState<string>(CURRENT);
+  const fileId = file?.id;
+
+  useEffect(() => {
+    setFrom(null);
+    setTo(CURRENT);
+  }, [fileId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!fileId) {
+      setSnapshots([]);
+      return;
+    }
+    loadHistory(fileId)
+      .then((loaded) => !cancelled && setSnapshots(loaded))
+      .catch(() => !cancelled && setSnapshots([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [fileId, loadHistory, version]);
+
+  const contentOf = (id: string | null) =>
+    id === CURRENT ? file?.content ?? "" : snapshots.find((s) => s.id === id)?.content ?? "";
+  const fromId = from ?? snapshots[0]?.id ?? null;
+
+  return (
+    <div className="h-full flex flex-col text-sm">
+      <div className="h-8 border-b flex items-center justify-between px-2 shrink-0">
+        <div className="flex items-center gap-3 min-w-0">
+          <span className="text-xs font-medium tracking-wider uppercase">History</span>
+          <span className="text-xs text-muted-foreground truncate">
+            {file ? `${file.name} • ${snapshots.length} ${snapshots.length === 1 ? "snapshot" : "snapshots"}` : "No file open"}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" title="How long snapshots are kept">
+                <Settings2 className="h-3.5 w-3.5 mr-1" /> Retention
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Snapshots per file</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={String(retention.maxSnapshots)}
+                onValueChange={(v) => onRetentionChange({ ...retention, maxSnapshots: Number(v) })}
+              >
+                {MAX_SNAPSHOT_OPTIONS.map((n) => (
+                  <DropdownMenuRadioItem key={n} value={String(n)}>
+                    {n} snapshots
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Keep for</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={String(retention.maxAgeDays)}
+                onValueChange={(v) => onRetentionChange({ ...retention, maxAgeDays: Number(v) })}
+              >
+                {MAX_AGE_OPTIONS.map((n) => (
+                  <DropdownMenuRadioItem key={n} value={String(n)}>
+                    {n} days
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button size="icon" variant="ghost" className="h-6 w-6" onClick={onClose} title="Close History">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        <div className="w-72 shrink-0 border-r overflow-auto py-1">
+          {file && (
+            <>
+              <div className="px-2 pb-1 text-xs text-muted-foreground">Pick the versions to compare from and to.</div>
+              <div className="flex items-center gap-2 px-2 py-0.5">
+                <span className="w-3.5" />
+                <Pick selected={to === CURRENT} onClick={() => setTo(CURRENT)} title="Compare to the current version" />
+                <span className="font-medium">Current version</span>
+              </div>
+            </>
+          )}
+          {file && snapshots.length === 0 && (
+            <div className="px-3 py-2 text-xs text-muted-foreground">
+              No snapshots yet. They are taken when you press Ctrl+S and when you stop typing for a while.
+            </div>
+          )}
+          {snapshots.map((snapshot) => (
+            <div key={snapshot.id} className="group flex items-center gap-2 px-2 py-0.5 hover:bg-muted/60">
+              <Pick selected={fromId === snapshot.id} onClick={() => setFrom(snapshot.id)} title="Compare from this version" />
+              <Pick selected={to === snapshot.id} onClick={() => setTo(snapshot.id)} title="Compare to this version" />
+              <div className="min-w-0 flex-1">
+                <div className="truncate">{snapshot.createdAt.toLocaleString()}</div>
+                <div className="truncate text-xs text-muted-foreground">
+                  {SNAPSHOT_REASONS[snapshot.reason]}
+                  {snapshot.path !== path && ` • was ${snapshot.path}`}
+                </div>
+              </div>
+              <button
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                onClick={() => onRestore(snapshot)}
+                title="Restore this version"
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex-1 min-w-0">
+          {file && fromId ? (
+            <DiffEditor
+              height="100%"
+              original={contentOf(fromId)}
+              modified={contentOf(to)}
+              language={editorLanguage(file.name)}
+              theme={getMonacoTheme(themeKey)}
+              beforeMount={(monaco) => {
+                registerSkriptLanguage(monaco);
+                defineMonacoThemes(monaco);
+              }}
+              options={{ readOnly: true, minimap: { enabled: false }, automaticLayout: true, scrollBeyondLastLine: false }}
+            />
+          ) : (
+            <div className="p-2 text-xs text-muted-foreground">Pick a snapshot to compare.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
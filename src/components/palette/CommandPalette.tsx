@@ -0,0 +1,53 @@
+import { useMemo } from "react";
+import { Command as CommandEntry, formatKeybinding } from "@/lib/commands";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandShortcut } from "@/components/ui/command";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  commands: CommandEntry[];
+}
+
+export const CommandPalette = ({ open, onOpenChange, commands }: CommandPaletteProps) => {
+  // groups in the order their first command was registered
+  const groups = useMemo(() => {
+    const byCategory = new Map<string, CommandEntry[]>();
+    for (const command of commands) {
+      if (command.enabled === false) continue;
+      byCategory.set(command.category, [...(byCategory.get(command.category) ?? []), command]);
+    }
+    return [...byCategory];
+  }, [commands]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 top-[20%] translate-y-0 [&>button]:hidden">
+        <DialogTitle className="sr-only">Commands</DialogTitle>
+        <Command loop>
+          <CommandInput placeholder="Type a command" />
+          <CommandList className="max-h-[400px]">
+            <CommandEmpty>No matching commands.</CommandEmpty>
+            {groups.map(([category, entries]) => (
+              <CommandGroup key={category} heading={category}>
+                {entries.map((command) => (
+                  <CommandItem
+                    key={command.id}
+                    value={`${command.category}: ${command.title}`}
+                    onSelect={() => {
+                      onOpenChange(false);
+                      command.run();
+                    }}
+                  >
+                    {command.title}
+                    {command.keybinding && <CommandShortcut>{formatKeybinding(command.keybinding)}</CommandShortcut>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
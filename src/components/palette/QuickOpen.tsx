@@ -0,0 +1,90 @@
+import { useEffect, useMemo, useState } from "react";
+import { FileCode } from "lucide-react";
+import { FileEntry, FileLeaf, FileTree, listFiles } from "@/lib/fs";
+import { fuzzyMatch } from "@/lib/commands";
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+
+interface QuickOpenProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tree: FileTree;
+  onOpen: (file: FileLeaf) => void;
+}
+
+const MAX_RESULTS = 50;
+
+type Result = FileEntry & { positions: number[] };
+
+// The text with the characters at the positions, offset by `from`, highlighted.
+function Highlighted({ text, positions, from }: { text: string; positions: Set<number>; from: number }) {
+  return (
+    <>
+      {[...text].map((c, i) =>
+        positions.has(from + i) ? (
+          <span key={i} className="text-primary font-semibold">
+            {c}
+          </span>
+        ) : (
+          c
+        )
+      )}
+    </>
+  );
+}
+
+export const QuickOpen = ({ open, onOpenChange, tree, onOpen }: QuickOpenProps) => {
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    if (open) setQuery("");
+  }, [open]);
+
+  const files = useMemo(() => (open ? listFiles(tree) : []), [open, tree]);
+  const results = useMemo<Result[]>(() => {
+    const scored: (Result & { score: number })[] = [];
+    for (const entry of files) {
+      const match = fuzzyMatch(query, entry.path);
+      if (match) scored.push({ ...entry, ...match });
+    }
+    return scored.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path)).slice(0, MAX_RESULTS);
+  }, [files, query]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 top-[20%] translate-y-0 [&>button]:hidden">
+        <DialogTitle className="sr-only">Go to file</DialogTitle>
+        <Command shouldFilter={false}>
+          <CommandInput value={query} onValueChange={setQuery} placeholder="Search files by name" />
+          <CommandList>
+            <CommandEmpty>No matching files.</CommandEmpty>
+            {results.map(({ file, path, positions }) => {
+              const nameStart = path.lastIndexOf("/") + 1;
+              const matched = new Set(positions);
+              return (
+                <CommandItem
+                  key={file.id}
+                  value={file.id}
+                  onSelect={() => {
+                    onOpenChange(false);
+                    onOpen(file);
+                  }}
+                >
+                  <FileCode className="mr-2 h-4 w-4 shrink-0" />
+                  <span className="shrink-0">
+                    <Highlighted text={path.slice(nameStart)} positions={matched} from={nameStart} />
+                  </span>
+                  {nameStart > 0 && (
+                    <span className="ml-2 truncate text-xs text-muted-foreground">
+                      <Highlighted text={path.slice(0, nameStart - 1)} positions={matched} from={0} />
+                    </span>
+                  )}
+                </CommandItem>
+              );
+            })}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
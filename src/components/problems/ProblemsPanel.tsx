@@ -0,0 +1,124 @@
+import { useDeferredValue, useMemo, useRef, useState } from "react";
+import { AlertTriangle, ChevronDown, ChevronRight, FileCode, Info, X, XCircle } from "lucide-react";
+import { FileLeaf, FileTree } from "@/lib/fs";
+import { Severity } from "@/lib/skript/ast";
+import { Diagnostic, DiagnosticsCache, countDiagnostics, diagnoseTree } from "@/lib/skript/diagnostics";
+import { SkriptProfile } from "@/lib/skript/profile";
+import { Button } from "@/components/ui/button";
+
+type SeverityFilter = "all" | Severity;
+
+export type ProblemsPanelProps = {
+  tree: FileTree;
+  profile: SkriptProfile;
+  // diagnostics of workspace-wide analyses, by file id
+  workspaceDiagnostics?: Map<string, Diagnostic[]>;
+  onSelect: (file: FileLeaf, line: number, column: number) => void;
+  onClose: () => void;
+};
+
+const FILTERS: { key: SeverityFilter; label: string }[] = [
+  { key: "all", label: "All" },
+  { key: "error", label: "Errors" },
+  { key: "warning", label: "Warnings" },
+  { key: "info", label: "Info" },
+];
+
+function SeverityIcon({ severity }: { severity: Severity }) {
+  if (severity === "error") return <XCircle className="h-3.5 w-3.5 shrink-0 text-destructive" />;
+  if (severity === "warning") return <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-yellow-500" />;
+  return <Info className="h-3.5 w-3.5 shrink-0 text-blue-500" />;
+}
+
+export function ProblemsPanel({ tree, profile, workspaceDiagnostics, onSelect, onClose }: ProblemsPanelProps) {
+  const [filter, setFilter] = useState<SeverityFilter>("all");
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const cache = useRef<{ profile: SkriptProfile; entries: DiagnosticsCache }>({ profile, entries: new Map() });
+  // Typing updates the tree on every keystroke; let the panel lag behind instead of the editor
+  const deferredTree = useDeferredValue(tree);
+
+  const results = useMemo(() => {
+    if (cache.current.profile !== profile) cache.current = { profile, entries: new Map() };
+    return diagnoseTree(deferredTree, profile, cache.current.entries, workspaceDiagnostics);
+  }, [deferredTree, profile, workspaceDiagnostics]);
+  const totals = useMemo(() => countDiagnostics(results.flatMap((r) => r.diagnostics)), [results]);
+  const groups = useMemo(
+    () =>
+      results
+        .map((r) => ({ ...r, diagnostics: r.diagnostics.filter((d) => filter === "all" || d.severity === filter) }))
+        .filter((r) => r.diagnostics.length > 0),
+    [results, filter]
+  );
+
+  const toggle = (id: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <div className="h-full flex flex-col text-sm">
+      <div className="h-8 border-b flex items-center justify-between px-2 shrink-0">
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-medium tracking-wider uppercase">Problems</span>
+          <span className="text-xs text-muted-foreground">
+            {totals.errors} errors, {totals.warnings} warnings
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          {FILTERS.map((f) => (
+            <Button
+              key={f.key}
+              size="sm"
+              variant={filter === f.key ? "secondary" : "ghost"}
+              className="h-6 px-2 text-xs"
+              onClick={() => setFilter(f.key)}
+            >
+              {f.label}
+            </Button>
+          ))}
+          <Button size="icon" variant="ghost" className="h-6 w-6" onClick={onClose} title="Close Problems">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto py-1">
+        {groups.length === 0 && (
+          <div className="px-3 py-2 text-xs text-muted-foreground">No problems have been detected in the workspace.</div>
+        )}
+        {groups.map(({ file, path, diagnostics }) => {
+          const open = !collapsed.has(file.id);
+          return (
+            <div key={file.id}>
+              <button
+                className="w-full flex items-center gap-1 px-2 py-0.5 hover:bg-muted/60 text-left"
+                onClick={() => toggle(file.id)}
+              >
+                {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+                <FileCode className="h-3.5 w-3.5" />
+                <span className="truncate">{path}</span>
+                <span className="ml-1 rounded-full bg-muted px-1.5 text-xs text-muted-foreground">{diagnostics.length}</span>
+              </button>
+              {open &&
+                diagnostics.map((d, i) => (
+                  <button
+                    key={i}
+                    className="w-full flex items-center gap-2 pl-8 pr-2 py-0.5 hover:bg-muted/60 text-left"
+                    onClick={() => onSelect(file, d.range.startLineNumber, d.range.startColumn)}
+                  >
+                    <SeverityIcon severity={d.severity} />
+                    <span className="truncate">{d.message}</span>
+                    <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+                      {d.code} [Ln {d.range.startLineNumber}, Col {d.range.startColumn}]
+                    </span>
+                  </button>
+                ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
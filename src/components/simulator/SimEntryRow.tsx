@@ -0,0 +1,96 @@
+import { XCircle } from "lucide-react";
+import { parseChatText } from "@/lib/skript/chatFormat";
+import { SimEntry, formatTicks } from "@/lib/skript/simulator";
+
+// Chat text with its color codes applied, the way it shows in game.
+export function ChatText({ text }: { text: string }) {
+  return (
+    <>
+      {parseChatText(text)
+        .filter((s) => !s.code)
+        .map((s, i) => (
+          <span
+            key={i}
+            style={{
+              color: s.style.color ?? undefined,
+              fontWeight: s.style.bold ? "bold" : undefined,
+              fontStyle: s.style.italic ? "italic" : undefined,
+              textDecoration:
+                [s.style.underlined && "underline", s.style.strikethrough && "line-through"].filter(Boolean).join(" ") ||
+                undefined,
+              filter: s.style.obfuscated ? "blur(2px)" : undefined,
+            }}
+          >
+            {s.text}
+          </span>
+        ))}
+    </>
+  );
+}
+
+// One line of simulator output; errors open their source when clicked.
+export function SimEntryRow({
+  entry,
+  onOpen,
+}: {
+  entry: SimEntry;
+  onOpen: (fileId: string, line: number, column: number) => void;
+}) {
+  const time = <span className="w-12 shrink-0 text-right text-zinc-500">{formatTicks(entry.time)}</span>;
+  switch (entry.kind) {
+    case "chat":
+      return (
+        <div className="flex gap-2">
+          {time}
+          <span className="shrink-0 text-zinc-500">→ {entry.to}</span>
+          <span className="whitespace-pre-wrap"><ChatText text={entry.text} /></span>
+        </div>
+      );
+    case "broadcast":
+      return (
+        <div className="flex gap-2">
+          {time}
+          <span className="shrink-0 text-zinc-500">→ all</span>
+          <span className="whitespace-pre-wrap"><ChatText text={entry.text} /></span>
+        </div>
+      );
+    case "console":
+      return (
+        <div className="flex gap-2">
+          {time}
+          <span className="shrink-0 text-zinc-500">console</span>
+          <span className="whitespace-pre-wrap text-zinc-300">{entry.text}</span>
+        </div>
+      );
+    case "variable":
+      return (
+        <div className="flex gap-2 text-sky-300">
+          {time}
+          <span className="truncate">
+            {entry.name}: {entry.before ?? "<none>"} → {entry.after ?? "<none>"}
+          </span>
+        </div>
+      );
+    case "info":
+      return (
+        <div className="flex gap-2 text-zinc-500 italic">
+          {time}
+          <span>{entry.text}</span>
+        </div>
+      );
+    case "error":
+      return (
+        <button
+          className="flex gap-2 w-full text-left text-red-400 hover:underline"
+          onClick={() => entry.source && onOpen(entry.source.fileId, entry.source.line, 1)}
+        >
+          {time}
+          <XCircle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+          <span>
+            {entry.text}
+            {entry.source && <span className="text-zinc-500"> ({entry.source.path}:{entry.source.line})</span>}
+          </span>
+        </button>
+      );
+  }
+}
@@ -0,0 +1,237 @@
+import { FormEvent, useEffect, useRef, useState } from "react";
+import { Circle, FastForward, Play, RefreshCw, RotateCcw, Shield, Trash2, UserPlus, X } from "lucide-react";
+import { FileTree } from "@/lib/fs";
+import { createMockPlayer } from "@/lib/skript/mockServer";
+import { SETTLE_TICKS, Simulator, formatTicks } from "@/lib/skript/simulator";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SimEntryRow } from "./SimEntryRow";
+
+export type SimulatorPanelProps = {
+  tree: FileTree;
+  onOpenLocation: (fileId: string, line: number, column: number) => void;
+  onClose: () => void;
+};
+
+export function SimulatorPanel({ tree, onOpenLocation, onClose }: SimulatorPanelProps) {
+  // The simulator is mutated in place; `version` re-renders the panel after each action
+  const [sim, setSim] = useState(() => new Simulator(tree));
+  const [loadedTree, setLoadedTree] = useState(tree);
+  const [, setVersion] = useState(0);
+  const [playerName, setPlayerName] = useState("Steve");
+  const [input, setInput] = useState("");
+  const [newPlayer, setNewPlayer] = useState("");
+  const outputRef = useRef<HTMLDivElement>(null);
+
+  const player = sim.server.players.find((p) => p.name === playerName) ?? null;
+  const refresh = () => setVersion((v) => v + 1);
+
+  useEffect(() => {
+    outputRef.current?.scrollTo({ top: outputRef.current.scrollHeight });
+  });
+
+  const reload = () => {
+    sim.load(tree);
+    setLoadedTree(tree);
+    refresh();
+  };
+
+  const reset = () => {
+    setSim(new Simulator(tree));
+    setLoadedTree(tree);
+  };
+
+  const clearOutput = () => {
+    sim.log = [];
+    refresh();
+  };
+
+  const toggleOp = (name: string) => {
+    const p = sim.server.players.find((p) => p.name === name);
+    if (p) p.op = !p.op;
+    refresh();
+  };
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    const text = input.trim();
+    if (!text || !player) return;
+    // Lines starting with `/` run a command; anything else is said in chat
+    if (text.startsWith("/")) sim.runCommand(player, text);
+    else sim.fireEvent("On Chat", { player, message: text });
+    setInput("");
+    refresh();
+  };
+
+  const addPlayer = (e: FormEvent) => {
+    e.preventDefault();
+    const name = newPlayer.trim();
+    if (!/^\w{1,16}$/.test(name) || sim.server.players.some((p) => p.name.toLowerCase() === name.toLowerCase())) return;
+    sim.server.players.push(createMockPlayer(name));
+    setPlayerName(name);
+    setNewPlayer("");
+    refresh();
+  };
+
+  return (
+    <div className="h-full flex flex-col text-sm">
+      <div className="h-8 border-b flex items-center justify-between px-2 shrink-0">
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-medium tracking-wider uppercase">Simulator</span>
+          <span className="text-xs text-muted-foreground">
+            {formatTicks(sim.time)} · {sim.pending} waiting
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs"
+            disabled={sim.pending === 0}
+            onClick={() => (sim.advance(SETTLE_TICKS), refresh())}
+            title="Let five simulated minutes pass"
+          >
+            <FastForward className="h-3.5 w-3.5 mr-1" /> Skip ahead
+          </Button>
+          <Button
+            size="sm"
+            variant={loadedTree === tree ? "ghost" : "secondary"}
+            className="h-6 px-2 text-xs"
+            onClick={reload}
+            title="Reload the scripts, keeping players and variables"
+          >
+            <RefreshCw className="h-3.5 w-3.5 mr-1" /> Reload{loadedTree === tree ? "" : " (changed)"}
+          </Button>
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={reset} title="Start over with a fresh server">
+            <RotateCcw className="h-3.5 w-3.5 mr-1" /> Reset
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            onClick={clearOutput}
+            title="Clear output"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-6 w-6" onClick={onClose} title="Close Simulator">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        <div className="w-60 shrink-0 border-r overflow-auto p-2 space-y-3">
+          <div>
+            <div className="text-xs font-medium text-muted-foreground mb-1">Players</div>
+            {sim.server.players.map((p) => (
+              <div
+                key={p.uuid}
+                className={`flex items-center gap-1.5 rounded px-1 py-0.5 cursor-pointer ${p.name === playerName ? "bg-muted" : "hover:bg-muted/60"}`}
+                onClick={() => setPlayerName(p.name)}
+              >
+                <Circle className={`h-2.5 w-2.5 shrink-0 ${p.online ? "fill-green-500 text-green-500" : "text-muted-foreground"}`} />
+                <span className="truncate">{p.name}</span>
+                <button
+                  className={`ml-auto ${p.op ? "text-yellow-500" : "text-muted-foreground/50"}`}
+                  title={p.op ? "Operator (click to deop)" : "Not an operator (click to op)"}
+                  onClick={(e) => (e.stopPropagation(), toggleOp(p.name))}
+                >
+                  <Shield className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+            <form className="flex gap-1 mt-1" onSubmit={addPlayer}>
+              <Input className="h-7 text-xs" placeholder="New player" value={newPlayer} onChange={(e) => setNewPlayer(e.target.value)} />
+              <Button type="submit" size="icon" variant="ghost" className="h-7 w-7 shrink-0" title="Add player">
+                <UserPlus className="h-3.5 w-3.5" />
+              </Button>
+            </form>
+            {player && (
+              <div className="mt-1 text-xs text-muted-foreground">
+                ❤ {player.health} · 🍗 {player.food} · {player.gamemode}
+                {player.inventory.length > 0 && <> · {player.inventory.map((i) => `${i.amount} ${i.type}`).join(", ")}</>}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="text-xs font-medium text-muted-foreground mb-1">Events</div>
+            {sim.events.length === 0 && <div className="text-xs text-muted-foreground">No events in this workspace.</div>}
+            {sim.events.map((ev) => (
+              <button
+                key={ev.name}
+                className="flex items-center gap-1.5 w-full rounded px-1 py-0.5 hover:bg-muted/60 text-left disabled:opacity-50"
+                disabled={ev.hasPlayer && !player}
+                onClick={() => (sim.fireEvent(ev.name, { player: ev.hasPlayer ? player : null }), refresh())}
+                title={ev.hasPlayer ? `Fire as ${playerName}` : "Fire"}
+              >
+                <Play className="h-3 w-3 shrink-0 text-green-500" />
+                <span className="truncate">{ev.name}</span>
+                <span className="ml-auto text-xs text-muted-foreground">{ev.triggers}</span>
+              </button>
+            ))}
+          </div>
+
+          {sim.commands.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-muted-foreground mb-1">Commands</div>
+              {sim.commands.map((c) => (
+                <button
+                  key={c.name}
+                  className="block w-full truncate rounded px-1 py-0.5 hover:bg-muted/60 text-left font-mono text-xs"
+                  onClick={() => setInput(`/${c.name} `)}
+                  title={c.usage}
+                >
+                  {c.usage}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div ref={outputRef} className="flex-1 overflow-auto bg-zinc-900 text-zinc-100 font-mono text-xs p-2 space-y-0.5">
+            {sim.log.length === 0 && (
+              <div className="text-zinc-500">Fire an event or run a command to see what your scripts do.</div>
+            )}
+            {sim.log.map((entry, i) => (
+              <SimEntryRow key={i} entry={entry} onOpen={onOpenLocation} />
+            ))}
+          </div>
+          <form className="flex items-center gap-1 border-t p-1" onSubmit={submit}>
+            <Select value={playerName} onValueChange={setPlayerName}>
+              <SelectTrigger className="h-7 w-28 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sim.server.players.map((p) => (
+                  <SelectItem key={p.uuid} value={p.name}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="h-7 text-xs font-mono"
+              placeholder="/command args, or a chat message"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+            />
+            <Button type="submit" size="sm" className="h-7" disabled={!player}>Send</Button>
+          </form>
+        </div>
+
+        <div className="w-64 shrink-0 border-l overflow-auto p-2">
+          <div className="text-xs font-medium text-muted-foreground mb-1">Variables</div>
+          {sim.variables.length === 0 && <div className="text-xs text-muted-foreground">No variables are set.</div>}
+          {sim.variables.map((v) => (
+            <div key={v.name} className="flex gap-2 text-xs font-mono py-0.5">
+              <span className="truncate text-sky-600 dark:text-sky-300" title={`{${v.name}}`}>{`{${v.name}}`}</span>
+              <span className="ml-auto truncate" title={v.value}>{v.value}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
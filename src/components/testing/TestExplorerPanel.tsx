@@ -0,0 +1,225 @@
+import { useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  Circle,
+  Eye,
+  FileCode,
+  Loader2,
+  Play,
+  Square,
+  X,
+  XCircle,
+} from "lucide-react";
+import { diffLines } from "@/lib/diff";
+import { SkriptTest, TestFailure, TestResult } from "@/lib/skript/testing";
+import { TestRunner } from "@/hooks/useTestRunner";
+import { Button } from "@/components/ui/button";
+import { SimEntryRow } from "@/components/simulator/SimEntryRow";
+
+export type TestExplorerPanelProps = {
+  runner: TestRunner;
+  onOpenLocation: (fileId: string, line: number, column: number) => void;
+  onClose: () => void;
+};
+
+function StatusIcon({ result, running }: { result?: TestResult; running: boolean }) {
+  if (running) return <Loader2 className="h-3.5 w-3.5 shrink-0 animate-spin text-muted-foreground" />;
+  if (!result) return <Circle className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />;
+  if (result.status === "passed") return <CheckCircle2 className="h-3.5 w-3.5 shrink-0 text-green-500" />;
+  if (result.status === "failed") return <XCircle className="h-3.5 w-3.5 shrink-0 text-destructive" />;
+  return <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-yellow-500" />;
+}
+
+// Expected and actual values of a failed assertion, line by line.
+function FailureDiff({ failure }: { failure: TestFailure }) {
+  const lines = useMemo(() => diffLines(failure.expected ?? "", failure.actual ?? ""), [failure]);
+  return (
+    <div className="mt-1 rounded border font-mono text-xs overflow-auto">
+      <div className="flex gap-3 px-2 py-0.5 border-b text-muted-foreground">
+        <span className="text-red-600 dark:text-red-400">- expected</span>
+        <span className="text-green-600 dark:text-green-400">+ actual</span>
+      </div>
+      {lines.map((line, i) => (
+        <div
+          key={i}
+          className={`px-2 whitespace-pre ${
+            line.kind === "removed"
+              ? "bg-red-500/10 text-red-600 dark:text-red-400"
+              : line.kind === "added"
+                ? "bg-green-500/10 text-green-600 dark:text-green-400"
+                : ""
+          }`}
+        >
+          {line.kind === "removed" ? "- " : line.kind === "added" ? "+ " : "  "}
+          {line.text}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function TestExplorerPanel({ runner, onOpenLocation, onClose }: TestExplorerPanelProps) {
+  const { tests, results, running, watch, setWatch, run, stop } = runner;
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const files = useMemo(() => {
+    const groups = new Map<string, { fileId: string; path: string; tests: SkriptTest[] }>();
+    for (const test of tests) {
+      const group = groups.get(test.fileId) ?? { fileId: test.fileId, path: test.path, tests: [] };
+      group.tests.push(test);
+      groups.set(test.fileId, group);
+    }
+    return [...groups.values()];
+  }, [tests]);
+
+  const counts = useMemo(() => {
+    const all = [...results.values()];
+    return {
+      passed: all.filter((r) => r.status === "passed").length,
+      failed: all.filter((r) => r.status !== "passed").length,
+    };
+  }, [results]);
+
+  const selected = tests.find((t) => t.id === selectedId) ?? null;
+  const result = selected ? results.get(selected.id) : undefined;
+
+  const toggle = (id: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <div className="h-full flex flex-col text-sm">
+      <div className="h-8 border-b flex items-center justify-between px-2 shrink-0">
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-medium tracking-wider uppercase">Tests</span>
+          <span className="text-xs text-muted-foreground">
+            {counts.passed} passed, {counts.failed} failed, {tests.length} total
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant={watch ? "secondary" : "ghost"}
+            className="h-6 px-2 text-xs"
+            onClick={() => setWatch(!watch)}
+            title="Rerun tests when their file or the scripts they ran change"
+          >
+            <Eye className="h-3.5 w-3.5 mr-1" /> Watch
+          </Button>
+          {running.size > 0 ? (
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={stop}>
+              <Square className="h-3.5 w-3.5 mr-1" /> Stop
+            </Button>
+          ) : (
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" disabled={tests.length === 0} onClick={() => run(tests)}>
+              <Play className="h-3.5 w-3.5 mr-1" /> Run all
+            </Button>
+          )}
+          <Button size="icon" variant="ghost" className="h-6 w-6" onClick={onClose} title="Close Tests">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        <div className="w-72 shrink-0 border-r overflow-auto py-1">
+          {files.length === 0 && (
+            <div className="px-3 py-2 text-xs text-muted-foreground">
+              No tests yet. Add <code>test "name":</code> blocks to a <code>.sktest</code> file.
+            </div>
+          )}
+          {files.map((file) => {
+            const open = !collapsed.has(file.fileId);
+            return (
+              <div key={file.fileId}>
+                <div className="group flex items-center gap-1 px-2 py-0.5 hover:bg-muted/60">
+                  <button className="flex items-center gap-1 min-w-0 flex-1 text-left" onClick={() => toggle(file.fileId)}>
+                    {open ? <ChevronDown className="h-3.5 w-3.5 shrink-0" /> : <ChevronRight className="h-3.5 w-3.5 shrink-0" />}
+                    <FileCode className="h-3.5 w-3.5 shrink-0" />
+                    <span className="truncate">{file.path}</span>
+                  </button>
+                  <button
+                    className="opacity-0 group-hover:opacity-100 text-green-600"
+                    onClick={() => run(file.tests)}
+                    title="Run the tests of this file"
+                  >
+                    <Play className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+                {open &&
+                  file.tests.map((test) => (
+                    <div
+                      key={test.id}
+                      className={`group flex items-center gap-2 pl-8 pr-2 py-0.5 cursor-pointer ${
+                        test.id === selectedId ? "bg-muted" : "hover:bg-muted/60"
+                      }`}
+                      onClick={() => setSelectedId(test.id)}
+                      onDoubleClick={() => onOpenLocation(test.fileId, test.line, 1)}
+                    >
+                      <StatusIcon result={results.get(test.id)} running={running.has(test.id)} />
+                      <span className="truncate">{test.name}</span>
+                      <button
+                        className="ml-auto opacity-0 group-hover:opacity-100 text-green-600"
+                        onClick={(e) => (e.stopPropagation(), run([test]))}
+                        title="Run this test"
+                      >
+                        <Play className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex-1 min-w-0 overflow-auto p-2 space-y-2">
+          {!selected && <div className="text-xs text-muted-foreground">Select a test to see its results.</div>}
+          {selected && (
+            <>
+              <div className="flex items-center gap-2">
+                <StatusIcon result={result} running={running.has(selected.id)} />
+                <button className="font-medium hover:underline" onClick={() => onOpenLocation(selected.fileId, selected.line, 1)}>
+                  {selected.name}
+                </button>
+                {result && <span className="text-xs text-muted-foreground">{result.duration} ms</span>}
+              </div>
+              {!result && <div className="text-xs text-muted-foreground">This test hasn't run yet.</div>}
+              {result?.failures.map((failure, i) => (
+                <div key={i} className="text-xs">
+                  <button
+                    className="flex items-center gap-1 text-left text-destructive hover:underline"
+                    onClick={() => onOpenLocation(failure.source.fileId, failure.source.line, 1)}
+                  >
+                    {failure.message}
+                    <span className="text-muted-foreground">
+                      ({failure.source.path}:{failure.source.line})
+                    </span>
+                  </button>
+                  {(failure.expected !== undefined || failure.actual !== undefined) && <FailureDiff failure={failure} />}
+                </div>
+              ))}
+              {result && result.output.length > 0 && (
+                <div>
+                  <div className="text-xs font-medium text-muted-foreground mb-1">Output</div>
+                  <div className="rounded bg-zinc-900 text-zinc-100 font-mono text-xs p-2 space-y-0.5">
+                    {result.output.map((entry, i) => (
+                      <SimEntryRow key={i} entry={entry} onOpen={onOpenLocation} />
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
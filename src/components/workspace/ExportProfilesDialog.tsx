@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useState } from "react";
+import { Copy, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { FileTree } from "@/lib/fs";
+import { BUILT_IN_EXPORT_PROFILES, ExportProfile, ExportSource, MANIFEST_NAME, isBuiltInProfile, planExport } from "@/lib/exportProfile";
+
+interface ExportProfilesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // the workspace's own profiles
+  profiles: ExportProfile[];
+  tree: FileTree;
+  source: ExportSource;
+  onSave: (profiles: ExportProfile[]) => void;
+  onExport: (profile: ExportProfile) => void;
+}
+
+const PREVIEW_LIMIT = 200;
+
+const toLines = (text: string) =>
+  text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+export const ExportProfilesDialog = ({ open, onOpenChange, profiles, tree, source, onSave, onExport }: ExportProfilesDialogProps) => {
+  const [drafts, setDrafts] = useState<ExportProfile[]>(profiles);
+  const [selectedId, setSelectedId] = useState<string>(BUILT_IN_EXPORT_PROFILES[0].id);
+  // pattern fields are edited as text so that blank lines can be typed
+  const [patterns, setPatterns] = useState<{ exclude: string; disabled: string }>({ exclude: "", disabled: "" });
+
+  useEffect(() => {
+    if (!open) return;
+    setDrafts(profiles);
+    setSelectedId(profiles[0]?.id ?? BUILT_IN_EXPORT_PROFILES[0].id);
+  }, [open, profiles]);
+
+  const all = [...BUILT_IN_EXPORT_PROFILES, ...drafts];
+  const selected = all.find((p) => p.id === selectedId) ?? all[0];
+  const editable = !isBuiltInProfile(selected);
+
+  useEffect(() => {
+    setPatterns({ exclude: selected.exclude.join("\n"), disabled: selected.disabled.join("\n") });
+    // only when another profile is selected; typing updates the profile from the text
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selected.id]);
+
+  const plan = useMemo(() => (open ? planExport(tree, selected, source) : null), [open, tree, selected, source]);
+
+  const update = (patch: Partial<ExportProfile>) =>
+    setDrafts((prev) => prev.map((p) => (p.id === selected.id ? { ...p, ...patch } : p)));
+
+  const addProfile = (base: ExportProfile, name: string) => {
+    const profile = { ...base, id: crypto.randomUUID(), name };
+    setDrafts((prev) => [...prev, profile]);
+    setSelectedId(profile.id);
+  };
+
+  const removeProfile = () => {
+    setDrafts((prev) => prev.filter((p) => p.id !== selected.id));
+    setSelectedId(BUILT_IN_EXPORT_PROFILES[0].id);
+  };
+
+  const invalid = drafts.some((p) => !p.name.trim());
+
+  const save = () => {
+    if (invalid) return;
+    onSave(drafts.map((p) => ({ ...p, name: p.name.trim(), root: p.root.trim() })));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Export Profiles</DialogTitle>
+          <DialogDescription>
+            Choose how the workspace is laid out in the exported zip, such as the folder structure a server expects.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-4 min-h-[22rem]">
+          <div className="w-48 shrink-0 space-y-1">
+            {all.map((p) => (
+              <button
+                key={p.id}
+                className={`block w-full truncate rounded px-2 py-1 text-left text-sm ${p.id === selected.id ? "bg-muted" : "hover:bg-muted/60"}`}
+                onClick={() => setSelectedId(p.id)}
+              >
+                {p.name || "Untitled"}
+                {isBuiltInProfile(p) && <span className="ml-1 text-xs text-muted-foreground">built-in</span>}
+              </button>
+            ))}
+            <Button size="sm" variant="ghost" className="w-full justify-start" onClick={() => addProfile(BUILT_IN_EXPORT_PROFILES[1], "New profile")}>
+              <Plus className="h-4 w-4 mr-1" /> New profile
+            </Button>
+          </div>
+
+          <div className="flex-1 min-w-0 space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="profile-name">Name</Label>
+                <Input id="profile-name" value={selected.name} disabled={!editable} onChange={(e) => update({ name: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="profile-root">Folder in the zip</Label>
+                <Input
+                  id="profile-root"
+                  value={selected.root}
+                  disabled={!editable}
+                  placeholder="Zip root"
+                  onChange={(e) => update({ root: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex gap-6">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="profile-scripts-only"
+                  checked={selected.scriptsOnly}
+                  disabled={!editable}
+                  onCheckedChange={(checked) => update({ scriptsOnly: checked === true })}
+                />
+                <Label htmlFor="profile-scripts-only" className="font-normal">Only .sk scripts</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="profile-manifest"
+                  checked={selected.manifest}
+                  disabled={!editable}
+                  onCheckedChange={(checked) => update({ manifest: checked === true })}
+                />
+                <Label htmlFor="profile-manifest" className="font-normal">Add {MANIFEST_NAME}</Label>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="profile-exclude">Leave out (one pattern per line)</Label>
+                <Textarea
+                  id="profile-exclude"
+                  className="h-20 font-mono text-xs"
+                  value={patterns.exclude}
+                  disabled={!editable}
+                  placeholder={"drafts/\n*.draft.sk"}
+                  onChange={(e) => {
+                    setPatterns((p) => ({ ...p, exclude: e.target.value }));
+                    update({ exclude: toLines(e.target.value) });
+                  }}
+                />
+              </div>
+              <div>
+                <Label htmlFor="profile-disabled">Export disabled with "-" (one pattern per line)</Label>
+                <Textarea
+                  id="profile-disabled"
+                  className="h-20 font-mono text-xs"
+                  value={patterns.disabled}
+                  disabled={!editable}
+                  placeholder="testing/**"
+                  onChange={(e) => {
+                    setPatterns((p) => ({ ...p, disabled: e.target.value }));
+                    update({ disabled: toLines(e.target.value) });
+                  }}
+                />
+              </div>
+            </div>
+            {plan && (
+              <div>
+                <Label>
+                  {plan.files.length} files in the zip
+                  {plan.excluded.length > 0 && `, ${plan.excluded.length} left out`}
+                </Label>
+                <div className="mt-1 h-28 overflow-auto rounded border px-2 py-1 font-mono text-xs">
+                  {plan.files.slice(0, PREVIEW_LIMIT).map((f) => (
+                    <div key={f.path} className="truncate">{f.path}</div>
+                  ))}
+                  {plan.excluded.slice(0, PREVIEW_LIMIT).map((path) => (
+                    <div key={`excluded:${path}`} className="truncate text-muted-foreground line-through">{path}</div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => addProfile(selected, `${selected.name} (copy)`)}>
+              <Copy className="h-4 w-4 mr-1" /> Duplicate
+            </Button>
+            {editable && (
+              <Button variant="outline" onClick={removeProfile}>
+                <Trash2 className="h-4 w-4 mr-1" /> Delete
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={save} disabled={invalid}>Save</Button>
+            <Button
+              onClick={() => {
+                save();
+                onExport(selected);
+              }}
+              disabled={invalid}
+            >
+              Export with this profile
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ConflictPolicy, FileTree, findImportConflicts } from "@/lib/fs";
+import { ImportResult, MAX_IMPORT_BYTES, MAX_IMPORT_FILES } from "@/lib/zip";
+
+export type ImportDestination = "merge" | "workspace";
+
+export type ImportOptions = {
+  destination: ImportDestination;
+  policy: ConflictPolicy;
+  // name of the new workspace
+  name: string;
+};
+
+interface ImportDialogProps {
+  pending: ImportResult | null;
+  tree: FileTree;
+  // folder the files are merged into, and how it's shown
+  targetId: string;
+  targetPath: string;
+  defaultName: string;
+  onImport: (options: ImportOptions) => void;
+  onCancel: () => void;
+}
+
+const POLICIES: { key: ConflictPolicy; label: string }[] = [
+  { key: "replace", label: "Replace the existing files" },
+  { key: "keep-both", label: "Keep both, renaming the imported files" },
+  { key: "skip", label: "Skip the imported files" },
+];
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const ImportDialog = ({ pending, tree, targetId, targetPath, defaultName, onImport, onCancel }: ImportDialogProps) => {
+  const [destination, setDestination] = useState<ImportDestination>("merge");
+  const [policy, setPolicy] = useState<ConflictPolicy>("keep-both");
+  const [name, setName] = useState(defaultName);
+
+  useEffect(() => {
+    if (!pending) return;
+    setDestination("merge");
+    setPolicy("keep-both");
+    setName(defaultName);
+  }, [pending, defaultName]);
+
+  const conflicts = useMemo(
+    () => (pending ? findImportConflicts(tree, targetId, pending.files) : []),
+    [pending, tree, targetId]
+  );
+  const binaries = pending?.skipped.filter((s) => s.reason === "binary") ?? [];
+  const overLimit = pending?.skipped.filter((s) => s.reason === "limit") ?? [];
+  const badNames = pending?.skipped.filter((s) => s.reason === "name") ?? [];
+
+  return (
+    <Dialog open={!!pending} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Files</DialogTitle>
+          <DialogDescription>
+            {pending?.files.length ?? 0} text files ({formatBytes(pending?.bytes ?? 0)}) are ready to import.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 text-sm">
+          {binaries.length > 0 && (
+            <p className="text-muted-foreground">
+              {binaries.length} binary {binaries.length === 1 ? "file is" : "files are"} left out, such as{" "}
+              <code>{binaries[0].path}</code>.
+            </p>
+          )}
+          {badNames.length > 0 && (
+            <p className="text-muted-foreground">
+              {badNames.length} {badNames.length === 1 ? "file has a name" : "files have names"} that can't be used and{" "}
+              {badNames.length === 1 ? "is" : "are"} left out, such as <code>{badNames[0].path}</code>.
+            </p>
+          )}
+          {overLimit.length > 0 && (
+            <p className="text-destructive">
+              {overLimit.length} {overLimit.length === 1 ? "file goes" : "files go"} over the import limit of {MAX_IMPORT_FILES}{" "}
+              files or {formatBytes(MAX_IMPORT_BYTES)} and won't be imported.
+            </p>
+          )}
+
+          <RadioGroup value={destination} onValueChange={(v) => setDestination(v as ImportDestination)}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="merge" id="import-merge" />
+              <Label htmlFor="import-merge">
+                Add to this workspace, in <code>{targetPath || "/"}</code>
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="workspace" id="import-workspace" />
+              <Label htmlFor="import-workspace">Create a new workspace</Label>
+            </div>
+          </RadioGroup>
+
+          {destination === "workspace" && (
+            <div>
+              <Label htmlFor="import-name">Workspace name</Label>
+              <Input id="import-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+          )}
+
+          {destination === "merge" && conflicts.length > 0 && (
+            <div className="space-y-2">
+              <Label>
+                {conflicts.length} {conflicts.length === 1 ? "file already exists" : "files already exist"}
+              </Label>
+              <div className="max-h-24 overflow-auto rounded border px-2 py-1 font-mono text-xs text-muted-foreground">
+                {conflicts.map((path) => (
+                  <div key={path} className="truncate">{path}</div>
+                ))}
+              </div>
+              <RadioGroup value={policy} onValueChange={(v) => setPolicy(v as ConflictPolicy)}>
+                {POLICIES.map((p) => (
+                  <div key={p.key} className="flex items-center gap-2">
+                    <RadioGroupItem value={p.key} id={`import-${p.key}`} />
+                    <Label htmlFor={`import-${p.key}`}>{p.label}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onImport({ destination, policy, name: name.trim() })}
+            disabled={!pending?.files.length || (destination === "workspace" && !name.trim())}
+          >
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DiffView } from "@/components/editor/DiffView";
+import { SyncConflict } from "@/lib/localFolder";
+
+interface SyncConflictsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  folderName: string;
+  conflicts: SyncConflict[];
+  onResolve: (path: string, keep: "local" | "disk") => void;
+}
+
+export const SyncConflictsDialog = ({ open, onOpenChange, folderName, conflicts, onResolve }: SyncConflictsDialogProps) => {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const selected = conflicts.find((c) => c.path === selectedPath) ?? conflicts[0] ?? null;
+
+  useEffect(() => {
+    if (open && conflicts.length === 0) onOpenChange(false);
+  }, [open, conflicts.length, onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Sync Conflicts</DialogTitle>
+          <DialogDescription>
+            These files were changed both here and in <code>{folderName}</code> on disk. Choose which version to keep.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-4 min-h-[18rem]">
+          <div className="w-56 shrink-0 space-y-1 overflow-auto">
+            {conflicts.map((c) => (
+              <button
+                key={c.path}
+                className={`block w-full truncate rounded px-2 py-1 text-left font-mono text-xs ${
+                  c.path === selected?.path ? "bg-muted" : "hover:bg-muted/60"
+                }`}
+                onClick={() => setSelectedPath(c.path)}
+              >
+                {c.path}
+              </button>
+            ))}
+          </div>
+          {selected && (
+            <div className="flex-1 min-w-0 space-y-2 text-sm">
+              {selected.caseClash && (
+                <p className="text-muted-foreground">
+                  Another file on disk has this name in different case. Workspace names ignore case, so only one of them can
+                  be here: rename or remove the other on disk, or keep this version to replace the file on disk.
+                </p>
+              )}
+              {selected.local === null && <p className="text-muted-foreground">Deleted here.</p>}
+              {selected.disk === null && <p className="text-muted-foreground">Deleted on disk.</p>}
+              <DiffView
+                className="max-h-80"
+                before={selected.disk ?? ""}
+                after={selected.local ?? ""}
+                beforeLabel="on disk"
+                afterLabel="here"
+              />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" disabled={!selected || selected.caseClash} onClick={() => selected && onResolve(selected.path, "disk")}>
+            Use the disk version
+          </Button>
+          <Button disabled={!selected} onClick={() => selected && onResolve(selected.path, "local")}>
+            Keep this version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
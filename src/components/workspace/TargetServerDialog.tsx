@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ADDON_NAMES, InstalledAddon, OPTIONAL_ADDONS, SkriptAddonId } from "@/lib/skript/addons";
+import { isValidVersion } from "@/lib/skript/versions";
+import { WorkspaceTarget } from "@/lib/workspace";
+
+interface TargetServerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: WorkspaceTarget;
+  onSave: (target: WorkspaceTarget) => void;
+}
+
+type AddonDraft = Record<SkriptAddonId, { enabled: boolean; version: string }>;
+
+// An unconfigured workspace allows every addon, so the form starts with all of them ticked.
+const toDraft = (addons?: InstalledAddon[]) =>
+  Object.fromEntries(
+    OPTIONAL_ADDONS.map((id) => {
+      const installed = addons?.find((a) => a.id === id);
+      return [id, { enabled: addons ? !!installed : true, version: installed?.version ?? "" }];
+    })
+  ) as AddonDraft;
+
+const versionError = (version: string) =>
+  version.trim() && !isValidVersion(version) ? "Use a version number such as 2.6.4" : null;
+
+export const TargetServerDialog = ({ open, onOpenChange, target, onSave }: TargetServerDialogProps) => {
+  const [skriptVersion, setSkriptVersion] = useState(target.skriptVersion ?? "");
+  const [addons, setAddons] = useState<AddonDraft>(() => toDraft(target.addons));
+
+  useEffect(() => {
+    if (!open) return;
+    setSkriptVersion(target.skriptVersion ?? "");
+    setAddons(toDraft(target.addons));
+  }, [open, target]);
+
+  const update = (id: SkriptAddonId, patch: Partial<AddonDraft[SkriptAddonId]>) =>
+    setAddons((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+  const invalid =
+    !!versionError(skriptVersion) || OPTIONAL_ADDONS.some((id) => addons[id].enabled && versionError(addons[id].version));
+
+  const handleSave = () => {
+    if (invalid) return;
+    onSave({
+      skriptVersion: skriptVersion.trim() || undefined,
+      addons: OPTIONAL_ADDONS.filter((id) => addons[id].enabled).map((id) => ({ id, version: addons[id].version.trim() })),
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Target Server</DialogTitle>
+          <DialogDescription>
+            Set the Skript version and addons the server runs. Syntax they don't support is flagged in the editor.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div>
+            <Label htmlFor="skript-version">Skript version</Label>
+            <Input
+              id="skript-version"
+              value={skriptVersion}
+              onChange={(e) => setSkriptVersion(e.target.value)}
+              placeholder="Any version"
+            />
+            {versionError(skriptVersion) && (
+              <p className="mt-1 text-xs text-destructive">{versionError(skriptVersion)}</p>
+            )}
+          </div>
+          <Label>Addons</Label>
+          {OPTIONAL_ADDONS.map((id) => (
+            <div key={id}>
+              <div className="flex items-center gap-3">
+                <Checkbox
+                  id={`addon-${id}`}
+                  checked={addons[id].enabled}
+                  onCheckedChange={(checked) => update(id, { enabled: checked === true })}
+                />
+                <Label htmlFor={`addon-${id}`} className="flex-1 font-normal">
+                  {ADDON_NAMES[id]}
+                </Label>
+                <Input
+                  className="h-8 w-32"
+                  value={addons[id].version}
+                  onChange={(e) => update(id, { version: e.target.value })}
+                  placeholder="Any version"
+                  disabled={!addons[id].enabled}
+                />
+              </div>
+              {addons[id].enabled && versionError(addons[id].version) && (
+                <p className="mt-1 text-right text-xs text-destructive">{versionError(addons[id].version)}</p>
+              )}
+            </div>
+          ))}
+          {!target.addons && (
+            <p className="text-xs text-muted-foreground">
+              Addons have not been configured for this workspace yet, so all addon syntax is allowed.
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={invalid}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -8,6 +8,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Workspace, WorkspaceManager } from "@/types/workspace";
 import { createWorkspace, deleteWorkspace } from "@/lib/workspace";
+import { removeFolderLink } from "@/lib/localFolder";
 import { Plus, Trash2, FolderOpen } from "lucide-react";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 
@@ -39,6 +40,7 @@ export const WorkspaceDashboard = ({ manager, onSelectWorkspace, onUpdateManager
     try {
       const updatedManager = deleteWorkspace(manager, workspaceId);
       onUpdateManager(updatedManager);
+      removeFolderLink(workspaceId).catch(() => {});
       setDeleteWorkspaceId(null);
     } catch (error) {
       console.error("Failed to delete workspace:", error);
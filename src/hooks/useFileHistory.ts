@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "@/hooks/use-toast";
+import { workspaceStorage } from "@/hooks/useWorkspaceStorage";
+import { FileTree, changedFiles, findNode, isFile, listFiles, nodePath } from "@/lib/fs";
+import { FileSnapshot, HistoryRetention, SnapshotReason, createSnapshot, expiredSnapshots } from "@/lib/history";
+import { StorageAdapter, StorageQuotaError } from "@/lib/storage";
+
+// Files left alone this long after an edit get a snapshot.
+const IDLE_MS = 30_000;
+
+type Capture = { fileId: string; path: string; content: string };
+
+// The file with the id and its path, looked up through the tree's index.
+function fileAt(tree: FileTree, fileId: string) {
+  const node = findNode(tree, fileId);
+  return node && isFile(node) ? { file: node, path: nodePath(tree, fileId)! } : null;
+}
+
+// Takes snapshots of the workspace's files on save and when editing pauses, pruned to the retention
+// policy. The first snapshot of a file in a session also keeps the content it had before.
+export function useFileHistory(
+  workspaceId: string | null,
+  tree: FileTree,
+  retention: HistoryRetention,
+  adapter: StorageAdapter = workspaceStorage
+) {
+  // bumped when snapshots are added, so that views of them reload
+  const [version, setVersion] = useState(0);
+  // content of each file's newest snapshot, once known
+  const latestRef = useRef(new Map<string, string>());
+  // content files had when first seen, until their first snapshot this session
+  const originalRef = useRef(new Map<string, string>());
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const failedRef = useRef(false);
+  // the tree as of the last render, and the files edited since the last idle snapshot
+  const seenTreeRef = useRef<FileTree | null>(null);
+  const editedRef = useRef(new Set<string>());
+  const currentRef = useRef({ workspaceId, tree, retention });
+  currentRef.current = { workspaceId, tree, retention };
+
+  useEffect(() => {
+    latestRef.current = new Map();
+    originalRef.current = new Map();
+    seenTreeRef.current = null;
+    editedRef.current = new Set();
+  }, [workspaceId]);
+
+  // Only files that changed since the last render are looked at, so typing doesn't walk the whole tree.
+  useEffect(() => {
+    const seen = seenTreeRef.current;
+    seenTreeRef.current = tree;
+    for (const { file } of seen ? changedFiles(seen, tree) : listFiles(tree)) {
+      if (seen) editedRef.current.add(file.id);
+      if (!latestRef.current.has(file.id) && !originalRef.current.has(file.id)) originalRef.current.set(file.id, file.content);
+    }
+  }, [tree]);
+
+
+  const capture = useCallback(
+    (files: Capture[], reason: SnapshotReason) => {
+      const { workspaceId, retention } = currentRef.current;
+      if (!workspaceId || files.length === 0) return queueRef.current;
+      const run = async () => {
+        for (const { fileId, path, content } of files) {
+          const history = await adapter.loadHistory(workspaceId, fileId);
+          const latest = history[0]?.content;
+          const original = originalRef.current.get(fileId);
+          originalRef.current.delete(fileId);
+          latestRef.current.set(fileId, content);
+          if (latest === content) continue;
+          const now = new Date();
+          const added = [createSnapshot(workspaceId, fileId, path, content, reason, now)];
+          if (original !== undefined && original !== latest && original !== content) {
+            added.push(createSnapshot(workspaceId, fileId, path, original, "original", new Date(now.getTime() - 1)));
+          }
+          const expired = expiredSnapshots([...added, ...history], retention, now);
+          await adapter.writeHistory(
+            added.filter((s) => !expired.includes(s)),
+            expired.map((s) => s.id)
+          );
+        }
+        failedRef.current = false;
+        setVersion((v) => v + 1);
+      };
+      queueRef.current = queueRef.current.then(run).catch((e) => {
+        if (failedRef.current) return;
+        failedRef.current = true;
+        toast({
+          title: "File history couldn't be saved",
+          description: e instanceof StorageQuotaError ? "The browser's storage is full." : "Snapshots are skipped for now.",
+          variant: "destructive",
+        });
+      });
+      return queueRef.current;
+    },
+    [adapter]
+  );
+
+  // Snapshots a file as it is now, or with the given content, e.g. as just saved.
+  const snapshotFile = useCallback(
+    (fileId: string, reason: SnapshotReason, content?: string) => {
+      const entry = fileAt(currentRef.current.tree, fileId);
+      if (!entry) return queueRef.current;
+      return capture([{ fileId, path: entry.path, content: content ?? entry.file.content }], reason);
+    },
+    [capture]
+  );
+
+  useEffect(() => {
+    const handle = setTimeout(() => {
+      const edited = [...editedRef.current];
+      editedRef.current = new Set();
+      const changed = edited
+        .map((id) => fileAt(currentRef.current.tree, id))
+        .filter((entry) => entry && entry.file.content !== (latestRef.current.get(entry.file.id) ?? originalRef.current.get(entry.file.id)));
+      capture(
+        changed.map(({ file, path }) => ({ fileId: file.id, path, content: file.content })),
+        "idle"
+      );
+    }, IDLE_MS);
+    return () => clearTimeout(handle);
+  }, [tree, capture]);
+
+  const loadHistory = useCallback(
+    (fileId: string): Promise<FileSnapshot[]> =>
+      workspaceId ? adapter.loadHistory(workspaceId, fileId) : Promise.resolve([]),
+    [workspaceId, adapter]
+  );
+
+  return { version, loadHistory, snapshotFile };
+}
+
+export type FileHistory = ReturnType<typeof useFileHistory>;
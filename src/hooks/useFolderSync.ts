@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { FileTree } from "@/lib/fs";
+import {
+  DiskChange,
+  FolderLink,
+  SyncConflict,
+  hasFolderPermission,
+  loadFolderLink,
+  planSync,
+  removeFolderLink,
+  saveFolderLink,
+  treeFiles,
+  writeFolderFiles,
+} from "@/lib/localFolder";
+import { readFolderHandle } from "@/lib/zip";
+
+export type FolderSyncStatus = "off" | "synced" | "syncing" | "needs-permission" | "error";
+
+// Edits are written to disk shortly after typing stops; changes made on disk are picked up by polling
+// and when the window regains focus.
+const WRITE_DELAY_MS = 500;
+const POLL_MS = 3000;
+
+// Keeps a workspace in sync with the folder on disk it was opened from, if any. Changes read from disk
+// are handed to onDiskChanges, which applies them to the tree.
+export function useFolderSync(workspaceId: string | null, tree: FileTree, onDiskChanges: (changes: DiskChange[]) => void) {
+  const [status, setStatus] = useState<FolderSyncStatus>("off");
+  const [folderName, setFolderName] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const linkRef = useRef<FolderLink | null>(null);
+  const busyRef = useRef(false);
+  // the tree along with the workspace it belongs to, so that a sync finishing after a switch can't
+  // mix two workspaces up
+  const currentRef = useRef({ workspaceId, tree });
+  currentRef.current = { workspaceId, tree };
+  const onDiskChangesRef = useRef(onDiskChanges);
+  onDiskChangesRef.current = onDiskChanges;
+
+  const fail = useCallback((e: unknown) => {
+    setStatus(e instanceof DOMException && e.name === "NotAllowedError" ? "needs-permission" : "error");
+  }, []);
+
+  const sync = useCallback(async () => {
+    const link = linkRef.current;
+    if (!link || busyRef.current) return;
+    busyRef.current = true;
+    try {
+      const disk = await readFolderHandle(link.handle);
+      const current = currentRef.current;
+      if (linkRef.current !== link || current.workspaceId !== link.workspaceId) return;
+      const plan = planSync(
+        treeFiles(current.tree),
+        link.base,
+        new Map(disk.files.map((f) => [f.path, f.content])),
+        disk.skipped.map((s) => s.path)
+      );
+      if (plan.writes.length > 0) {
+        setStatus("syncing");
+        await writeFolderFiles(link.handle, plan.writes);
+      }
+      if (plan.reads.length > 0) onDiskChangesRef.current(plan.reads);
+      if (plan.writes.length > 0 || plan.reads.length > 0) {
+        link.base = plan.base;
+        await saveFolderLink(link);
+      }
+      // polls mostly find the same conflicts, which needn't render again
+      setConflicts((prev) =>
+        prev.length === plan.conflicts.length &&
+        prev.every((c, i) => c.path === plan.conflicts[i].path && c.local === plan.conflicts[i].local && c.disk === plan.conflicts[i].disk)
+          ? prev
+          : plan.conflicts
+      );
+      setStatus("synced");
+    } catch (e) {
+      fail(e);
+    } finally {
+      busyRef.current = false;
+    }
+  }, [fail]);
+
+  useEffect(() => {
+    let cancelled = false;
+    linkRef.current = null;
+    setStatus("off");
+    setFolderName(null);
+    setConflicts([]);
+    if (!workspaceId) return;
+    (async () => {
+      const link = await loadFolderLink(workspaceId);
+      if (cancelled || !link) return;
+      linkRef.current = link;
+      setFolderName(link.handle.name);
+      if (await hasFolderPermission(link.handle)) {
+        setStatus("synced");
+        sync();
+      } else if (!cancelled) {
+        setStatus("needs-permission");
+      }
+    })().catch((e) => !cancelled && fail(e));
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, sync, fail]);
+
+  const active = status === "synced" || status === "syncing";
+
+  useEffect(() => {
+    if (!active) return;
+    const handle = setTimeout(sync, WRITE_DELAY_MS);
+    return () => clearTimeout(handle);
+  }, [active, tree, sync]);
+
+  useEffect(() => {
+    if (!active) return;
+    const interval = setInterval(sync, POLL_MS);
+    window.addEventListener("focus", sync);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("focus", sync);
+    };
+  }, [active, sync]);
+
+  // Asks for access to the folder again; must be called from a click or similar.
+  const reconnect = useCallback(async () => {
+    const link = linkRef.current;
+    if (!link) return;
+    try {
+      if (!(await hasFolderPermission(link.handle, true))) return;
+      setStatus("synced");
+      await sync();
+    } catch (e) {
+      fail(e);
+    }
+  }, [sync, fail]);
+
+  // Stops syncing; the workspace keeps its files.
+  const disconnect = useCallback(async () => {
+    const link = linkRef.current;
+    if (!link) return;
+    linkRef.current = null;
+    setStatus("off");
+    setFolderName(null);
+    setConflicts([]);
+    await removeFolderLink(link.workspaceId);
+  }, []);
+
+  // Settles a conflict with the workspace's current content or the folder's.
+  const resolveConflict = useCallback(
+    async (path: string, keep: "local" | "disk") => {
+      const link = linkRef.current;
+      const conflict = conflicts.find((c) => c.path === path);
+      if (!link || !conflict) return;
+      const local = treeFiles(currentRef.current.tree).get(path) ?? null;
+      const content = keep === "local" ? local : conflict.disk;
+      try {
+        if (keep === "local") await writeFolderFiles(link.handle, [{ path, content }]);
+        else onDiskChangesRef.current([{ path, content, local }]);
+        if (content === null) link.base.delete(path);
+        else link.base.set(path, content);
+        await saveFolderLink(link);
+        setConflicts((prev) => prev.filter((c) => c.path !== path));
+      } catch (e) {
+        fail(e);
+      }
+    },
+    [conflicts, fail]
+  );
+
+  return { status, folderName, conflicts, sync, reconnect, disconnect, resolveConflict };
+}
+
+export type FolderSync = ReturnType<typeof useFolderSync>;
@@ -0,0 +1,22 @@
+import { useEffect, useRef } from "react";
+import { Command, matchesKeybinding } from "@/lib/commands";
+
+// Runs the commands' keybindings anywhere on the page. Keys are caught before the editor or the
+// browser see them, so Ctrl+P opens quick open rather than the print dialog.
+export function useKeybindings(commands: Command[]) {
+  const latest = useRef(commands);
+  latest.current = commands;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const command = latest.current.find((c) => c.keybinding && c.enabled !== false && matchesKeybinding(e, c.keybinding));
+      if (!command) return;
+      e.preventDefault();
+      e.stopPropagation();
+      command.run();
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, []);
+}
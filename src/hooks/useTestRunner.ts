@@ -0,0 +1,128 @@
+import { useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
+import { FileTree, listFiles } from "@/lib/fs";
+import { SkriptTest, TestResult, findTests, testError } from "@/lib/skript/testing";
+import type { TestWorkerRequest, TestWorkerResponse } from "@/lib/skript/testWorker";
+
+// A run that reports nothing for this long is stopped, and its remaining tests marked as timed out.
+const RUN_TIMEOUT_MS = 10_000;
+const WATCH_DELAY_MS = 800;
+
+const fileContents = (tree: FileTree) => new Map(listFiles(tree).map(({ file }) => [file.id, file.content]));
+
+// Finds the tests of the tree and runs them in a web worker. In watch mode, tests are rerun when their
+// file or a script they ran changes.
+export function useTestRunner(tree: FileTree) {
+  const deferredTree = useDeferredValue(tree);
+  const tests = useMemo(() => findTests(deferredTree), [deferredTree]);
+  const [results, setResults] = useState<Map<string, TestResult>>(new Map());
+  const [running, setRunning] = useState<Set<string>>(new Set());
+  const [watch, setWatch] = useState(false);
+
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  // file contents as of the last run, to tell what changed since
+  const ranContentsRef = useRef<Map<string, string> | null>(null);
+  const treeRef = useRef(tree);
+  treeRef.current = tree;
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    clearTimeout(timeoutRef.current);
+    setRunning(new Set());
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  const run = useCallback(
+    (toRun: SkriptTest[]) => {
+      if (toRun.length === 0) return;
+      stop();
+      const runId = ++runIdRef.current;
+      const current = treeRef.current;
+      ranContentsRef.current = fileContents(current);
+      const pending = new Map(toRun.map((t) => [t.id, t]));
+      setRunning(new Set(pending.keys()));
+
+      const worker = new Worker(new URL("../lib/skript/testWorker.ts", import.meta.url), { type: "module" });
+      workerRef.current = worker;
+      // ends the run, with the tests it hasn't reported yet as errors
+      const failPending = (message: string, duration: number) => {
+        stop();
+        setResults((prev) => {
+          const next = new Map(prev);
+          for (const test of pending.values()) next.set(test.id, testError(test, message, duration));
+          return next;
+        });
+      };
+      const armTimeout = () => {
+        clearTimeout(timeoutRef.current);
+        timeoutRef.current = setTimeout(() => {
+          if (runIdRef.current !== runId) return;
+          failPending(`Stopped after ${RUN_TIMEOUT_MS / 1000} seconds without finishing`, RUN_TIMEOUT_MS);
+        }, RUN_TIMEOUT_MS);
+      };
+
+      worker.onmessage = (e: MessageEvent<TestWorkerResponse>) => {
+        const response = e.data;
+        if (response.runId !== runIdRef.current) return;
+        if ("done" in response) {
+          stop();
+          return;
+        }
+        armTimeout();
+        pending.delete(response.result.testId);
+        setResults((prev) => new Map(prev).set(response.result.testId, response.result));
+        setRunning((prev) => {
+          const next = new Set(prev);
+          next.delete(response.result.testId);
+          return next;
+        });
+      };
+      worker.onerror = (e: ErrorEvent) => {
+        e.preventDefault();
+        if (runIdRef.current !== runId) return;
+        failPending(`The test runner failed: ${e.message || "unknown error"}`, 0);
+      };
+      armTimeout();
+      const request: TestWorkerRequest = { runId, tree: current, tests: toRun };
+      worker.postMessage(request);
+    },
+    [stop]
+  );
+
+  // Watch mode: rerun the tests of changed test files and the tests that ran a changed script.
+  useEffect(() => {
+    if (!watch) return;
+    const handle = setTimeout(() => {
+      const before = ranContentsRef.current;
+      const after = fileContents(deferredTree);
+      if (!before) {
+        run(tests);
+        return;
+      }
+      const changed = new Set([...after.keys(), ...before.keys()].filter((id) => before.get(id) !== after.get(id)));
+      if (changed.size === 0) return;
+      run(
+        tests.filter((t) => {
+          const result = results.get(t.id);
+          return changed.has(t.fileId) || !result || result.scripts.some((id) => changed.has(id));
+        })
+      );
+    }, WATCH_DELAY_MS);
+    return () => clearTimeout(handle);
+    // results are read as of the change; a finished run shouldn't trigger another
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [watch, deferredTree, tests, run]);
+
+  // Results of tests that no longer exist are dropped.
+  const visibleResults = useMemo(() => {
+    const ids = new Set(tests.map((t) => t.id));
+    return new Map([...results].filter(([id]) => ids.has(id)));
+  }, [tests, results]);
+
+  return { tests, results: visibleResults, running, watch, setWatch, run, stop };
+}
+
+export type TestRunner = ReturnType<typeof useTestRunner>;
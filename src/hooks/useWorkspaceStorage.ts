@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "@/hooks/use-toast";
+import { IndexedDbStorage } from "@/lib/indexedDbStorage";
+import {
+  StorageAdapter,
+  StorageQuotaError,
+  isEmptyChange,
+  loadUnsavedWorkspaceManager,
+  loadWorkspaceManager,
+  planChanges,
+} from "@/lib/storage";
+import { WorkspaceManager } from "@/types/workspace";
+
+// where the app keeps workspaces and file history
+export const workspaceStorage: StorageAdapter = new IndexedDbStorage();
+
+// Changes are written once they stop coming for this long, and at least this often while they don't.
+const SAVE_DELAY_MS = 400;
+const MAX_SAVE_DELAY_MS = 2000;
+
+// Loads the workspaces and writes changes to them back, debounced and one write at a time, and right
+// away when the page is hidden. Failed writes are reported once and retried with the next change.
+export function useWorkspaceStorage(adapter: StorageAdapter = workspaceStorage) {
+  const [manager, setManager] = useState<WorkspaceManager | null>(null);
+  // what the adapter holds; null until loaded, or when it can't be used
+  const savedRef = useRef<WorkspaceManager | null>(null);
+  const writingRef = useRef(false);
+  const failedRef = useRef(false);
+  const latestRef = useRef<WorkspaceManager | null>(null);
+  latestRef.current = manager;
+  // when the oldest change not written yet was made
+  const pendingSinceRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadWorkspaceManager(adapter)
+      .then((loaded) => {
+        if (cancelled) return;
+        savedRef.current = loaded;
+        setManager(loaded);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setManager(loadUnsavedWorkspaceManager());
+        toast({
+          title: "Workspaces can't be saved",
+          description: "This browser doesn't allow SkriptPanda to store data. Export your work before closing the page.",
+          variant: "destructive",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [adapter]);
+
+  const flush = useCallback(() => {
+    pendingSinceRef.current = null;
+    if (!savedRef.current || writingRef.current) return;
+    writingRef.current = true;
+    (async () => {
+      // changes made while writing are picked up by the next round
+      while (latestRef.current && latestRef.current !== savedRef.current) {
+        const target = latestRef.current;
+        const changes = planChanges(savedRef.current, target);
+        if (!isEmptyChange(changes)) await adapter.write(changes);
+        savedRef.current = target;
+        failedRef.current = false;
+      }
+    })()
+      .catch((e) => {
+        if (failedRef.current) return;
+        failedRef.current = true;
+        toast(
+          e instanceof StorageQuotaError
+            ? {
+                title: "Storage is full",
+                description: "Recent changes aren't saved. Delete or export workspaces you no longer need to make room.",
+                variant: "destructive",
+              }
+            : { title: "Saving failed", description: "Recent changes aren't saved yet.", variant: "destructive" }
+        );
+      })
+      .finally(() => {
+        writingRef.current = false;
+      });
+  }, [adapter]);
+
+  useEffect(() => {
+    if (!manager || manager === savedRef.current) return;
+    const now = Date.now();
+    if (pendingSinceRef.current === null) pendingSinceRef.current = now;
+    const handle = setTimeout(flush, Math.min(SAVE_DELAY_MS, pendingSinceRef.current + MAX_SAVE_DELAY_MS - now));
+    return () => clearTimeout(handle);
+  }, [manager, flush]);
+
+  useEffect(() => {
+    const onHide = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+    document.addEventListener("visibilitychange", onHide);
+    window.addEventListener("pagehide", flush);
+    return () => {
+      document.removeEventListener("visibilitychange", onHide);
+      window.removeEventListener("pagehide", flush);
+    };
+  }, [flush]);
+
+  return [manager, setManager] as const;
+}
@@ -0,0 +1,87 @@
+// An action of the IDE, listed in the command palette and run by its keybinding, if it has one.
+export type Command = {
+  // stable and unique, e.g. "file.newFile"
+  id: string;
+  title: string;
+  // the palette groups commands by it, e.g. "File" or "View"
+  category: string;
+  // e.g. "Ctrl+Shift+P"; Ctrl stands for Cmd on macOS
+  keybinding?: string;
+  // commands that can't run right now are left out of the palette and their keybindings ignored
+  enabled?: boolean;
+  run: () => void;
+};
+
+export const isMac = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export function formatKeybinding(keybinding: string): string {
+  if (!isMac) return keybinding;
+  const symbols: Record<string, string> = { Ctrl: "⌘", Shift: "⇧", Alt: "⌥" };
+  return keybinding
+    .split("+")
+    .map((part) => symbols[part] ?? part)
+    .join("");
+}
+
+export function matchesKeybinding(e: KeyboardEvent, keybinding: string): boolean {
+  const parts = keybinding.toLowerCase().split("+");
+  const key = parts.pop();
+  const ctrl = isMac ? e.metaKey : e.ctrlKey;
+  // the physical key for letters and digits, since Shift and Alt change `key`, e.g. Alt+W is "∑" on macOS
+  const pressed = /^(Key[A-Z]|Digit\d)$/.test(e.code) ? e.code.slice(-1).toLowerCase() : e.key.toLowerCase();
+  return (
+    ctrl === parts.includes("ctrl") &&
+    e.shiftKey === parts.includes("shift") &&
+    e.altKey === parts.includes("alt") &&
+    pressed === key
+  );
+}
+
+export type FuzzyMatch = {
+  score: number;
+  // indexes of the matched characters, for highlighting
+  positions: number[];
+};
+
+const SEPARATORS = "/-_. ";
+
+function matchFrom(q: string, t: string, start: number, nameStart: number): FuzzyMatch | null {
+  const positions: number[] = [];
+  let score = 0;
+  let from = start;
+  for (const c of q) {
+    // prefers the start of a word over the next occurrence further on
+    let index = t.indexOf(c, from);
+    if (index < 0) return null;
+    for (let i = index; i >= 0; i = t.indexOf(c, i + 1)) {
+      if (i === 0 || SEPARATORS.includes(t[i - 1])) {
+        index = i;
+        break;
+      }
+    }
+    const previous = positions[positions.length - 1];
+    if (previous !== undefined && index === previous + 1) score += 5;
+    if (index === 0 || SEPARATORS.includes(t[index - 1])) score += 8;
+    if (index >= nameStart) score += 2;
+    score += 1;
+    positions.push(index);
+    from = index + 1;
+  }
+  return { score, positions };
+}
+
+// Whether the query's characters appear in the text in order, ignoring case, and how well: runs of
+// consecutive characters, characters starting a word or path segment and matches in the last segment
+// (the file name) score higher, and long texts slightly lower.
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const q = query.replace(/\s+/g, "").toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return { score: 0, positions: [] };
+  const nameStart = text.lastIndexOf("/") + 1;
+  const inPath = matchFrom(q, t, 0, nameStart);
+  if (!inPath) return null;
+  // the file name alone may match better than the path from its start, e.g. "shop" in "scripts/shop.sk"
+  const inName = nameStart > 0 ? matchFrom(q, t, nameStart, nameStart) : null;
+  const best = inName && inName.score > inPath.score ? inName : inPath;
+  return { score: best.score - text.length / 100, positions: best.positions };
+}
@@ -0,0 +1,61 @@
+export type DiffLine = {
+  kind: "same" | "added" | "removed";
+  text: string;
+  // 1-based line numbers in the old and new text; null for lines only in the other one
+  oldLine: number | null;
+  newLine: number | null;
+};
+
+// Past this many compared line pairs the changed part is shown as replaced wholesale.
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Line-by-line diff of two texts, using the longest common subsequence of their lines.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const out: DiffLine[] = [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  for (let i = 0; i < start; i++) out.push({ kind: "same", text: a[i], oldLine: i + 1, newLine: i + 1 });
+
+  const n = endA - start;
+  const m = endB - start;
+  const removed = (i: number) => out.push({ kind: "removed", text: a[i], oldLine: i + 1, newLine: null });
+  const added = (j: number) => out.push({ kind: "added", text: b[j], oldLine: null, newLine: j + 1 });
+  if (n * m > MAX_DIFF_CELLS) {
+    for (let i = start; i < endA; i++) removed(i);
+    for (let j = start; j < endB; j++) added(j);
+  } else {
+    // lcs[i][j]: length of the common subsequence of the lines after i in `a` and after j in `b`
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = a[start + i] === b[start + j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        out.push({ kind: "same", text: a[start + i], oldLine: start + i + 1, newLine: start + j + 1 });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        removed(start + i++);
+      } else {
+        added(start + j++);
+      }
+    }
+  }
+
+  for (let i = endA, j = endB; i < a.length; i++, j++) out.push({ kind: "same", text: a[i], oldLine: i + 1, newLine: j + 1 });
+  return out;
+}
@@ -0,0 +1,124 @@
+import { FileTree, listFiles } from "./fs";
+import { matchesAnyGlob } from "./glob";
+import { ADDON_NAMES, InstalledAddon, OPTIONAL_ADDONS, SkriptAddonId } from "./skript/addons";
+import { isSkriptFile, requiredAddons } from "./skript/diagnostics";
+import { parseSkript } from "./skript/parser";
+
+// How a workspace is laid out in an exported archive.
+export type ExportProfile = {
+  id: string;
+  name: string;
+  // folder of the archive the workspace's files go in, e.g. `plugins/Skript/scripts`; empty for the root
+  root: string;
+  // leave out everything but `.sk` scripts
+  scriptsOnly: boolean;
+  // glob patterns of files to leave out, e.g. `drafts/` or `*.draft.sk`
+  exclude: string[];
+  // glob patterns of scripts exported with a `-` in front of their name, which Skript doesn't load
+  disabled: string[];
+  // add a manifest listing the scripts and the addons they need
+  manifest: boolean;
+};
+
+export const MANIFEST_NAME = "skriptpanda-manifest.json";
+
+export const BUILT_IN_EXPORT_PROFILES: ExportProfile[] = [
+  { id: "as-is", name: "Workspace as-is", root: "", scriptsOnly: false, exclude: [], disabled: [], manifest: false },
+  {
+    id: "server",
+    name: "Server plugin folder",
+    root: "plugins/Skript/scripts",
+    scriptsOnly: true,
+    exclude: ["drafts/", "*.draft.sk"],
+    disabled: [],
+    manifest: true,
+  },
+];
+
+export const isBuiltInProfile = (profile: ExportProfile) => BUILT_IN_EXPORT_PROFILES.some((p) => p.id === profile.id);
+
+export type ExportManifest = {
+  generator: "SkriptPanda";
+  workspace: string;
+  profile: string;
+  exportedAt: string;
+  // target Skript version, when the workspace has one
+  skript: string | null;
+  scripts: { path: string; enabled: boolean; addons: SkriptAddonId[] }[];
+  addons: { id: SkriptAddonId; name: string; version: string | null; scripts: string[] }[];
+};
+
+export type ExportedFile = {
+  // path within the archive
+  path: string;
+  content: string;
+};
+
+export type ExportPlan = {
+  files: ExportedFile[];
+  // workspace paths left out by the profile
+  excluded: string[];
+  manifest: ExportManifest | null;
+};
+
+export type ExportSource = {
+  name: string;
+  skriptVersion?: string;
+  addons?: InstalledAddon[];
+};
+
+const joinPath = (...parts: string[]) => parts.filter(Boolean).join("/");
+
+// Skript skips scripts whose name starts with `-`.
+const disabledPath = (path: string) => {
+  const slash = path.lastIndexOf("/");
+  const name = path.slice(slash + 1);
+  return name.startsWith("-") ? path : `${path.slice(0, slash + 1)}-${name}`;
+};
+
+// The archive's files for a workspace exported with the profile.
+export function planExport(tree: FileTree, profile: ExportProfile, source: ExportSource, now = new Date()): ExportPlan {
+  const files: ExportedFile[] = [];
+  const excluded: string[] = [];
+  const scripts: ExportManifest["scripts"] = [];
+  const root = profile.root.trim().replace(/^\/+|\/+$/g, "");
+
+  for (const { file, path } of listFiles(tree)) {
+    const script = isSkriptFile(file.name);
+    if ((profile.scriptsOnly && !script) || matchesAnyGlob(path, profile.exclude)) {
+      excluded.push(path);
+      continue;
+    }
+    const disable = script && matchesAnyGlob(path, profile.disabled);
+    const target = joinPath(root, disable ? disabledPath(path) : path);
+    files.push({ path: target, content: file.content });
+    if (script) {
+      scripts.push({
+        path: target,
+        enabled: !file.name.startsWith("-") && !disable,
+        addons: requiredAddons(parseSkript(file.content)),
+      });
+    }
+  }
+
+  let manifest: ExportManifest | null = null;
+  if (profile.manifest) {
+    const needed = OPTIONAL_ADDONS.filter((id) => scripts.some((s) => s.addons.includes(id)));
+    manifest = {
+      generator: "SkriptPanda",
+      workspace: source.name,
+      profile: profile.name,
+      exportedAt: now.toISOString(),
+      skript: source.skriptVersion ?? null,
+      scripts,
+      addons: needed.map((id) => ({
+        id,
+        name: ADDON_NAMES[id],
+        version: source.addons?.find((a) => a.id === id)?.version || null,
+        scripts: scripts.filter((s) => s.addons.includes(id)).map((s) => s.path),
+      })),
+    };
+    files.push({ path: MANIFEST_NAME, content: `${JSON.stringify(manifest, null, 2)}\n` });
+  }
+  return { files, excluded, manifest };
+}
@@ -37,127 +37,348 @@ export const createFolder = (name: string, children: FileNode[] = []): FolderNod
   children,
 });
 
-export function findNode(root: FileNode, id: string): FileNode | null {
-  if (root.id === id) return root;
-  if (isFolder(root)) {
-    for (const child of root.children) {
-      const found = findNode(child, id);
-      if (found) return found;
-    }
+// Positions to follow from a tree's root down to each of its nodes, so that lookups take as many steps
+// as the node is deep. An index is built on the first lookup in a tree and kept as long as the tree,
+// which is why trees are never changed in place: updates copy the folders on the way to what they
+// change and share the rest with the previous tree.
+const indexes = new WeakMap<FolderNode, Map<string, number[]>>();
+
+function positionsOf(root: FolderNode, id: string): number[] | null {
+  let index = indexes.get(root);
+  if (!index) {
+    const built = new Map<string, number[]>();
+    const walk = (node: FileNode, at: number[]) => {
+      built.set(node.id, at);
+      if (isFolder(node)) node.children.forEach((c, i) => walk(c, [...at, i]));
+    };
+    walk(root, []);
+    indexes.set(root, built);
+    index = built;
   }
-  return null;
+  return index.get(id) ?? null;
 }
 
-export function updateFileContent(root: FileTree, id: string, content: string): FileTree {
-  const clone = structuredClone(root) as FileTree;
-  function walk(node: FileNode) {
-    if (node.id === id && isFile(node)) {
-      node.content = content;
-      return;
+// The nodes from the root down to the one with the id, or null when it isn't in the tree.
+function trail(root: FolderNode, id: string): FileNode[] | null {
+  const positions = positionsOf(root, id);
+  if (!positions) return null;
+  const nodes: FileNode[] = [root];
+  for (const i of positions) nodes.push((nodes[nodes.length - 1] as FolderNode).children[i]);
+  return nodes;
+}
+
+// Lets a tree made by an update that moved nothing around use the index of the tree it came from.
+function sameShape(from: FileTree, to: FileTree): FileTree {
+  const index = indexes.get(from);
+  if (index && to !== from) indexes.set(to, index);
+  return to;
+}
+
+export function findNode(root: FileNode, id: string): FileNode | null {
+  if (!isFolder(root)) return root.id === id ? root : null;
+  const nodes = trail(root, id);
+  return nodes ? nodes[nodes.length - 1] : null;
+}
+
+// Slash-separated path of a node, excluding the root folder itself; null when it isn't in the tree.
+export function nodePath(root: FileTree, id: string): string | null {
+  const nodes = trail(root, id);
+  return nodes ? nodes.slice(1).map((n) => n.name).join("/") : null;
+}
+
+export type FileEntry = {
+  file: FileLeaf;
+  // slash-separated path from the root, excluding the root folder itself
+  path: string;
+};
+
+export function listFiles(root: FileTree): FileEntry[] {
+  const out: FileEntry[] = [];
+  function walk(node: FileNode, prefix: string) {
+    if (isFile(node)) {
+      out.push({ file: node, path: `${prefix}${node.name}` });
+    } else {
+      node.children.forEach((c) => walk(c, `${prefix}${node.name}/`));
     }
-    if (isFolder(node)) node.children.forEach(walk);
   }
-  walk(clone);
-  return clone;
+  root.children.forEach((c) => walk(c, ""));
+  return out;
 }
 
-export function addChild(root: FileTree, parentId: string, child: FileNode): FileTree {
-  const clone = structuredClone(root) as FileTree;
-  function walk(node: FileNode) {
-    if (node.id === parentId && isFolder(node)) {
-      node.children.push(child);
-      return;
-    }
-    if (isFolder(node)) node.children.forEach(walk);
+// Files of `next` that `previous` doesn't hold as they are, i.e. edited, added or renamed ones. Subtrees
+// the two trees share are skipped without looking inside, so an edit costs about the depth of its file.
+export function changedFiles(previous: FileTree, next: FileTree): FileEntry[] {
+  const out: FileEntry[] = [];
+  function walk(node: FileNode, prefix: string) {
+    if (findNode(previous, node.id) === node) return;
+    if (isFile(node)) out.push({ file: node, path: `${prefix}${node.name}` });
+    else node.children.forEach((c) => walk(c, `${prefix}${node.name}/`));
   }
-  walk(clone);
-  return clone;
+  if (previous !== next) next.children.forEach((c) => walk(c, ""));
+  return out;
 }
 
-export function removeNode(root: FileTree, removeId: string): FileTree {
-  const clone = structuredClone(root) as FileTree;
-  function walk(node: FolderNode) {
-    node.children = node.children.filter((c) => c.id !== removeId);
-    node.children.forEach((c) => {
-      if (isFolder(c)) walk(c);
-    });
+// Replaces the node with the id by what `update` returns, copying only the folders on the way to it.
+// Returns the same tree when the node isn't found or `update` returns it unchanged.
+export function updateNode(root: FileTree, id: string, update: (node: FileNode) => FileNode): FileTree {
+  const positions = positionsOf(root, id);
+  if (!positions) return root;
+  function copy(node: FileNode, depth: number): FileNode {
+    if (depth === positions.length) return update(node);
+    const folder = node as FolderNode;
+    const child = folder.children[positions[depth]];
+    const updated = copy(child, depth + 1);
+    if (updated === child) return folder;
+    const children = folder.children.slice();
+    children[positions[depth]] = updated;
+    return { ...folder, children };
   }
-  walk(clone);
-  return clone;
+  return copy(root, 0) as FileTree;
 }
 
-export type MovePosition = "inside" | "before" | "after";
+export function updateFileContent(root: FileTree, id: string, content: string): FileTree {
+  return sameShape(
+    root,
+    updateNode(root, id, (node) => (isFile(node) && node.content !== content ? { ...node, content } : node))
+  );
+}
 
-function findParentAndIndex(root: FolderNode, id: string): { parent: FolderNode; index: number } | null {
-  if (root.children.some((c) => c.id === id)) {
-    return { parent: root, index: root.children.findIndex((c) => c.id === id) };
-  }
-  for (const child of root.children) {
-    if (isFolder(child)) {
-      const res = findParentAndIndex(child, id);
-      if (res) return res;
-    }
-  }
-  return null;
+// Thrown when a node would get a name that is invalid or taken by a sibling.
+export class NameError extends Error {}
+
+function checkName(name: string) {
+  const invalid = validateName(name);
+  if (invalid) throw new NameError(invalid);
 }
 
-function isDescendant(root: FileNode, ancestorId: string, nodeId: string): boolean {
-  const ancestor = findNode(root, ancestorId);
-  if (!ancestor || !isFolder(ancestor)) return false;
-  function walk(n: FileNode): boolean {
-    if (n.id === nodeId) return true;
-    if (isFolder(n)) return n.children.some(walk);
-    return false;
-  }
-  return ancestor.children.some(walk);
+// Adds the node to the folder, at the end or at `index`. A name taken by a sibling gets a ` (2)`
+// suffix, see `uniqueName`.
+export function addChild(root: FileTree, parentId: string, child: FileNode, index?: number): FileTree {
+  checkName(child.name);
+  return updateNode(root, parentId, (node) => {
+    if (!isFolder(node)) return node;
+    const name = uniqueName(node.children, child.name);
+    const children = node.children.slice();
+    children.splice(index ?? children.length, 0, name === child.name ? child : { ...child, name });
+    return { ...node, children };
+  });
+}
+
+export function removeNode(root: FileTree, removeId: string): FileTree {
+  const found = findParentAndIndex(root, removeId);
+  if (!found) return root;
+  return updateNode(root, found.parent.id, (node) => ({
+    ...node,
+    children: (node as FolderNode).children.filter((c) => c.id !== removeId),
+  }));
+}
+
+export type MovePosition = "inside" | "before" | "after";
+
+// The folder holding a node, and the node's position in it.
+export function findParentAndIndex(root: FolderNode, id: string): { parent: FolderNode; index: number } | null {
+  const positions = positionsOf(root, id);
+  if (!positions?.length) return null;
+  const nodes = trail(root, id);
+  return { parent: nodes[nodes.length - 2] as FolderNode, index: positions[positions.length - 1] };
 }
 
 export function moveNode(root: FileTree, sourceId: string, targetId: string, position: MovePosition): FileTree {
   if (sourceId === targetId) return root;
-  const clone = structuredClone(root) as FileTree;
-
-  const srcInfo = findParentAndIndex(clone, sourceId);
-  const targetNode = findNode(clone, targetId);
-  if (!srcInfo || !targetNode) return clone;
+  const source = findParentAndIndex(root, sourceId);
+  const targetTrail = trail(root, targetId);
+  if (!source || !targetTrail) return root;
 
   // prevent moving a node inside its own descendant
-  if (isDescendant(clone, sourceId, targetId)) return clone;
-
-  const sourceNode = srcInfo.parent.children[srcInfo.index];
-  // remove from previous location
-  srcInfo.parent.children.splice(srcInfo.index, 1);
+  if (targetTrail.some((n) => n.id === sourceId)) return root;
 
+  const sourceNode = source.parent.children[source.index];
+  const targetNode = targetTrail[targetTrail.length - 1];
+  let parent: FolderNode;
+  let insertIndex: number;
   if (position === "inside" && isFolder(targetNode)) {
-    targetNode.children.push(sourceNode);
-    return clone;
+    parent = targetNode;
+    insertIndex = targetNode.children.length;
+  } else {
+    // Insert before/after target within its parent
+    const target = findParentAndIndex(root, targetId);
+    if (!target) return root;
+    parent = target.parent;
+    insertIndex = target.index + (position === "after" ? 1 : 0);
   }
+  if (nameTaken(parent.children, sourceNode.name, sourceId)) throw new NameError(takenMessage(sourceNode.name, parent.name));
+
+  // If moving within the same parent and source was before the insertion point, account for index shift
+  if (parent.id === source.parent.id && source.index < insertIndex) insertIndex -= 1;
+  // the name was checked above, so addChild keeps it
+  return addChild(removeNode(root, sourceId), parent.id, sourceNode, insertIndex);
+}
+
+// Throws a NameError when the name is invalid or a sibling already has it.
+export function renameNode(root: FileTree, id: string, newName: string): FileTree {
+  checkName(newName);
+  const found = findParentAndIndex(root, id);
+  if (found && nameTaken(found.parent.children, newName, id)) throw new NameError(takenMessage(newName, found.parent.name));
+  return sameShape(root, updateNode(root, id, (node) => ({ ...node, name: newName })));
+}
 
-  // Insert before/after target within its parent
-  const targetParentInfo = findParentAndIndex(clone, targetId);
-  if (!targetParentInfo) return clone;
-  let insertIndex = targetParentInfo.index + (position === "after" ? 1 : 0);
+// Device names Windows doesn't allow as file names, with or without an extension.
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+// Characters that no file system the workspace may be written to accepts in a name.
+const INVALID_NAME_CHARS = /[<>:"/\\|?*]/;
+
+// Why a file or folder can't be called `name`, or null when it can.
+export function validateName(name: string): string | null {
+  if (!name.trim()) return "Enter a name.";
+  if (name === "." || name === "..") return `"${name}" is not a valid name.`;
+  if (name !== name.trim()) return "Names can't start or end with a space.";
+  if (name.endsWith(".")) return "Names can't end with a dot.";
+  if (INVALID_NAME_CHARS.test(name)) return "Names can't contain / \\ : * ? \" < > |";
+  if ([...name].some((c) => c.charCodeAt(0) < 32)) return "Names can't contain control characters.";
+  if (RESERVED_NAMES.test(name)) return `"${name}" is reserved by Windows.`;
+  if (name.length > 255) return "Names can be at most 255 characters long.";
+  return null;
+}
+
+// Whether a sibling other than `exceptId` already has the name. Names are compared ignoring case, as
+// some of the file systems workspaces are exported to do.
+export function nameTaken(siblings: FileNode[], name: string, exceptId?: string): boolean {
+  const lower = name.toLowerCase();
+  return siblings.some((c) => c.id !== exceptId && c.name.toLowerCase() === lower);
+}
+
+// The child with the name, compared ignoring case like `nameTaken` does.
+export const findChild = (folder: FolderNode, name: string): FileNode | undefined =>
+  folder.children.find((c) => c.name.toLowerCase() === name.toLowerCase());
+
+const takenMessage = (name: string, folder: string) => `${folder} already has a file or folder named "${name}".`;
+
+// Why a node can't get the name among the siblings, or null when it can.
+export function nameError(siblings: FileNode[], name: string, exceptId?: string): string | null {
+  const existing = siblings.find((c) => c.id !== exceptId && c.name.toLowerCase() === name.toLowerCase());
+  return validateName(name) ?? (existing ? `A ${existing.type} named "${existing.name}" already exists here.` : null);
+}
 
-  // If moving within the same parent and source was before target, account for index shift
-  if (targetParentInfo.parent.id === srcInfo.parent.id && srcInfo.index < targetParentInfo.index) {
-    insertIndex -= 1;
+// `name` if no sibling has it yet, otherwise the first free `name (2).ext`, `name (3).ext`...
+export function uniqueName(siblings: FileNode[], name: string): string {
+  const taken = new Set(siblings.map((c) => c.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+  const dot = name.lastIndexOf(".");
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : "";
+  for (let n = 2; ; n++) {
+    const candidate = `${base} (${n})${ext}`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
   }
-  targetParentInfo.parent.children.splice(insertIndex, 0, sourceNode);
-  return clone;
 }
 
+export type ImportedFile = {
+  // slash-separated path relative to the folder the file is imported into
+  path: string;
+  content: string;
+};
 
+// What happens to an imported file whose path already exists: overwrite it, import it under a
+// new name next to it, or leave the existing file alone.
+export type ConflictPolicy = "replace" | "keep-both" | "skip";
 
-export function renameNode(root: FileTree, id: string, newName: string): FileTree {
-  const clone = structuredClone(root) as FileTree;
-  function walk(node: FileNode) {
-    if (node.id === id) {
-      node.name = newName;
-      return;
+export type ImportSummary = {
+  added: number;
+  replaced: number;
+  skipped: number;
+};
+
+const pathParts = (path: string) => path.split("/").filter(Boolean);
+
+// Paths of imported files that already exist under the folder, with names compared ignoring case.
+export function findImportConflicts(root: FileTree, parentId: string, files: ImportedFile[]): string[] {
+  const parent = findNode(root, parentId);
+  if (!parent || !isFolder(parent)) return [];
+  return files
+    .filter((f) => {
+      let node: FileNode | undefined = parent;
+      for (const part of pathParts(f.path)) {
+        node = isFolder(node) ? findChild(node, part) : undefined;
+        if (!node) return false;
+      }
+      return true;
+    })
+    .map((f) => f.path);
+}
+
+// Adds the files under the folder, creating the folders of their paths as needed.
+export function importFiles(
+  root: FileTree,
+  parentId: string,
+  files: ImportedFile[],
+  policy: ConflictPolicy
+): { tree: FileTree; summary: ImportSummary } {
+  const summary: ImportSummary = { added: 0, replaced: 0, skipped: 0 };
+  const target = findNode(root, parentId);
+  if (!target || !isFolder(target)) return { tree: root, summary: { ...summary, skipped: files.length } };
+  // Folders are copied the first time something is added to them, and the copies changed from then on;
+  // the rest of the tree is shared.
+  const copies = new Set<FolderNode>();
+  const writable = (folder: FolderNode): FolderNode => {
+    const copy = { ...folder, children: folder.children.slice() };
+    copies.add(copy);
+    return copy;
+  };
+  let parent: FolderNode;
+  const tree = updateNode(root, parentId, (node) => (parent = writable(node as FolderNode)));
+  // folders created under a new name because a file had the folder's name, by `parent id/name`
+  const movedFolders = new Map<string, FolderNode>();
+
+  for (const file of files) {
+    const parts = pathParts(file.path);
+    const name = parts.pop();
+    if (!name) continue;
+    let folder: FolderNode | null = parent;
+    for (const part of parts) {
+      const key = `${folder.id}/${part}`;
+      let next = movedFolders.get(key) ?? findChild(folder, part);
+      if (next && !isFolder(next)) {
+        if (policy === "skip") {
+          folder = null;
+          break;
+        }
+        next = createFolder(uniqueName(folder.children, part));
+        copies.add(next);
+        folder.children.push(next);
+        movedFolders.set(key, next);
+      }
+      if (!next) {
+        next = createFolder(part);
+        copies.add(next);
+        folder.children.push(next);
+      } else if (!copies.has(next as FolderNode)) {
+        const copy = writable(next as FolderNode);
+        folder.children[folder.children.indexOf(next)] = copy;
+        next = copy;
+      }
+      folder = next as FolderNode;
+    }
+    if (!folder) {
+      summary.skipped++;
+      continue;
+    }
+
+    const existing = findChild(folder, name);
+    if (!existing) {
+      folder.children.push(createFile(name, file.content));
+      summary.added++;
+    } else if (policy === "skip") {
+      summary.skipped++;
+    } else if (policy === "replace" && isFile(existing)) {
+      folder.children[folder.children.indexOf(existing)] = { ...existing, content: file.content };
+      summary.replaced++;
+    } else {
+      folder.children.push(createFile(uniqueName(folder.children, name), file.content));
+      summary.added++;
     }
-    if (isFolder(node)) node.children.forEach(walk);
   }
-  walk(clone);
-  return clone;
+  return { tree, summary };
 }
 
 export const DEFAULT_TREE: FileTree = createFolder("SkriptPanda", [
@@ -205,19 +426,3 @@ on first join:
   ]),
   createFile("README.md", "# SkriptPanda.\n\nWelcome to SkriptPanda IDE."),
 ]);
-
-export const STORAGE_KEY = "skriptpanda.fs";
-
-export function saveTree(tree: FileTree) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(tree));
-}
-
-export function loadTree(): FileTree {
-  const raw = localStorage.getItem(STORAGE_KEY);
-  if (!raw) return DEFAULT_TREE;
-  try {
-    return JSON.parse(raw) as FileTree;
-  } catch {
-    return DEFAULT_TREE;
-  }
-}
@@ -0,0 +1,47 @@
+// Glob patterns for workspace paths. `*` and `?` stay within one folder, `**` spans any number of
+// folders and `{a,b}` matches either alternative. Like .gitignore, a pattern without a slash matches
+// names in any folder, and a pattern matching a folder matches everything inside it.
+
+const cache = new Map<string, RegExp>();
+
+export function globToRegExp(pattern: string): RegExp {
+  const cached = cache.get(pattern);
+  if (cached) return cached;
+  let glob = pattern.trim().replace(/^\.?\//, "").replace(/\/$/, "");
+  if (!glob.includes("/")) glob = `**/${glob}`;
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (c === "*") source += "[^/]*";
+    else if (c === "?") source += "[^/]";
+    else if (c === "{") {
+      braces++;
+      source += "(?:";
+    } else if (c === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (c === "," && braces > 0) source += "|";
+    else source += c.replace(/[.+^$()|[\]\\]/g, "\\$&");
+  }
+  const regex = new RegExp(`^${source}${")".repeat(braces)}$`);
+  cache.set(pattern, regex);
+  return regex;
+}
+
+// Whether the path, or one of the folders it's in, matches the pattern.
+export function matchesGlob(path: string, pattern: string): boolean {
+  if (!pattern.trim()) return false;
+  const regex = globToRegExp(pattern);
+  const parts = path.split("/");
+  for (let n = parts.length; n > 0; n--) {
+    if (regex.test(parts.slice(0, n).join("/"))) return true;
+  }
+  return false;
+}
+
+export const matchesAnyGlob = (path: string, patterns: string[]) => patterns.some((p) => matchesGlob(path, p));
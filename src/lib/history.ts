@@ -0,0 +1,47 @@
+// Snapshots of files, taken when they are saved or left alone for a while, so that earlier versions
+// can be looked at and restored.
+export type SnapshotReason = "original" | "save" | "idle" | "restore";
+
+export type FileSnapshot = {
+  id: string;
+  workspaceId: string;
+  fileId: string;
+  // where the file was when the snapshot was taken
+  path: string;
+  content: string;
+  createdAt: Date;
+  reason: SnapshotReason;
+};
+
+export const SNAPSHOT_REASONS: Record<SnapshotReason, string> = {
+  original: "Before editing",
+  save: "Saved",
+  idle: "Auto-saved",
+  restore: "Before restoring",
+};
+
+// How many snapshots of each file are kept, and for how long.
+export type HistoryRetention = {
+  maxSnapshots: number;
+  maxAgeDays: number;
+};
+
+export const DEFAULT_RETENTION: HistoryRetention = { maxSnapshots: 50, maxAgeDays: 30 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const createSnapshot = (
+  workspaceId: string,
+  fileId: string,
+  path: string,
+  content: string,
+  reason: SnapshotReason,
+  createdAt = new Date()
+): FileSnapshot => ({ id: crypto.randomUUID(), workspaceId, fileId, path, content, createdAt, reason });
+
+// Snapshots the retention policy drops, of a file's snapshots listed newest first. The newest one
+// is always kept.
+export function expiredSnapshots(snapshots: FileSnapshot[], retention: HistoryRetention, now = new Date()): FileSnapshot[] {
+  const oldest = now.getTime() - retention.maxAgeDays * DAY_MS;
+  return snapshots.filter((s, i) => i > 0 && (i >= retention.maxSnapshots || s.createdAt.getTime() < oldest));
+}
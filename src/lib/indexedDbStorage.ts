@@ -0,0 +1,123 @@
+import { FileSnapshot } from "./history";
+import { StorageAdapter, StorageChanges, StorageQuotaError, StorageSnapshot, StoredNode, StoredTrashItem, StoredWorkspace } from "./storage";
+
+const DB_NAME = "skriptpanda";
+const DB_VERSION = 3;
+const WORKSPACES = "workspaces";
+const NODES = "nodes";
+const META = "meta";
+const HISTORY = "history";
+const TRASH = "trash";
+const ACTIVE_WORKSPACE = "activeWorkspaceId";
+
+function result<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () =>
+      reject(
+        tx.error?.name === "QuotaExceededError"
+          ? new StorageQuotaError("The browser's storage for SkriptPanda is full")
+          : tx.error ?? new Error("Saving was aborted")
+      );
+  });
+}
+
+// Deletes the records an index lists under a key.
+function deleteAll(index: IDBIndex, key: IDBValidKey) {
+  const request = index.openKeyCursor(key);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    index.objectStore.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+}
+
+// Workspaces in IndexedDB, which has far more room than localStorage's few megabytes.
+export class IndexedDbStorage implements StorageAdapter {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (e) => {
+        const db = request.result;
+        if (e.oldVersion < 1) {
+          db.createObjectStore(WORKSPACES, { keyPath: "id" });
+          db.createObjectStore(NODES, { keyPath: ["workspaceId", "id"] });
+          db.createObjectStore(META);
+        }
+        if (e.oldVersion < 2) {
+          const history = db.createObjectStore(HISTORY, { keyPath: "id" });
+          history.createIndex("file", ["workspaceId", "fileId"]);
+          history.createIndex("workspace", "workspaceId");
+        }
+        if (e.oldVersion < 3) db.createObjectStore(TRASH, { keyPath: ["workspaceId", "id"] });
+      };
+      this.db = result(request);
+      // a failed open is retried the next time
+      this.db.catch(() => (this.db = null));
+    }
+    return this.db;
+  }
+
+  async load(): Promise<StorageSnapshot | null> {
+    const db = await this.open();
+    const tx = db.transaction([WORKSPACES, NODES, TRASH, META], "readonly");
+    const [workspaces, nodes, trash, activeWorkspaceId] = await Promise.all([
+      result<StoredWorkspace[]>(tx.objectStore(WORKSPACES).getAll()),
+      result<StoredNode[]>(tx.objectStore(NODES).getAll()),
+      result<StoredTrashItem[]>(tx.objectStore(TRASH).getAll()),
+      result<string | undefined>(tx.objectStore(META).get(ACTIVE_WORKSPACE)),
+    ]);
+    if (workspaces.length === 0) return null;
+    return { workspaces, nodes, trash, activeWorkspaceId: activeWorkspaceId ?? null };
+  }
+
+  async write(changes: StorageChanges): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([WORKSPACES, NODES, TRASH, META, HISTORY], "readwrite");
+    const done = completion(tx);
+    const workspaces = tx.objectStore(WORKSPACES);
+    const nodes = tx.objectStore(NODES);
+    const trash = tx.objectStore(TRASH);
+    for (const id of changes.deletedWorkspaces) {
+      workspaces.delete(id);
+      // every key starting with the workspace's id; arrays sort after any string
+      nodes.delete(IDBKeyRange.bound([id], [id, []]));
+      trash.delete(IDBKeyRange.bound([id], [id, []]));
+      deleteAll(tx.objectStore(HISTORY).index("workspace"), id);
+    }
+    changes.workspaces.forEach((ws) => workspaces.put(ws));
+    changes.deletedNodes.forEach(({ workspaceId, id }) => nodes.delete([workspaceId, id]));
+    changes.nodes.forEach((node) => nodes.put(node));
+    changes.deletedTrash.forEach(({ workspaceId, id }) => trash.delete([workspaceId, id]));
+    changes.trash.forEach((item) => trash.put(item));
+    if (changes.activeWorkspaceId !== undefined) tx.objectStore(META).put(changes.activeWorkspaceId, ACTIVE_WORKSPACE);
+    await done;
+  }
+
+  async loadHistory(workspaceId: string, fileId: string): Promise<FileSnapshot[]> {
+    const db = await this.open();
+    const index = db.transaction(HISTORY, "readonly").objectStore(HISTORY).index("file");
+    const snapshots = await result<FileSnapshot[]>(index.getAll([workspaceId, fileId]));
+    return snapshots.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async writeHistory(added: FileSnapshot[], deletedIds: string[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(HISTORY, "readwrite");
+    const done = completion(tx);
+    const history = tx.objectStore(HISTORY);
+    deletedIds.forEach((id) => history.delete(id));
+    added.forEach((snapshot) => history.put(snapshot));
+    await done;
+  }
+}
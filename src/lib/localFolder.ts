@@ -0,0 +1,221 @@
+import { FileTree, isFile, isFolder, listFiles } from "./fs";
+import { PathError, deletePath, resolvePath, writeFile } from "./paths";
+
+// Workspaces can be backed by a folder on disk through the File System Access API, which only
+// Chromium-based browsers have. These are the parts of it that TypeScript's DOM types leave out.
+type PermissionOptions = { mode: "read" | "readwrite" };
+
+export interface FolderHandle extends FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemDirectoryHandle | FileSystemFileHandle>;
+  queryPermission(options: PermissionOptions): Promise<PermissionState>;
+  requestPermission(options: PermissionOptions): Promise<PermissionState>;
+}
+
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: PermissionOptions) => Promise<FolderHandle>;
+  }
+}
+
+export const isFolderAccessSupported = () => typeof window !== "undefined" && !!window.showDirectoryPicker;
+
+// Asks for a folder to open; null when the picker is dismissed.
+export async function pickFolder(): Promise<FolderHandle | null> {
+  try {
+    return await window.showDirectoryPicker!({ mode: "readwrite" });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === "AbortError") return null;
+    throw e;
+  }
+}
+
+// Browsers forget the permission when the page is closed. Requesting it again needs a user gesture,
+// such as a click.
+export async function hasFolderPermission(handle: FolderHandle, request = false): Promise<boolean> {
+  const options: PermissionOptions = { mode: "readwrite" };
+  if ((await handle.queryPermission(options)) === "granted") return true;
+  return request && (await handle.requestPermission(options)) === "granted";
+}
+
+// path → content of the text files of a folder or workspace
+export type FolderFiles = Map<string, string>;
+
+export const treeFiles = (tree: FileTree): FolderFiles => new Map(listFiles(tree).map(({ file, path }) => [path, file.content]));
+
+// A workspace's folder, and its files as of the last sync, which tell which side changed a file since.
+export type FolderLink = {
+  workspaceId: string;
+  handle: FolderHandle;
+  base: FolderFiles;
+};
+
+// Handles can't go into localStorage, but IndexedDB keeps them across reloads.
+const DB_NAME = "skriptpanda-folders";
+const STORE = "links";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "workspaceId" });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, use: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = use(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export const loadFolderLink = async (workspaceId: string) =>
+  (await withStore<FolderLink | undefined>("readonly", (store) => store.get(workspaceId))) ?? null;
+
+export const saveFolderLink = (link: FolderLink) => withStore("readwrite", (store) => store.put(link)).then(() => undefined);
+
+export const removeFolderLink = (workspaceId: string) => withStore("readwrite", (store) => store.delete(workspaceId));
+
+// A file to write to the folder or the workspace; null content deletes it.
+export type FileChange = { path: string; content: string | null };
+
+// A change read from disk, along with the workspace's content it replaces. It's only applied while
+// the workspace still has that content, so that edits made during a sync aren't lost.
+export type DiskChange = FileChange & { local: string | null };
+
+export type SyncConflict = {
+  path: string;
+  local: string | null;
+  disk: string | null;
+  // another file on disk has the same path but for case; the workspace, whose names ignore case, can
+  // only hold one of them
+  caseClash?: boolean;
+};
+
+export type SyncPlan = {
+  writes: FileChange[];
+  reads: DiskChange[];
+  // files changed on both sides; they are left alone until the user picks a side
+  conflicts: SyncConflict[];
+  // the base for the next sync
+  base: FolderFiles;
+};
+
+// Workspace names ignore case, so a disk path differing from a workspace path only in case is the same
+// file. Keys the disk files the way the workspace, or failing that the last sync, spells them, and
+// keeps what they are called on disk for writing them back. Paths that differ only in case from another
+// path on disk with other content are set apart, as the workspace can't tell them apart.
+function matchCase(local: FolderFiles, base: FolderFiles, disk: FolderFiles) {
+  const known = new Map<string, string>();
+  for (const path of [...base.keys(), ...local.keys()]) known.set(path.toLowerCase(), path);
+  const spellings = new Map<string, string[]>();
+  for (const path of disk.keys()) {
+    const lower = path.toLowerCase();
+    spellings.set(lower, [...(spellings.get(lower) ?? []), path]);
+  }
+  const files: FolderFiles = new Map();
+  const diskPaths = new Map<string, string>();
+  const clashes: string[] = [];
+  for (const [lower, paths] of spellings) {
+    const content = disk.get(paths[0])!;
+    // spellings with the same content are as good as one file
+    if (paths.some((p) => disk.get(p) !== content)) {
+      clashes.push(...paths);
+      continue;
+    }
+    const path = known.get(lower) ?? paths[0];
+    files.set(path, content);
+    diskPaths.set(path, paths.includes(path) ? path : paths[0]);
+  }
+  return { files, diskPaths, clashes };
+}
+
+// Three-way comparison of the workspace and the folder against the files of the last sync. Files
+// that couldn't be read from disk, such as binary files, are left out.
+export function planSync(local: FolderFiles, base: FolderFiles, disk: FolderFiles, unreadable: string[] = []): SyncPlan {
+  const plan: SyncPlan = { writes: [], reads: [], conflicts: [], base: new Map() };
+  const { files, diskPaths, clashes } = matchCase(local, base, disk);
+  const skip = new Set([...unreadable, ...clashes].map((path) => path.toLowerCase()));
+  const keep = (path: string, content: string | null) => {
+    if (content !== null) plan.base.set(path, content);
+  };
+
+  for (const path of clashes) {
+    plan.conflicts.push({ path, local: local.get(path) ?? null, disk: disk.get(path)!, caseClash: true });
+  }
+  for (const path of new Set([...local.keys(), ...base.keys(), ...files.keys()])) {
+    const mine = local.get(path) ?? null;
+    const before = base.get(path) ?? null;
+    const theirs = files.get(path) ?? null;
+    if (skip.has(path.toLowerCase())) {
+      keep(path, before);
+    } else if (mine === theirs) {
+      keep(path, mine);
+    } else if (theirs === before) {
+      plan.writes.push({ path: diskPaths.get(path) ?? path, content: mine });
+      keep(path, mine);
+    } else if (mine === before) {
+      plan.reads.push({ path, content: theirs, local: mine });
+      keep(path, theirs);
+    } else {
+      plan.conflicts.push({ path, local: mine, disk: theirs });
+      keep(path, before);
+    }
+  }
+  return plan;
+}
+
+// Applies changes read from disk to the tree. Files keep their ids, so open tabs follow along. Paths
+// resolve ignoring case like the workspace's names do, so a file is never added next to one whose name
+// differs only in case; changes that can't be placed, e.g. below a file, are left out.
+export function applyDiskChanges(tree: FileTree, changes: DiskChange[]): FileTree {
+  let next = tree;
+  for (const { path, content, local } of changes) {
+    const node = resolvePath(next, path);
+    if (node && isFolder(node)) continue;
+    if ((node && isFile(node) ? node.content : null) !== local) continue;
+    try {
+      next = content === null ? deletePath(next, path) : writeFile(next, path, content).tree;
+    } catch (e) {
+      if (!(e instanceof PathError)) throw e;
+    }
+  }
+  return next;
+}
+
+async function folderOf(handle: FolderHandle, names: string[], create: boolean): Promise<FileSystemDirectoryHandle | null> {
+  let dir: FileSystemDirectoryHandle = handle;
+  try {
+    for (const name of names) dir = await dir.getDirectoryHandle(name, { create });
+    return dir;
+  } catch (e) {
+    if (e instanceof DOMException && (e.name === "NotFoundError" || e.name === "TypeMismatchError")) return null;
+    throw e;
+  }
+}
+
+// Writes files to the folder, creating the folders they are in. Folders emptied by deletions are
+// left on disk.
+export async function writeFolderFiles(handle: FolderHandle, changes: FileChange[]) {
+  for (const { path, content } of changes) {
+    const names = path.split("/");
+    const name = names.pop()!;
+    const dir = await folderOf(handle, names, content !== null);
+    if (!dir) continue;
+    if (content === null) {
+      await dir.removeEntry(name).catch((e) => {
+        if (!(e instanceof DOMException && e.name === "NotFoundError")) throw e;
+      });
+      continue;
+    }
+    const writable = await (await dir.getFileHandle(name, { create: true })).createWritable();
+    await writable.write(content);
+    await writable.close();
+  }
+}
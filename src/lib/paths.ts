@@ -0,0 +1,163 @@
+import {
+  FileLeaf,
+  FileNode,
+  FileTree,
+  FolderNode,
+  addChild,
+  createFile,
+  createFolder,
+  findChild,
+  findNode,
+  findParentAndIndex,
+  isFile,
+  isFolder,
+  nameTaken,
+  nodePath,
+  removeNode,
+  renameNode,
+  updateFileContent,
+  validateName,
+} from "./fs";
+
+// Addresses nodes by slash-separated path from the root folder, e.g. "scripts/economy/shop.sk", the
+// way `nodePath` and `listFiles` write them. The root folder itself is "". Names are matched ignoring
+// case, as sibling names are unique regardless of it.
+
+export class PathError extends Error {}
+
+// Splits a path into its names. Leading, trailing and repeated slashes and "." are ignored and ".."
+// goes up a folder, so "/scripts/./old/../shop.sk" is ["scripts", "shop.sk"].
+export function splitPath(path: string): string[] {
+  const parts: string[] = [];
+  for (const part of path.split("/")) {
+    if (!part || part === ".") continue;
+    if (part === "..") {
+      if (!parts.length) throw new PathError(`${path} is outside the workspace.`);
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts;
+}
+
+export const normalizePath = (path: string) => splitPath(path).join("/");
+
+export const joinPath = (...paths: string[]) => normalizePath(paths.join("/"));
+
+// Path of the folder holding the path's node, "" for nodes at the root.
+export const parentPath = (path: string) => splitPath(path).slice(0, -1).join("/");
+
+export const baseName = (path: string) => splitPath(path).pop() ?? "";
+
+// The node at the path, or null when there is none.
+export function resolvePath(root: FileTree, path: string): FileNode | null {
+  let node: FileNode = root;
+  for (const name of splitPath(path)) {
+    const next = isFolder(node) ? findChild(node, name) : undefined;
+    if (!next) return null;
+    node = next;
+  }
+  return node;
+}
+
+// Full path of a node, or null when it isn't in the tree.
+export const pathOf = (root: FileTree, id: string) => nodePath(root, id);
+
+export const pathExists = (root: FileTree, path: string) => resolvePath(root, path) !== null;
+
+function checkName(siblings: FileNode[], name: string, path: string, exceptId?: string) {
+  const invalid = validateName(name);
+  if (invalid) throw new PathError(`${path}: ${invalid}`);
+  if (nameTaken(siblings, name, exceptId)) throw new PathError(`${path} already exists.`);
+}
+
+// The deepest folder on the way down `parts` that exists, and how many of the parts lead to it.
+function existingFolder(root: FileTree, parts: string[]): { folder: FolderNode; depth: number } {
+  let folder: FolderNode = root;
+  for (let i = 0; i < parts.length; i++) {
+    const next = findChild(folder, parts[i]);
+    if (!next) return { folder, depth: i };
+    if (!isFolder(next)) throw new PathError(`${parts.slice(0, i + 1).join("/")} is a file, not a folder.`);
+    folder = next;
+  }
+  return { folder, depth: parts.length };
+}
+
+// Adds the node to the folder at `parts`, creating the missing folders around it so that the tree is
+// only updated once.
+function placeNode(root: FileTree, parts: string[], node: FileNode): FileTree {
+  const { folder, depth } = existingFolder(root, parts);
+  for (let i = depth; i < parts.length; i++) {
+    const invalid = validateName(parts[i]);
+    if (invalid) throw new PathError(`${parts.slice(0, i + 1).join("/")}: ${invalid}`);
+  }
+  const placed = parts.slice(depth).reduceRight((child: FileNode, name) => createFolder(name, [child]), node);
+  checkName(folder.children, placed.name, parts.slice(0, depth).concat(placed.name).join("/"), node.id);
+  return addChild(root, folder.id, placed);
+}
+
+// Creates the folder at the path along with any missing parent folders, like `mkdir -p`. Folders that
+// already exist are left as they are.
+export function makeFolders(root: FileTree, path: string): { tree: FileTree; folder: FolderNode } {
+  const parts = splitPath(path);
+  const existing = resolvePath(root, path);
+  if (existing && isFolder(existing)) return { tree: root, folder: existing };
+  const folder = createFolder(parts.pop());
+  return { tree: placeNode(root, parts, folder), folder };
+}
+
+// Content of the file at the path.
+export function readFile(root: FileTree, path: string): string {
+  const node = resolvePath(root, path);
+  if (!node) throw new PathError(`${normalizePath(path)} doesn't exist.`);
+  if (!isFile(node)) throw new PathError(`${normalizePath(path)} is a folder, not a file.`);
+  return node.content;
+}
+
+// Sets the content of the file at the path, creating it and its parent folders when missing.
+export function writeFile(root: FileTree, path: string, content: string): { tree: FileTree; file: FileLeaf } {
+  const parts = splitPath(path);
+  const name = parts.pop();
+  if (!name) throw new PathError("The workspace root is a folder, not a file.");
+  const existing = resolvePath(root, path);
+  if (existing) {
+    if (!isFile(existing)) throw new PathError(`${normalizePath(path)} is a folder, not a file.`);
+    const tree = updateFileContent(root, existing.id, content);
+    return { tree, file: findNode(tree, existing.id) as FileLeaf };
+  }
+  const file = createFile(name, content);
+  return { tree: placeNode(root, parts, file), file };
+}
+
+// Moves and/or renames the node at `from` to `to`, creating the parent folders of `to` when missing.
+// The node keeps its id, so open tabs and history follow it.
+export function renamePath(root: FileTree, from: string, to: string): FileTree {
+  const source = resolvePath(root, from);
+  if (!source) throw new PathError(`${normalizePath(from)} doesn't exist.`);
+  if (source === root) throw new PathError("The workspace root can't be moved.");
+  const parts = splitPath(to);
+  const name = parts.pop();
+  if (!name) throw new PathError("Nothing can be moved to the workspace root's place.");
+  const fromPath = normalizePath(from);
+  const toPath = parts.concat(name).join("/");
+  if (isFolder(source) && (toPath + "/").toLowerCase().startsWith((fromPath + "/").toLowerCase()) && parentPath(toPath) !== parentPath(fromPath)) {
+    throw new PathError(`${fromPath} can't be moved inside itself.`);
+  }
+
+  // a rename in place keeps the node's position
+  if (parts.join("/").toLowerCase() === parentPath(fromPath).toLowerCase()) {
+    const { parent } = findParentAndIndex(root, source.id);
+    checkName(parent.children, name, toPath, source.id);
+    return renameNode(root, source.id, name);
+  }
+  return placeNode(removeNode(root, source.id), parts, { ...source, name });
+}
+
+// Deletes the node at the path, with everything inside it for a folder.
+export function deletePath(root: FileTree, path: string): FileTree {
+  const node = resolvePath(root, path);
+  if (!node) throw new PathError(`${normalizePath(path)} doesn't exist.`);
+  if (node === root) throw new PathError("The workspace root can't be deleted.");
+  return removeNode(root, node.id);
+}
@@ -0,0 +1,171 @@
+import { FileLeaf, FileTree, listFiles } from "./fs";
+import { matchesAnyGlob } from "./glob";
+import { FileRename, TextEdit } from "./skript/rename";
+
+export type SearchOptions = {
+  query: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+  // comma-separated globs; files must match one of the includes, when given, and none of the excludes
+  include: string;
+  exclude: string;
+};
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  query: "",
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+  include: "",
+  exclude: "",
+};
+
+export type SearchMatch = {
+  // 1-based, like Monaco's positions
+  line: number;
+  column: number;
+  length: number;
+  // the whole line the match is on
+  text: string;
+};
+
+export type FileMatches = {
+  file: FileLeaf;
+  path: string;
+  matches: SearchMatch[];
+};
+
+export type SearchResult = {
+  files: FileMatches[];
+  total: number;
+  // true when the search stopped at MAX_SEARCH_MATCHES
+  truncated: boolean;
+};
+
+export const MAX_SEARCH_MATCHES = 5000;
+
+// Splits a comma-separated list of globs. Commas inside braces separate alternatives of one glob, so
+// "*.{sk,sktest}, docs/**" is two globs.
+export function splitGlobs(globs: string): string[] {
+  const out: string[] = [];
+  let braces = 0;
+  let start = 0;
+  for (let i = 0; i < globs.length; i++) {
+    if (globs[i] === "{") braces++;
+    else if (globs[i] === "}" && braces > 0) braces--;
+    else if (globs[i] === "," && braces === 0) {
+      out.push(globs.slice(start, i));
+      start = i + 1;
+    }
+  }
+  out.push(globs.slice(start));
+  return out.map((g) => g.trim()).filter(Boolean);
+}
+
+// The expression to search with, or why the query isn't a valid one. Matches never span lines.
+export function searchPattern(options: SearchOptions): { pattern: RegExp } | { error: string } {
+  let source = options.regex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (options.wholeWord) source = `(?<![\\w])(?:${source})(?![\\w])`;
+  try {
+    return { pattern: new RegExp(source, options.caseSensitive ? "g" : "gi") };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : "Invalid regular expression" };
+  }
+}
+
+// Calls back for each match on a line, skipping empty matches, e.g. of `^` or `a*`.
+function forEachMatch(text: string, pattern: RegExp, onMatch: (match: RegExpExecArray) => boolean | void) {
+  pattern.lastIndex = 0;
+  for (let m = pattern.exec(text); m; m = pattern.exec(text)) {
+    if (m[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (onMatch(m) === false) return;
+  }
+}
+
+export function searchFiles(tree: FileTree, options: SearchOptions, pattern: RegExp): SearchResult {
+  const result: SearchResult = { files: [], total: 0, truncated: false };
+  if (!options.query) return result;
+  const include = splitGlobs(options.include);
+  const exclude = splitGlobs(options.exclude);
+
+  for (const { file, path } of listFiles(tree)) {
+    if (include.length > 0 && !matchesAnyGlob(path, include)) continue;
+    if (matchesAnyGlob(path, exclude)) continue;
+    const matches: SearchMatch[] = [];
+    file.content.split("\n").forEach((text, i) => {
+      if (result.truncated) return;
+      forEachMatch(text, pattern, (m) => {
+        if (result.total >= MAX_SEARCH_MATCHES) {
+          result.truncated = true;
+          return false;
+        }
+        matches.push({ line: i + 1, column: m.index + 1, length: m[0].length, text });
+        result.total++;
+      });
+    });
+    if (matches.length > 0) result.files.push({ file, path, matches });
+    if (result.truncated) break;
+  }
+  return result;
+}
+
+// What a match is replaced with. In regex mode `$1`, `$&` and the like refer to the match the way
+// `String.prototype.replace` reads them, e.g. `$10` is group 10 when there is one and otherwise group 1
+// followed by "0"; otherwise the replacement is taken as it is.
+function replacementFor(match: RegExpExecArray, replacement: string, options: SearchOptions): string {
+  if (!options.regex) return replacement;
+  const groups = match.length - 1;
+  return replacement.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (ref, name: string, group?: string) => {
+    if (name === "$") return "$";
+    if (name === "&") return match[0];
+    if (name === "`") return match.input.slice(0, match.index);
+    if (name === "'") return match.input.slice(match.index + match[0].length);
+    if (group !== undefined) return match.groups ? match.groups[group] ?? "" : ref;
+    const two = Number(name);
+    if (name.length === 2 && two >= 1 && two <= groups) return match[two] ?? "";
+    const one = Number(name[0]);
+    return one >= 1 && one <= groups ? (match[one] ?? "") + name.slice(1) : ref;
+  });
+}
+
+// The edits replacing the matches in a file, all of them or only the one given.
+export function replaceInFile(
+  entry: FileMatches,
+  pattern: RegExp,
+  replacement: string,
+  options: SearchOptions,
+  only?: SearchMatch
+): FileRename | null {
+  const lines = entry.file.content.split("\n");
+  const edits: TextEdit[] = [];
+  const targets = only ? [only] : entry.matches;
+  for (const line of new Set(targets.map((t) => t.line))) {
+    const text = lines[line - 1];
+    if (text === undefined) continue;
+    const columns = new Set(targets.filter((t) => t.line === line).map((t) => t.column));
+    let updated = "";
+    let last = 0;
+    forEachMatch(text, pattern, (m) => {
+      if (!columns.has(m.index + 1)) return;
+      const replaced = replacementFor(m, replacement, options);
+      edits.push({
+        range: { startLineNumber: line, startColumn: m.index + 1, endLineNumber: line, endColumn: m.index + 1 + m[0].length },
+        text: replaced,
+      });
+      updated += text.slice(last, m.index) + replaced;
+      last = m.index + m[0].length;
+    });
+    lines[line - 1] = updated + text.slice(last);
+  }
+  if (edits.length === 0) return null;
+  return { file: entry.file, path: entry.path, edits, content: lines.join("\n") };
+}
+
+// The edits replacing every match of a search, file by file.
+export function planReplace(result: SearchResult, pattern: RegExp, replacement: string, options: SearchOptions): FileRename[] {
+  return result.files.map((entry) => replaceInFile(entry, pattern, replacement, options)).filter((r): r is FileRename => !!r);
+}
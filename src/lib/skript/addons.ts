@@ -0,0 +1,64 @@
+export type SkriptAddonId = "skript" | "skbee" | "skquery" | "skript-gui" | "skript-yaml" | "sk-reflect";
+
+export const ADDON_NAMES: Record<SkriptAddonId, string> = {
+  skript: "Skript",
+  skbee: "SkBee",
+  skquery: "SkQuery",
+  "skript-gui": "skript-gui",
+  "skript-yaml": "skript-yaml",
+  "sk-reflect": "sk-reflect",
+};
+
+// Addons a workspace can declare as installed; base Skript is always available.
+export const OPTIONAL_ADDONS: SkriptAddonId[] = ["skbee", "skquery", "skript-gui", "skript-yaml", "sk-reflect"];
+
+export type InstalledAddon = {
+  id: SkriptAddonId;
+  version: string;
+};
+
+export type AddonSyntax = {
+  addon: SkriptAddonId;
+  // "structure" patterns are matched against top-level headers, "statement" patterns against trigger lines
+  scope: "structure" | "statement";
+  pattern: RegExp;
+  description: string;
+};
+
+// Distinctive non-event syntax that only parses when the addon is installed.
+export const ADDON_SYNTAX: AddonSyntax[] = [
+  {
+    addon: "skript-gui",
+    scope: "statement",
+    pattern: /^(create|edit) (a )?(new )?gui\b|^(make|format) (gui )?(next )?slot\b|^open (the )?last gui\b/i,
+    description: "GUI creation",
+  },
+  {
+    addon: "skript-yaml",
+    scope: "statement",
+    pattern: /\b(load|unload|save|delete) yaml\b|\byaml (value|list|nodes?)\b/i,
+    description: "YAML file access",
+  },
+  {
+    addon: "skbee",
+    scope: "statement",
+    pattern: /\bnbt (compound|of|string|tag|from)\b|\bvirtual furnace\b/i,
+    description: "NBT and virtual furnaces",
+  },
+  {
+    addon: "skquery",
+    scope: "statement",
+    pattern: /^open (a )?chest with \d+ rows?\b/i,
+    description: "SkQuery inventories",
+  },
+  {
+    addon: "sk-reflect",
+    scope: "structure",
+    pattern: /^import$/i,
+    description: "Java imports",
+  },
+];
+
+export function findAddonSyntax(text: string, scope: AddonSyntax["scope"]): AddonSyntax | null {
+  return ADDON_SYNTAX.find((s) => s.scope === scope && s.pattern.test(text.trim())) ?? null;
+}
@@ -0,0 +1,172 @@
+// 1-based line/column range, shaped like Monaco's IRange so it can be handed to the editor as-is.
+export type SourceRange = {
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+};
+
+export type Severity = "error" | "warning" | "info";
+
+export type ParseErrorCode =
+  | "mixed-indentation"
+  | "unexpected-indent"
+  | "inconsistent-indent"
+  | "missing-colon"
+  | "empty-section"
+  | "stray-else"
+  | "invalid-structure"
+  | "invalid-entry"
+  | "unknown-command-entry";
+
+export type ParseError = {
+  code: ParseErrorCode;
+  message: string;
+  severity: Severity;
+  range: SourceRange;
+};
+
+export type SourceLine = {
+  line: number;
+  raw: string;
+  indent: string;
+  // visual width of the indent, tabs counting as 4 columns
+  indentWidth: number;
+  // text after the indent with any trailing comment and whitespace removed
+  code: string;
+  comment: string | null;
+  // 1-based column of the first character of `code`
+  codeStart: number;
+  // nesting depth in the parsed tree, -1 for blank and comment-only lines
+  depth: number;
+};
+
+type NodeBase = {
+  range: SourceRange;
+  headerRange: SourceRange;
+};
+
+export type EffectNode = NodeBase & {
+  kind: "effect";
+  text: string;
+};
+
+export type ConditionalNode = NodeBase & {
+  kind: "conditional";
+  branch: "if" | "else if" | "else";
+  condition: string;
+  conditionRange: SourceRange;
+  body: Statement[];
+};
+
+export type LoopNode = NodeBase & {
+  kind: "loop";
+  loopKind: "loop" | "while";
+  expression: string;
+  expressionRange: SourceRange;
+  body: Statement[];
+};
+
+// Any other line ending in a colon, e.g. `async:` or addon sections like `create a gui ...:`
+export type SectionNode = NodeBase & {
+  kind: "section";
+  header: string;
+  body: Statement[];
+};
+
+export type Statement = EffectNode | ConditionalNode | LoopNode | SectionNode;
+
+export type EventNode = NodeBase & {
+  kind: "event";
+  prefix: "on" | "every" | "at" | null;
+  event: string;
+  eventRange: SourceRange;
+  body: Statement[];
+};
+
+export type CommandEntry = {
+  key: string;
+  value: string;
+  range: SourceRange;
+  keyRange: SourceRange;
+  valueRange: SourceRange;
+};
+
+export type TriggerNode = NodeBase & {
+  kind: "trigger";
+  body: Statement[];
+};
+
+export type CommandNode = NodeBase & {
+  kind: "command";
+  name: string;
+  nameRange: SourceRange;
+  arguments: string;
+  entries: CommandEntry[];
+  trigger: TriggerNode | null;
+};
+
+export type FunctionParameter = {
+  name: string;
+  type: string;
+  defaultValue: string | null;
+  range: SourceRange;
+};
+
+export type FunctionNode = NodeBase & {
+  kind: "function";
+  name: string;
+  nameRange: SourceRange;
+  parameters: FunctionParameter[];
+  returnType: string | null;
+  body: Statement[];
+};
+
+export type OptionEntry = {
+  key: string;
+  value: string;
+  range: SourceRange;
+  keyRange: SourceRange;
+  valueRange: SourceRange;
+};
+
+export type OptionsNode = NodeBase & {
+  kind: "options";
+  entries: OptionEntry[];
+};
+
+export type VariableDefault = {
+  name: string;
+  value: string;
+  range: SourceRange;
+  nameRange: SourceRange;
+};
+
+export type VariablesNode = NodeBase & {
+  kind: "variables";
+  entries: VariableDefault[];
+};
+
+// A top-level line that is not a structure; kept so that ranges still cover the whole file.
+export type UnknownStructureNode = NodeBase & {
+  kind: "unknown";
+  text: string;
+};
+
+export type Structure =
+  | EventNode
+  | CommandNode
+  | FunctionNode
+  | OptionsNode
+  | VariablesNode
+  | UnknownStructureNode;
+
+export type ScriptFile = {
+  kind: "script";
+  structures: Structure[];
+  lines: SourceLine[];
+  errors: ParseError[];
+  range: SourceRange;
+};
+
+export type AstNode = ScriptFile | Structure | TriggerNode | Statement;
@@ -0,0 +1,307 @@
+// Minecraft chat formatting inside Skript strings: legacy `&a`/`§a` codes, `&#rrggbb` and `<#rrggbb>` hex
+// colors, Skript's `<red>`/`<bold>` tags and `<gradient:#from:#to>` ... `</gradient>` gradients.
+
+export type ChatStyle = {
+  // #rrggbb, or null for the chat's default color
+  color: string | null;
+  bold: boolean;
+  italic: boolean;
+  underlined: boolean;
+  strikethrough: boolean;
+  obfuscated: boolean;
+};
+
+// A run of a string's text drawn in one style. `code` runs are the formatting codes themselves,
+// styled with the style they switch to.
+export type ChatSpan = {
+  start: number;
+  end: number;
+  text: string;
+  style: ChatStyle;
+  code: boolean;
+};
+
+export type HexColorFormat = "ampersand" | "section" | "tag" | "skript-tag" | "bungee";
+
+// A hex color written in a string, for the color picker.
+export type HexColorCode = {
+  start: number;
+  end: number;
+  color: string;
+  format: HexColorFormat;
+};
+
+const LEGACY_COLORS: Record<string, string> = {
+  "0": "#000000",
+  "1": "#0000aa",
+  "2": "#00aa00",
+  "3": "#00aaaa",
+  "4": "#aa0000",
+  "5": "#aa00aa",
+  "6": "#ffaa00",
+  "7": "#aaaaaa",
+  "8": "#555555",
+  "9": "#5555ff",
+  a: "#55ff55",
+  b: "#55ffff",
+  c: "#ff5555",
+  d: "#ff55ff",
+  e: "#ffff55",
+  f: "#ffffff",
+};
+
+const COLOR_NAMES: Record<string, string> = {
+  black: "0",
+  dark_blue: "1",
+  dark_green: "2",
+  dark_aqua: "3",
+  dark_cyan: "3",
+  dark_red: "4",
+  dark_purple: "5",
+  purple: "5",
+  gold: "6",
+  orange: "6",
+  gray: "7",
+  grey: "7",
+  light_gray: "7",
+  light_grey: "7",
+  silver: "7",
+  dark_gray: "8",
+  dark_grey: "8",
+  blue: "9",
+  green: "a",
+  lime: "a",
+  aqua: "b",
+  cyan: "b",
+  light_blue: "b",
+  red: "c",
+  light_red: "c",
+  light_purple: "d",
+  pink: "d",
+  magenta: "d",
+  yellow: "e",
+  white: "f",
+};
+
+type Format = Exclude<keyof ChatStyle, "color">;
+
+const LEGACY_FORMATS: Record<string, Format> = {
+  k: "obfuscated",
+  l: "bold",
+  m: "strikethrough",
+  n: "underlined",
+  o: "italic",
+};
+
+const FORMAT_NAMES: Record<string, Format> = {
+  bold: "bold",
+  b: "bold",
+  italic: "italic",
+  italics: "italic",
+  i: "italic",
+  underline: "underlined",
+  underlined: "underlined",
+  u: "underlined",
+  strikethrough: "strikethrough",
+  strike: "strikethrough",
+  s: "strikethrough",
+  magic: "obfuscated",
+  obfuscated: "obfuscated",
+  obf: "obfuscated",
+  k: "obfuscated",
+};
+
+export const PLAIN_STYLE: ChatStyle = {
+  color: null,
+  bold: false,
+  italic: false,
+  underlined: false,
+  strikethrough: false,
+  obfuscated: false,
+};
+
+const HEX = "[0-9a-fA-F]{6}";
+const BUNGEE_HEX = /^[&§]x([&§][0-9a-fA-F]){6}/i;
+const CHAR_HEX = new RegExp(`^[&§]#(${HEX})`);
+const TAG_HEX = new RegExp(`^<(##?)(${HEX})>`);
+const GRADIENT = new RegExp(`^<gradient((?::#${HEX}){2,})>`, "i");
+const NAMED_TAG = /^<(\/?)([a-z_ ]+)>/i;
+
+type Token =
+  | { kind: "color"; length: number; color: string; hex?: HexColorFormat }
+  | { kind: "format"; length: number; format: Format }
+  | { kind: "reset"; length: number }
+  | { kind: "gradient"; length: number; stops: string[] }
+  | { kind: "gradient-end"; length: number };
+
+function readToken(text: string, i: number): Token | null {
+  const c = text[i];
+  if (c !== "&" && c !== "§" && c !== "<") return null;
+  const rest = text.slice(i);
+  if (c === "<") {
+    const tag = TAG_HEX.exec(rest);
+    if (tag) return { kind: "color", length: tag[0].length, color: `#${tag[2].toLowerCase()}`, hex: tag[1] === "##" ? "skript-tag" : "tag" };
+    const gradient = GRADIENT.exec(rest);
+    if (gradient) {
+      const stops = gradient[1].slice(1).split(":").map((s) => s.toLowerCase());
+      return { kind: "gradient", length: gradient[0].length, stops };
+    }
+    const named = NAMED_TAG.exec(rest);
+    if (!named) return null;
+    const name = named[2].trim().toLowerCase().replace(/\s+/g, "_");
+    if (named[1]) return name === "gradient" ? { kind: "gradient-end", length: named[0].length } : null;
+    if (name === "reset" || name === "r") return { kind: "reset", length: named[0].length };
+    if (COLOR_NAMES[name]) return { kind: "color", length: named[0].length, color: LEGACY_COLORS[COLOR_NAMES[name]] };
+    if (FORMAT_NAMES[name]) return { kind: "format", length: named[0].length, format: FORMAT_NAMES[name] };
+    return null;
+  }
+  const bungee = BUNGEE_HEX.exec(rest);
+  if (bungee) {
+    const hex = bungee[0].slice(2).replace(/[&§]/g, "").toLowerCase();
+    return { kind: "color", length: bungee[0].length, color: `#${hex}`, hex: "bungee" };
+  }
+  const charHex = CHAR_HEX.exec(rest);
+  if (charHex) {
+    return { kind: "color", length: charHex[0].length, color: `#${charHex[1].toLowerCase()}`, hex: c === "&" ? "ampersand" : "section" };
+  }
+  const code = text[i + 1]?.toLowerCase();
+  if (!code) return null;
+  if (LEGACY_COLORS[code]) return { kind: "color", length: 2, color: LEGACY_COLORS[code] };
+  if (LEGACY_FORMATS[code]) return { kind: "format", length: 2, format: LEGACY_FORMATS[code] };
+  if (code === "r") return { kind: "reset", length: 2 };
+  return null;
+}
+
+function mix(from: string, to: string, t: number): string {
+  const channel = (hex: string, i: number) => parseInt(hex.slice(1 + i * 2, 3 + i * 2), 16);
+  return `#${[0, 1, 2]
+    .map((i) => Math.round(channel(from, i) + (channel(to, i) - channel(from, i)) * t).toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+function gradientColor(stops: string[], t: number): string {
+  const scaled = t * (stops.length - 1);
+  const i = Math.min(Math.floor(scaled), stops.length - 2);
+  return mix(stops[i], stops[i + 1], scaled - i);
+}
+
+const sameStyle = (a: ChatStyle, b: ChatStyle) =>
+  a.color === b.color &&
+  a.bold === b.bold &&
+  a.italic === b.italic &&
+  a.underlined === b.underlined &&
+  a.strikethrough === b.strikethrough &&
+  a.obfuscated === b.obfuscated;
+
+// The text of a string (without its quotes) split into styled runs.
+export function parseChatText(text: string): ChatSpan[] {
+  const spans: ChatSpan[] = [];
+  let style = PLAIN_STYLE;
+  // characters of the open gradient, colored once the gradient ends
+  let gradient: { stops: string[]; spans: ChatSpan[]; previous: string | null } | null = null;
+
+  const closeGradient = () => {
+    if (!gradient) return;
+    const chars = gradient.spans.filter((s) => !s.code);
+    chars.forEach((s, n) => {
+      s.style = { ...s.style, color: gradientColor(gradient!.stops, chars.length > 1 ? n / (chars.length - 1) : 0) };
+    });
+    gradient = null;
+  };
+  const push = (start: number, end: number, code: boolean) => {
+    const span: ChatSpan = { start, end, text: text.slice(start, end), style, code };
+    if (gradient) {
+      // gradients are colored per character
+      gradient.spans.push(span);
+      spans.push(span);
+      return;
+    }
+    const last = spans[spans.length - 1];
+    if (last && !last.code && !code && last.end === start && sameStyle(last.style, style)) {
+      last.end = end;
+      last.text += span.text;
+    } else spans.push(span);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    // `%expression%` parts are shown as written
+    if (text[i] === "%") {
+      const close = text.indexOf("%", i + 1);
+      const end = close === -1 ? text.length : close + 1;
+      if (gradient) for (let j = i; j < end; j++) push(j, j + 1, false);
+      else push(i, end, false);
+      i = end;
+      continue;
+    }
+    const token = readToken(text, i);
+    if (!token) {
+      push(i, i + 1, false);
+      i++;
+      continue;
+    }
+    switch (token.kind) {
+      case "color":
+        closeGradient();
+        // a color resets the formats before it, as it does in game
+        style = { ...PLAIN_STYLE, color: token.color };
+        break;
+      case "format":
+        style = { ...style, [token.format]: true };
+        break;
+      case "reset":
+        closeGradient();
+        style = PLAIN_STYLE;
+        break;
+      case "gradient":
+        closeGradient();
+        gradient = { stops: token.stops, spans: [], previous: style.color };
+        style = { ...style, color: token.stops[0] };
+        break;
+      case "gradient-end":
+        // the color from before the gradient applies again
+        if (gradient) style = { ...style, color: gradient.previous };
+        closeGradient();
+        break;
+    }
+    push(i, i + token.length, true);
+    i += token.length;
+  }
+  closeGradient();
+  return spans;
+}
+
+// Whether a string has any formatting worth previewing.
+export function hasChatFormatting(text: string): boolean {
+  return parseChatText(text).some((s) => s.code);
+}
+
+// Hex colors written in the text of a string.
+export function findHexColors(text: string): HexColorCode[] {
+  const colors: HexColorCode[] = [];
+  for (let i = 0; i < text.length; ) {
+    const token = readToken(text, i);
+    if (token?.kind === "color" && token.hex) {
+      colors.push({ start: i, end: i + token.length, color: token.color, format: token.hex });
+    }
+    i += token?.length ?? 1;
+  }
+  return colors;
+}
+
+// A color written the way `format` writes it.
+export function formatHexColor(color: string, format: HexColorFormat): string {
+  const hex = color.replace(/^#/, "").toLowerCase();
+  switch (format) {
+    case "ampersand":
+      return `&#${hex}`;
+    case "section":
+      return `§#${hex}`;
+    case "tag":
+      return `<#${hex}>`;
+    case "skript-tag":
+      return `<##${hex}>`;
+    case "bungee":
+      return `&x${[...hex].map((c) => `&${c}`).join("")}`;
+  }
+}
@@ -0,0 +1,238 @@
+import { ScriptFile, Severity, SourceLine, SourceRange } from "./ast";
+import { codeRange, findStrings, parseSkript, walkStatements } from "./parser";
+import { findEvent, testName } from "./events";
+import { ADDON_NAMES, OPTIONAL_ADDONS, SkriptAddonId, findAddonSyntax } from "./addons";
+import { SkriptProfile, enabledEvents, isAddonEnabled, isSupported, targetVersion } from "./profile";
+import { findConstruct } from "./versions";
+import { FileLeaf, FileTree, listFiles } from "@/lib/fs";
+
+export type Diagnostic = {
+  code: string;
+  message: string;
+  severity: Severity;
+  range: SourceRange;
+};
+
+export type FileDiagnostics = {
+  file: FileLeaf;
+  path: string;
+  diagnostics: Diagnostic[];
+};
+
+// Results of earlier runs keyed by file id, reused while a file's content is unchanged.
+// A cache must only be reused with the profile it was filled with.
+export type DiagnosticsCache = Map<string, { content: string; diagnostics: Diagnostic[] }>;
+
+export type DiagnosticCounts = {
+  errors: number;
+  warnings: number;
+};
+
+function addonDisabled(addon: SkriptAddonId, what: string, range: SourceRange): Diagnostic {
+  return {
+    code: "addon-disabled",
+    message: `${what} requires ${ADDON_NAMES[addon]}, which is not enabled for this workspace`,
+    severity: "warning",
+    range,
+  };
+}
+
+function tooNew(profile: SkriptProfile, addon: SkriptAddonId, since: string, what: string, range: SourceRange): Diagnostic {
+  return {
+    code: "unsupported-version",
+    message: `${what} requires ${ADDON_NAMES[addon]} ${since}, but the workspace targets ${targetVersion(profile, addon)}`,
+    severity: "warning",
+    range,
+  };
+}
+
+// Count `%` markers that open or close an expression, skipping `%%` escapes.
+function countPercents(text: string): number {
+  let count = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] !== "%") continue;
+    if (text[i + 1] === "%") {
+      i++;
+      continue;
+    }
+    count++;
+  }
+  return count;
+}
+
+function checkLine(line: SourceLine, out: Diagnostic[]) {
+  const { code } = line;
+  const strings = findStrings(code);
+
+  for (const str of strings) {
+    if (!str.closed) {
+      out.push({
+        code: "unclosed-string",
+        message: "Unclosed string literal",
+        severity: "error",
+        range: codeRange(line, str.start, str.end - str.start),
+      });
+      continue;
+    }
+    if (countPercents(code.slice(str.start + 1, str.end - 1)) % 2 !== 0) {
+      out.push({
+        code: "unbalanced-percent",
+        message: "Unbalanced `%` in string: expressions must be written as %expression% (use %% for a literal %)",
+        severity: "error",
+        range: codeRange(line, str.start, str.end - str.start),
+      });
+    }
+  }
+
+  // `{variable::%expression%}` names outside of strings
+  const outside = strings.reduceRight(
+    (text, str) => text.slice(0, str.start) + " ".repeat(str.end - str.start) + text.slice(str.end),
+    code
+  );
+  const variable = /\{[^{}]*\}/g;
+  let match: RegExpExecArray | null;
+  while ((match = variable.exec(outside))) {
+    if (countPercents(match[0]) % 2 !== 0) {
+      out.push({
+        code: "unbalanced-percent",
+        message: "Unbalanced `%` in variable name",
+        severity: "error",
+        range: codeRange(line, match.index, match[0].length),
+      });
+    }
+  }
+}
+
+export function diagnoseScript(file: ScriptFile, profile: SkriptProfile = {}): Diagnostic[] {
+  const out: Diagnostic[] = file.errors.map((e) => ({ ...e }));
+  const available = enabledEvents(profile);
+  const headerText = (range: SourceRange) => file.lines[range.startLineNumber - 1].code.replace(/:$/, "");
+  const checkConstruct = (text: string, scope: "structure" | "statement", range: SourceRange) => {
+    const construct = findConstruct(text, scope);
+    if (construct && !isSupported(profile, "skript", construct.since)) {
+      out.push(tooNew(profile, "skript", construct.since, construct.name, range));
+    }
+  };
+
+  for (const structure of file.structures) {
+    checkConstruct(headerText(structure.headerRange), "structure", structure.headerRange);
+    if (
+      structure.kind === "event" &&
+      structure.prefix !== "every" &&
+      structure.prefix !== "at" &&
+      structure.event &&
+      testName(structure.event) === null
+    ) {
+      const syntax = structure.prefix ? null : findAddonSyntax(structure.event, "structure");
+      if (syntax) {
+        if (!isAddonEnabled(profile, syntax.addon)) {
+          out.push(addonDisabled(syntax.addon, `\`${structure.event}:\``, structure.eventRange));
+        }
+      } else {
+        const info = findEvent(structure.event, available);
+        const disabled = info ? null : findEvent(structure.event);
+        if (info && !isSupported(profile, info.addon, info.since)) {
+          out.push(tooNew(profile, info.addon, info.since, `The event \`${structure.event}\``, structure.eventRange));
+        } else if (disabled) {
+          out.push(addonDisabled(disabled.addon, `The event \`${structure.event}\``, structure.eventRange));
+        } else if (!info) {
+          out.push({
+            code: "unknown-event",
+            message: structure.prefix
+              ? `Unknown event \`${structure.event}\``
+              : `Unknown event or structure \`${structure.event}\``,
+            severity: "warning",
+            range: structure.eventRange,
+          });
+        }
+      }
+    }
+    if (structure.kind === "command" && !structure.trigger) {
+      out.push({
+        code: "missing-trigger",
+        message: `Command \`/${structure.name}\` has no \`trigger:\` section`,
+        severity: "error",
+        range: structure.headerRange,
+      });
+    }
+  }
+
+  walkStatements(file, (node) => {
+    checkConstruct(headerText(node.headerRange), "statement", node.headerRange);
+    const text = node.kind === "effect" ? node.text : node.kind === "section" ? node.header : null;
+    const syntax = text && findAddonSyntax(text, "statement");
+    if (syntax && !isAddonEnabled(profile, syntax.addon)) {
+      out.push(addonDisabled(syntax.addon, syntax.description, node.headerRange));
+    }
+  });
+
+  for (const line of file.lines) {
+    if (line.code) checkLine(line, out);
+  }
+
+  return sortDiagnostics(out);
+}
+
+// Optional addons whose events or syntax the script uses, in `OPTIONAL_ADDONS` order.
+export function requiredAddons(file: ScriptFile): SkriptAddonId[] {
+  const found = new Set<SkriptAddonId>();
+  for (const structure of file.structures) {
+    if (structure.kind !== "event" || !structure.event) continue;
+    const syntax = structure.prefix ? null : findAddonSyntax(structure.event, "structure");
+    const addon = syntax?.addon ?? findEvent(structure.event)?.addon;
+    if (addon) found.add(addon);
+  }
+  walkStatements(file, (node) => {
+    const text = node.kind === "effect" ? node.text : node.kind === "section" ? node.header : null;
+    const syntax = text && findAddonSyntax(text, "statement");
+    if (syntax) found.add(syntax.addon);
+  });
+  return OPTIONAL_ADDONS.filter((id) => found.has(id));
+}
+
+export const sortDiagnostics = (diagnostics: Diagnostic[]) =>
+  diagnostics.sort(
+    (a, b) => a.range.startLineNumber - b.range.startLineNumber || a.range.startColumn - b.range.startColumn
+  );
+
+export function diagnoseSkript(source: string, profile: SkriptProfile = {}): Diagnostic[] {
+  return diagnoseScript(parseSkript(source), profile);
+}
+
+export const isSkriptFile = (name: string) => name.endsWith(".sk");
+
+// Diagnostics for every `.sk` file in the tree that has at least one problem, ordered by path.
+// `workspace` holds diagnostics of workspace-wide analyses by file id, merged into each file's own.
+export function diagnoseTree(
+  tree: FileTree,
+  profile: SkriptProfile = {},
+  cache?: DiagnosticsCache,
+  workspace?: Map<string, Diagnostic[]>
+): FileDiagnostics[] {
+  const results: FileDiagnostics[] = [];
+  const seen = new Set<string>();
+  for (const { file, path } of listFiles(tree)) {
+    if (!isSkriptFile(file.name)) continue;
+    seen.add(file.id);
+    const cached = cache?.get(file.id);
+    let diagnostics = cached?.content === file.content ? cached.diagnostics : null;
+    if (!diagnostics) {
+      diagnostics = diagnoseSkript(file.content, profile);
+      cache?.set(file.id, { content: file.content, diagnostics });
+    }
+    const extra = workspace?.get(file.id);
+    if (extra?.length) diagnostics = sortDiagnostics([...diagnostics, ...extra]);
+    if (diagnostics.length) results.push({ file, path, diagnostics });
+  }
+  cache?.forEach((_, id) => {
+    if (!seen.has(id)) cache.delete(id);
+  });
+  return results.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export function countDiagnostics(diagnostics: Diagnostic[]): DiagnosticCounts {
+  return {
+    errors: diagnostics.filter((d) => d.severity === "error").length,
+    warnings: diagnostics.filter((d) => d.severity === "warning").length,
+  };
+}
@@ -0,0 +1,2216 @@
+import { SkriptAddonId } from "./addons";
+
+export type SkriptEventInfo = {
+  name: string;
+  addon: SkriptAddonId;
+  category: string | null;
+  // syntax as documented, e.g. "on leftclick [on %block%]"
+  patterns: string[];
+  // plain event names that an `on ...:` header may start with
+  keywords: string[];
+  since: string | null;
+  description: string;
+  eventValues: string[];
+  // null when the reference does not say
+  cancellable: boolean | null;
+};
+
+// Generated from the event tables in python.md.
+export const EVENT_CATALOG: SkriptEventInfo[] = [
+  {
+    name: "On Join",
+    addon: "skript",
+    category: "player",
+    patterns: ["on join"],
+    keywords: ["join"],
+    since: "1.0",
+    description:
+      "Triggered when a player joins the server. Event-values: event-player (the joining player). Useful for welcome messages, initial setup, or tracking logins. Can be cancelled. Example: Set player's gamemode or send a message.",
+    eventValues: ["event-player (the joining player)"],
+    cancellable: true,
+  },
+  {
+    name: "On First Join",
+    addon: "skript",
+    category: "player",
+    patterns: ["on first join"],
+    keywords: ["first join"],
+    since: "2.0",
+    description:
+      "Triggered only on a player's first-ever join to the server. Event-values: event-player. Ideal for one-time setups like giving starter kits or tutorial prompts. Cannot be cancelled.",
+    eventValues: ["event-player"],
+    cancellable: false,
+  },
+  {
+    name: "On Quit",
+    addon: "skript",
+    category: "player",
+    patterns: ["on quit", "on disconnect"],
+    keywords: ["quit", "disconnect"],
+    since: "1.0",
+    description:
+      "Triggered when a player leaves the server. Event-values: event-player. Used for cleanup, saving data, or broadcast messages. Cannot be cancelled.",
+    eventValues: ["event-player"],
+    cancellable: false,
+  },
+  {
+    name: "On Login",
+    addon: "skript",
+    category: "player",
+    patterns: ["on login"],
+    keywords: ["login"],
+    since: "2.2",
+    description:
+      "Triggered during the login process after authentication but before full join. Event-values: event-player, event-hostname. Can be used to deny login by cancelling.",
+    eventValues: ["event-player", "event-hostname"],
+    cancellable: true,
+  },
+  {
+    name: "On Kick",
+    addon: "skript",
+    category: "player",
+    patterns: ["on kick"],
+    keywords: ["kick"],
+    since: "2.2",
+    description:
+      "Triggered when a player is kicked. Event-values: event-player, event-reason. Can be cancelled to prevent the kick. Useful for custom kick handling.",
+    eventValues: ["event-player", "event-reason"],
+    cancellable: true,
+  },
+  {
+    name: "On Chat",
+    addon: "skript",
+    category: "player",
+    patterns: ["on chat"],
+    keywords: ["chat"],
+    since: "1.4.1",
+    description:
+      "Triggered when a player sends a chat message. Event-values: event-player, event-message. Can be cancelled to mute or modify the message. Supports format modifiers.",
+    eventValues: ["event-player", "event-message"],
+    cancellable: true,
+  },
+  {
+    name: "On Async Chat",
+    addon: "skript",
+    category: "player",
+    patterns: ["on async chat"],
+    keywords: ["async chat"],
+    since: "2.5",
+    description:
+      "Similar to on chat, but for asynchronous chat events. Event-values: same as on chat. Used for plugins that handle chat asynchronously.",
+    eventValues: ["event-player", "event-message"],
+    cancellable: null,
+  },
+  {
+    name: "On Bed Enter",
+    addon: "skript",
+    category: "player",
+    patterns: ["on bed enter"],
+    keywords: ["bed enter"],
+    since: "2.0",
+    description:
+      "Triggered when a player enters a bed. Event-values: event-player, event-block (the bed). Can be cancelled. Useful for custom sleep mechanics.",
+    eventValues: ["event-player", "event-block (the bed)"],
+    cancellable: true,
+  },
+  {
+    name: "On Bed Leave",
+    addon: "skript",
+    category: "player",
+    patterns: ["on bed leave"],
+    keywords: ["bed leave"],
+    since: "2.0",
+    description:
+      "Triggered when a player leaves a bed. Event-values: event-player, event-block. Cannot be cancelled.",
+    eventValues: ["event-player", "event-block"],
+    cancellable: false,
+  },
+  {
+    name: "On Bucket Empty",
+    addon: "skript",
+    category: "player",
+    patterns: ["on bucket empty"],
+    keywords: ["bucket empty"],
+    since: "2.3",
+    description:
+      "Triggered when a player empties a bucket. Event-values: event-player, event-block, event-item (bucket). Can be cancelled.",
+    eventValues: ["event-player", "event-block", "event-item (bucket)"],
+    cancellable: true,
+  },
+  {
+    name: "On Bucket Fill",
+    addon: "skript",
+    category: "player",
+    patterns: ["on bucket fill"],
+    keywords: ["bucket fill"],
+    since: "2.3",
+    description:
+      "Triggered when a player fills a bucket. Event-values: event-player, event-block, event-item. Can be cancelled.",
+    eventValues: ["event-player", "event-block", "event-item"],
+    cancellable: true,
+  },
+  {
+    name: "On Command",
+    addon: "skript",
+    category: "player",
+    patterns: ["on command"],
+    keywords: ["command"],
+    since: "1.0",
+    description:
+      "Triggered when a player executes a command. Event-values: event-player, event-command. Can be cancelled. Useful for command logging or overriding.",
+    eventValues: ["event-player", "event-command"],
+    cancellable: true,
+  },
+  {
+    name: "On Consume",
+    addon: "skript",
+    category: "player",
+    patterns: ["on consume"],
+    keywords: ["consume"],
+    since: "2.0",
+    description:
+      "Triggered when a player consumes an item (e.g., food or potion). Event-values: event-player, event-item. Can be cancelled.",
+    eventValues: ["event-player", "event-item"],
+    cancellable: true,
+  },
+  {
+    name: "On Damage",
+    addon: "skript",
+    category: "player",
+    patterns: ["on damage"],
+    keywords: ["damage"],
+    since: "1.0",
+    description:
+      "Triggered when an entity is damaged. Event-values: event-entity, event-damager, event-damage, event-cause. Can be modified or cancelled. Detailed for custom combat systems.",
+    eventValues: ["event-entity", "event-damager", "event-damage", "event-cause"],
+    cancellable: true,
+  },
+  {
+    name: "On Death",
+    addon: "skript",
+    category: "player",
+    patterns: ["on death"],
+    keywords: ["death"],
+    since: "1.0",
+    description:
+      "Triggered when an entity dies. Event-values: event-entity, event-killer, event-death-message. Can be modified (e.g., change drops or message).",
+    eventValues: ["event-entity", "event-killer", "event-death-message"],
+    cancellable: null,
+  },
+  {
+    name: "On Drop",
+    addon: "skript",
+    category: "player",
+    patterns: ["on drop"],
+    keywords: ["drop"],
+    since: "2.0",
+    description:
+      "Triggered when a player drops an item. Event-values: event-player, event-item. Can be cancelled.",
+    eventValues: ["event-player", "event-item"],
+    cancellable: true,
+  },
+  {
+    name: "On Experience Change",
+    addon: "skript",
+    category: "player",
+    patterns: ["on experience change"],
+    keywords: ["experience change"],
+    since: "2.2",
+    description:
+      "Triggered when a player's experience changes. Event-values: event-player, event-experience. Can be modified.",
+    eventValues: ["event-player", "event-experience"],
+    cancellable: null,
+  },
+  {
+    name: "On Exp Spawn",
+    addon: "skript",
+    category: "player",
+    patterns: ["on experience spawn"],
+    keywords: ["experience spawn", "exp spawn"],
+    since: "2.2",
+    description:
+      "Triggered when experience orbs spawn. Event-values: event-location, event-experience. Can be cancelled.",
+    eventValues: ["event-location", "event-experience"],
+    cancellable: true,
+  },
+  {
+    name: "On Flight Toggle",
+    addon: "skript",
+    category: "player",
+    patterns: ["on flight toggle"],
+    keywords: ["flight toggle"],
+    since: "2.0",
+    description:
+      "Triggered when a player toggles flight. Event-values: event-player, event-flying (boolean). Can be cancelled.",
+    eventValues: ["event-player", "event-flying (boolean)"],
+    cancellable: true,
+  },
+  {
+    name: "On Food Level Change",
+    addon: "skript",
+    category: "player",
+    patterns: ["on food level change"],
+    keywords: ["food level change"],
+    since: "2.0",
+    description:
+      "Triggered when a player's food level changes. Event-values: event-player, event-food-level. Can be modified or cancelled.",
+    eventValues: ["event-player", "event-food-level"],
+    cancellable: true,
+  },
+  {
+    name: "On Gamemode Change",
+    addon: "skript",
+    category: "player",
+    patterns: ["on gamemode change"],
+    keywords: ["gamemode change"],
+    since: "2.0",
+    description:
+      "Triggered when a player's gamemode changes. Event-values: event-player, event-gamemode. Can be cancelled.",
+    eventValues: ["event-player", "event-gamemode"],
+    cancellable: true,
+  },
+  {
+    name: "On Heal",
+    addon: "skript",
+    category: "player",
+    patterns: ["on heal"],
+    keywords: ["heal"],
+    since: "2.0",
+    description:
+      "Triggered when an entity is healed. Event-values: event-entity, event-amount, event-reason. Can be modified.",
+    eventValues: ["event-entity", "event-amount", "event-reason"],
+    cancellable: null,
+  },
+  {
+    name: "On Hunger Drain",
+    addon: "skript",
+    category: "player",
+    patterns: ["on hunger drain"],
+    keywords: ["hunger drain"],
+    since: "2.0",
+    description:
+      "Triggered when a player's hunger drains. Event-values: event-player. Can be cancelled.",
+    eventValues: ["event-player"],
+    cancellable: true,
+  },
+  {
+    name: "On Interact",
+    addon: "skript",
+    category: "player",
+    patterns: ["on interact"],
+    keywords: ["interact"],
+    since: "1.0",
+    description:
+      "Triggered when a player interacts with something. Event-values: event-player, event-action, event-item, event-block. Can be cancelled.",
+    eventValues: ["event-player", "event-action", "event-item", "event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Interact At",
+    addon: "skript",
+    category: "player",
+    patterns: ["on interact at"],
+    keywords: ["interact at"],
+    since: "2.5",
+    description:
+      "Triggered for precise interact-at-entity events. Event-values: event-player, event-entity, event-location. Can be cancelled.",
+    eventValues: ["event-player", "event-entity", "event-location"],
+    cancellable: true,
+  },
+  {
+    name: "On Item Break",
+    addon: "skript",
+    category: "player",
+    patterns: ["on item break"],
+    keywords: ["item break"],
+    since: "2.4",
+    description:
+      "Triggered when a player's item breaks. Event-values: event-player, event-item. Cannot be cancelled.",
+    eventValues: ["event-player", "event-item"],
+    cancellable: false,
+  },
+  {
+    name: "On Item Damage",
+    addon: "skript",
+    category: "player",
+    patterns: ["on item damage"],
+    keywords: ["item damage"],
+    since: "2.4",
+    description:
+      "Triggered when an item is damaged. Event-values: event-player, event-item, event-damage. Can be modified.",
+    eventValues: ["event-player", "event-item", "event-damage"],
+    cancellable: null,
+  },
+  {
+    name: "On Item Mend",
+    addon: "skript",
+    category: "player",
+    patterns: ["on item mend"],
+    keywords: ["item mend"],
+    since: "2.4",
+    description:
+      "Triggered when an item is mended (e.g., by experience). Event-values: event-item, event-experience. Can be modified.",
+    eventValues: ["event-item", "event-experience"],
+    cancellable: null,
+  },
+  {
+    name: "On Left Click",
+    addon: "skript",
+    category: "player",
+    patterns: ["on leftclick [on %block%]"],
+    keywords: ["leftclick", "left click"],
+    since: "2.0",
+    description:
+      "Triggered on left-click actions. Event-values: event-player, event-block. Can be cancelled.",
+    eventValues: ["event-player", "event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Level Change",
+    addon: "skript",
+    category: "player",
+    patterns: ["on level change"],
+    keywords: ["level change"],
+    since: "2.0",
+    description:
+      "Triggered when a player's level changes. Event-values: event-player, event-level. Can be modified.",
+    eventValues: ["event-player", "event-level"],
+    cancellable: null,
+  },
+  {
+    name: "On Pick Up",
+    addon: "skript",
+    category: "player",
+    patterns: ["on pickup"],
+    keywords: ["pickup", "pick up"],
+    since: "2.0",
+    description:
+      "Triggered when a player picks up an item. Event-values: event-player, event-item. Can be cancelled.",
+    eventValues: ["event-player", "event-item"],
+    cancellable: true,
+  },
+  {
+    name: "On Player Animation",
+    addon: "skript",
+    category: "player",
+    patterns: ["on player animation"],
+    keywords: ["player animation"],
+    since: "2.3",
+    description:
+      "Triggered when a player performs an animation (e.g., swing arm). Event-values: event-player, event-animation. Can be cancelled.",
+    eventValues: ["event-player", "event-animation"],
+    cancellable: true,
+  },
+  {
+    name: "On Player Recipe Discover",
+    addon: "skript",
+    category: "player",
+    patterns: ["on player recipe discover"],
+    keywords: ["player recipe discover"],
+    since: "2.4",
+    description:
+      "Triggered when a player discovers a recipe. Event-values: event-player, event-recipe. Can be cancelled.",
+    eventValues: ["event-player", "event-recipe"],
+    cancellable: true,
+  },
+  {
+    name: "On Prepare Craft",
+    addon: "skript",
+    category: "player",
+    patterns: ["on prepare craft"],
+    keywords: ["prepare craft"],
+    since: "2.4",
+    description:
+      "Triggered when a crafting recipe is prepared. Event-values: event-inventory, event-recipe. Can be modified.",
+    eventValues: ["event-inventory", "event-recipe"],
+    cancellable: null,
+  },
+  {
+    name: "On Prepare Enchant",
+    addon: "skript",
+    category: "player",
+    patterns: ["on prepare enchant"],
+    keywords: ["prepare enchant"],
+    since: "2.4",
+    description:
+      "Triggered when enchanting is prepared. Event-values: event-player, event-item, event-offers. Can be modified.",
+    eventValues: ["event-player", "event-item", "event-offers"],
+    cancellable: null,
+  },
+  {
+    name: "On Prepare Smith",
+    addon: "skript",
+    category: "player",
+    patterns: ["on prepare smith"],
+    keywords: ["prepare smith"],
+    since: "2.5",
+    description:
+      "Triggered when smithing is prepared. Event-values: event-inventory, event-recipe. Can be modified.",
+    eventValues: ["event-inventory", "event-recipe"],
+    cancellable: null,
+  },
+  {
+    name: "On Riptide",
+    addon: "skript",
+    category: "player",
+    patterns: ["on riptide"],
+    keywords: ["riptide"],
+    since: "2.4",
+    description:
+      "Triggered when a player uses riptide enchantment. Event-values: event-player, event-item. Cannot be cancelled.",
+    eventValues: ["event-player", "event-item"],
+    cancellable: false,
+  },
+  {
+    name: "On Right Click",
+    addon: "skript",
+    category: "player",
+    patterns: ["on rightclick [on %block%]"],
+    keywords: ["rightclick", "right click"],
+    since: "2.0",
+    description:
+      "Triggered on right-click actions. Event-values: event-player, event-block. Can be cancelled.",
+    eventValues: ["event-player", "event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Shear",
+    addon: "skript",
+    category: "player",
+    patterns: ["on shear"],
+    keywords: ["shear"],
+    since: "2.0",
+    description:
+      "Triggered when a player shears an entity. Event-values: event-player, event-entity. Can be cancelled.",
+    eventValues: ["event-player", "event-entity"],
+    cancellable: true,
+  },
+  {
+    name: "On Sneak Toggle",
+    addon: "skript",
+    category: "player",
+    patterns: ["on sneak toggle"],
+    keywords: ["sneak toggle"],
+    since: "2.0",
+    description:
+      "Triggered when a player toggles sneak. Event-values: event-player, event-sneaking. Can be cancelled.",
+    eventValues: ["event-player", "event-sneaking"],
+    cancellable: true,
+  },
+  {
+    name: "On Sprint Toggle",
+    addon: "skript",
+    category: "player",
+    patterns: ["on sprint toggle"],
+    keywords: ["sprint toggle"],
+    since: "2.0",
+    description:
+      "Triggered when a player toggles sprint. Event-values: event-player, event-sprinting. Can be cancelled.",
+    eventValues: ["event-player", "event-sprinting"],
+    cancellable: true,
+  },
+  {
+    name: "On Swap Hand Items",
+    addon: "skript",
+    category: "player",
+    patterns: ["on swap hand items"],
+    keywords: ["swap hand items"],
+    since: "2.3",
+    description:
+      "Triggered when a player swaps hand items. Event-values: event-player, event-main-hand, event-off-hand. Can be cancelled.",
+    eventValues: ["event-player", "event-main-hand", "event-off-hand"],
+    cancellable: true,
+  },
+  {
+    name: "On Teleport",
+    addon: "skript",
+    category: "player",
+    patterns: ["on teleport"],
+    keywords: ["teleport"],
+    since: "2.0",
+    description:
+      "Triggered when an entity teleports. Event-values: event-entity, event-from, event-to, event-cause. Can be cancelled or modified.",
+    eventValues: ["event-entity", "event-from", "event-to", "event-cause"],
+    cancellable: true,
+  },
+  {
+    name: "On Tool Change",
+    addon: "skript",
+    category: "player",
+    patterns: ["on tool change"],
+    keywords: ["tool change"],
+    since: "2.0",
+    description:
+      "Triggered when a player's held item changes. Event-values: event-player, event-old-item, event-new-item. Cannot be cancelled.",
+    eventValues: ["event-player", "event-old-item", "event-new-item"],
+    cancellable: false,
+  },
+  {
+    name: "On Breed",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on breed"],
+    keywords: ["breed"],
+    since: "2.3",
+    description:
+      "Triggered when entities breed. Event-values: event-breeder, event-child, event-father, event-mother, event-experience. Can be modified.",
+    eventValues: ["event-breeder", "event-child", "event-father", "event-mother", "event-experience"],
+    cancellable: null,
+  },
+  {
+    name: "On Combust",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on combust"],
+    keywords: ["combust"],
+    since: "2.0",
+    description:
+      "Triggered when an entity starts burning. Event-values: event-entity, event-duration. Can be modified or cancelled.",
+    eventValues: ["event-entity", "event-duration"],
+    cancellable: true,
+  },
+  {
+    name: "On Creeper Power",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on creeper power"],
+    keywords: ["creeper power"],
+    since: "2.2",
+    description:
+      "Triggered when a creeper is powered (e.g., by lightning). Event-values: event-entity, event-cause. Can be cancelled.",
+    eventValues: ["event-entity", "event-cause"],
+    cancellable: true,
+  },
+  {
+    name: "On Entity Block Form",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on entity block form"],
+    keywords: ["entity block form"],
+    since: "2.5",
+    description:
+      "Triggered when an entity forms a block (e.g., snowman). Event-values: event-entity, event-block. Can be cancelled.",
+    eventValues: ["event-entity", "event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Entity Change Block",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on entity change block"],
+    keywords: ["entity change block"],
+    since: "2.3",
+    description:
+      "Triggered when an entity changes a block (e.g., enderman pickup). Event-values: event-entity, event-block, event-to. Can be cancelled.",
+    eventValues: ["event-entity", "event-block", "event-to"],
+    cancellable: true,
+  },
+  {
+    name: "On Entity Place",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on entity place"],
+    keywords: ["entity place"],
+    since: "2.5",
+    description:
+      "Triggered when an entity places a block. Event-values: event-entity, event-block. Can be cancelled.",
+    eventValues: ["event-entity", "event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Explode",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on explode"],
+    keywords: ["explode"],
+    since: "2.0",
+    description:
+      "Triggered when an entity explodes. Event-values: event-entity, event-location, event-blocks. Can be modified (change yield or blocks).",
+    eventValues: ["event-entity", "event-location", "event-blocks"],
+    cancellable: null,
+  },
+  {
+    name: "On Horse Jump",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on horse jump"],
+    keywords: ["horse jump"],
+    since: "2.2",
+    description:
+      "Triggered when a horse jumps. Event-values: event-entity, event-power. Can be modified.",
+    eventValues: ["event-entity", "event-power"],
+    cancellable: null,
+  },
+  {
+    name: "On Piglin Barter",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on piglin barter"],
+    keywords: ["piglin barter"],
+    since: "2.5",
+    description:
+      "Triggered when a piglin barters. Event-values: event-entity, event-item, event-result. Can be modified.",
+    eventValues: ["event-entity", "event-item", "event-result"],
+    cancellable: null,
+  },
+  {
+    name: "On Projectile Hit",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on projectile hit"],
+    keywords: ["projectile hit"],
+    since: "2.0",
+    description:
+      "Triggered when a projectile hits something. Event-values: event-projectile, event-shooter, event-hit-entity, event-hit-block. Cannot be cancelled.",
+    eventValues: ["event-projectile", "event-shooter", "event-hit-entity", "event-hit-block"],
+    cancellable: false,
+  },
+  {
+    name: "On Projectile Launch",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on projectile launch"],
+    keywords: ["projectile launch"],
+    since: "2.0",
+    description:
+      "Triggered when a projectile is launched. Event-values: event-projectile, event-shooter. Can be cancelled.",
+    eventValues: ["event-projectile", "event-shooter"],
+    cancellable: true,
+  },
+  {
+    name: "On Regain Health",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on regain health"],
+    keywords: ["regain health"],
+    since: "2.0",
+    description:
+      "Triggered when an entity regains health. Event-values: event-entity, event-amount, event-reason. Can be modified.",
+    eventValues: ["event-entity", "event-amount", "event-reason"],
+    cancellable: null,
+  },
+  {
+    name: "On Ride",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on ride"],
+    keywords: ["ride"],
+    since: "2.0",
+    description:
+      "Triggered when an entity rides another. Event-values: event-rider, event-vehicle. Can be cancelled.",
+    eventValues: ["event-rider", "event-vehicle"],
+    cancellable: true,
+  },
+  {
+    name: "On Slime Split",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on slime split"],
+    keywords: ["slime split"],
+    since: "2.2",
+    description:
+      "Triggered when a slime splits. Event-values: event-entity, event-size. Can be modified.",
+    eventValues: ["event-entity", "event-size"],
+    cancellable: null,
+  },
+  {
+    name: "On Spawn",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on spawn"],
+    keywords: ["spawn"],
+    since: "2.0",
+    description:
+      "Triggered when an entity spawns. Event-values: event-entity, event-location, event-reason. Can be cancelled.",
+    eventValues: ["event-entity", "event-location", "event-reason"],
+    cancellable: true,
+  },
+  {
+    name: "On Target",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on target"],
+    keywords: ["target"],
+    since: "2.0",
+    description:
+      "Triggered when an entity targets another. Event-values: event-entity, event-target, event-reason. Can be cancelled.",
+    eventValues: ["event-entity", "event-target", "event-reason"],
+    cancellable: true,
+  },
+  {
+    name: "On Tame",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on tame"],
+    keywords: ["tame"],
+    since: "2.2",
+    description:
+      "Triggered when an entity is tamed. Event-values: event-entity, event-owner. Can be cancelled.",
+    eventValues: ["event-entity", "event-owner"],
+    cancellable: true,
+  },
+  {
+    name: "On Transform",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on transform"],
+    keywords: ["transform"],
+    since: "2.5",
+    description:
+      "Triggered when an entity transforms (e.g., villager to zombie). Event-values: event-entity, event-new-entity. Can be cancelled.",
+    eventValues: ["event-entity", "event-new-entity"],
+    cancellable: true,
+  },
+  {
+    name: "On Unleash",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on unleash"],
+    keywords: ["unleash"],
+    since: "2.3",
+    description:
+      "Triggered when an entity is unleashed. Event-values: event-entity, event-player, event-reason. Can be cancelled.",
+    eventValues: ["event-entity", "event-player", "event-reason"],
+    cancellable: true,
+  },
+  {
+    name: "On Untarget",
+    addon: "skript",
+    category: "entity",
+    patterns: ["on untarget"],
+    keywords: ["untarget"],
+    since: "2.5",
+    description:
+      "Triggered when an entity stops targeting. Event-values: event-entity, event-target, event-reason. Can be cancelled.",
+    eventValues: ["event-entity", "event-target", "event-reason"],
+    cancellable: true,
+  },
+  {
+    name: "On Block Damage",
+    addon: "skript",
+    category: "block",
+    patterns: ["on block damage"],
+    keywords: ["block damage"],
+    since: "2.0",
+    description:
+      "Triggered when a block is damaged. Event-values: event-player, event-block. Can be cancelled.",
+    eventValues: ["event-player", "event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Break / Mine",
+    addon: "skript",
+    category: "block",
+    patterns: ["on break", "on mine"],
+    keywords: ["break", "mine"],
+    since: "1.0",
+    description:
+      "Triggered when a block is broken. Event-values: event-player, event-block. Can be cancelled or modified (drops).",
+    eventValues: ["event-player", "event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Burn",
+    addon: "skript",
+    category: "block",
+    patterns: ["on burn"],
+    keywords: ["burn"],
+    since: "2.0",
+    description:
+      "Triggered when a block burns. Event-values: event-block. Can be cancelled.",
+    eventValues: ["event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Can Build Check",
+    addon: "skript",
+    category: "block",
+    patterns: ["on can build check"],
+    keywords: ["can build check"],
+    since: "2.2",
+    description:
+      "Triggered when checking if a player can build. Event-values: event-player, event-location. Can be modified.",
+    eventValues: ["event-player", "event-location"],
+    cancellable: null,
+  },
+  {
+    name: "On Decay",
+    addon: "skript",
+    category: "block",
+    patterns: ["on decay"],
+    keywords: ["decay"],
+    since: "2.0",
+    description:
+      "Triggered when a block decays (e.g., leaves). Event-values: event-block. Can be cancelled.",
+    eventValues: ["event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Fade",
+    addon: "skript",
+    category: "block",
+    patterns: ["on fade"],
+    keywords: ["fade"],
+    since: "2.0",
+    description:
+      "Triggered when a block fades (e.g., ice melting). Event-values: event-block. Can be cancelled.",
+    eventValues: ["event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Fertilize",
+    addon: "skript",
+    category: "block",
+    patterns: ["on fertilize"],
+    keywords: ["fertilize"],
+    since: "2.0",
+    description:
+      "Triggered when a player fertilizes a block. Event-values: event-player, event-block. Can be cancelled.",
+    eventValues: ["event-player", "event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Form",
+    addon: "skript",
+    category: "block",
+    patterns: ["on form"],
+    keywords: ["form"],
+    since: "2.0",
+    description:
+      "Triggered when a block forms (e.g., snow). Event-values: event-block, event-new-state. Can be cancelled.",
+    eventValues: ["event-block", "event-new-state"],
+    cancellable: true,
+  },
+  {
+    name: "On Flow",
+    addon: "skript",
+    category: "block",
+    patterns: ["on flow"],
+    keywords: ["flow"],
+    since: "2.0",
+    description:
+      "Triggered when a liquid flows. Event-values: event-block (source), event-to-block. Can be cancelled.",
+    eventValues: ["event-block (source)", "event-to-block"],
+    cancellable: true,
+  },
+  {
+    name: "On From To",
+    addon: "skript",
+    category: "block",
+    patterns: ["on from to"],
+    keywords: ["from to"],
+    since: "2.0",
+    description:
+      "Triggered when a dragon egg teleports. Event-values: event-block, event-to. Can be cancelled.",
+    eventValues: ["event-block", "event-to"],
+    cancellable: true,
+  },
+  {
+    name: "On Grow",
+    addon: "skript",
+    category: "block",
+    patterns: ["on grow"],
+    keywords: ["grow"],
+    since: "2.0",
+    description:
+      "Triggered when a block grows (e.g., crops). Event-values: event-block. Can be cancelled.",
+    eventValues: ["event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Ignite",
+    addon: "skript",
+    category: "block",
+    patterns: ["on ignite"],
+    keywords: ["ignite"],
+    since: "2.0",
+    description:
+      "Triggered when a block is ignited. Event-values: event-block, event-cause, event-player/entity. Can be cancelled.",
+    eventValues: ["event-block", "event-cause", "event-player/entity"],
+    cancellable: true,
+  },
+  {
+    name: "On Liquid Spread",
+    addon: "skript",
+    category: "block",
+    patterns: ["on spread"],
+    keywords: ["spread"],
+    since: "2.0",
+    description:
+      "Triggered when a block spreads (e.g., mushroom). Event-values: event-block, event-source. Can be cancelled.",
+    eventValues: ["event-block", "event-source"],
+    cancellable: true,
+  },
+  {
+    name: "On Piston Extend",
+    addon: "skript",
+    category: "block",
+    patterns: ["on piston extend"],
+    keywords: ["piston extend"],
+    since: "2.0",
+    description:
+      "Triggered when a piston extends. Event-values: event-block, event-blocks (moved). Cannot be cancelled.",
+    eventValues: ["event-block", "event-blocks (moved)"],
+    cancellable: false,
+  },
+  {
+    name: "On Piston Retract",
+    addon: "skript",
+    category: "block",
+    patterns: ["on piston retract"],
+    keywords: ["piston retract"],
+    since: "2.0",
+    description:
+      "Triggered when a piston retracts. Event-values: event-block, event-blocks. Cannot be cancelled.",
+    eventValues: ["event-block", "event-blocks"],
+    cancellable: false,
+  },
+  {
+    name: "On Place",
+    addon: "skript",
+    category: "block",
+    patterns: ["on place"],
+    keywords: ["place"],
+    since: "1.0",
+    description:
+      "Triggered when a block is placed. Event-values: event-player, event-block. Can be cancelled.",
+    eventValues: ["event-player", "event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Physics",
+    addon: "skript",
+    category: "block",
+    patterns: ["on physics"],
+    keywords: ["physics"],
+    since: "2.0",
+    description:
+      "Triggered for block physics updates. Event-values: event-block. Can be cancelled to prevent physics.",
+    eventValues: ["event-block"],
+    cancellable: true,
+  },
+  {
+    name: "On Redstone",
+    addon: "skript",
+    category: "block",
+    patterns: ["on redstone"],
+    keywords: ["redstone"],
+    since: "2.0",
+    description:
+      "Triggered when redstone current changes. Event-values: event-block, event-old-current, event-new-current. Cannot be cancelled.",
+    eventValues: ["event-block", "event-old-current", "event-new-current"],
+    cancellable: false,
+  },
+  {
+    name: "On Sign Change",
+    addon: "skript",
+    category: "block",
+    patterns: ["on sign change"],
+    keywords: ["sign change"],
+    since: "2.0",
+    description:
+      "Triggered when a sign is edited. Event-values: event-player, event-block, event-lines. Can be modified.",
+    eventValues: ["event-player", "event-block", "event-lines"],
+    cancellable: null,
+  },
+  {
+    name: "On Sponge Absorb",
+    addon: "skript",
+    category: "block",
+    patterns: ["on sponge absorb"],
+    keywords: ["sponge absorb"],
+    since: "2.3",
+    description:
+      "Triggered when a sponge absorbs water. Event-values: event-block, event-blocks (absorbed). Can be cancelled.",
+    eventValues: ["event-block", "event-blocks (absorbed)"],
+    cancellable: true,
+  },
+  {
+    name: "On Structure Grow",
+    addon: "skript",
+    category: "block",
+    patterns: ["on structure grow"],
+    keywords: ["structure grow"],
+    since: "2.3",
+    description:
+      "Triggered when a structure grows (e.g., tree from sapling). Event-values: event-location, event-player, event-species, event-blocks. Can be cancelled.",
+    eventValues: ["event-location", "event-player", "event-species", "event-blocks"],
+    cancellable: true,
+  },
+  {
+    name: "On Book Edit",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on book edit"],
+    keywords: ["book edit"],
+    since: "2.2",
+    description:
+      "Triggered when a book is edited. Event-values: event-player, event-book, event-old-pages, event-new-pages. Can be modified.",
+    eventValues: ["event-player", "event-book", "event-old-pages", "event-new-pages"],
+    cancellable: null,
+  },
+  {
+    name: "On Book Sign",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on book sign"],
+    keywords: ["book sign"],
+    since: "2.2",
+    description:
+      "Triggered when a book is signed. Event-values: event-player, event-book, event-title, event-author. Can be modified.",
+    eventValues: ["event-player", "event-book", "event-title", "event-author"],
+    cancellable: null,
+  },
+  {
+    name: "On Enchant",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on enchant"],
+    keywords: ["enchant"],
+    since: "2.0",
+    description:
+      "Triggered when an item is enchanted. Event-values: event-player, event-item, event-enchants, event-cost. Can be modified.",
+    eventValues: ["event-player", "event-item", "event-enchants", "event-cost"],
+    cancellable: null,
+  },
+  {
+    name: "On Enchant Prepare",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on enchant prepare"],
+    keywords: ["enchant prepare"],
+    since: "2.0",
+    description:
+      "Triggered when enchanting is prepared. Event-values: event-player, event-item, event-offers. Can be modified.",
+    eventValues: ["event-player", "event-item", "event-offers"],
+    cancellable: null,
+  },
+  {
+    name: "On Furnace Burn",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on furnace burn"],
+    keywords: ["furnace burn"],
+    since: "2.0",
+    description:
+      "Triggered when fuel burns in a furnace. Event-values: event-block, event-fuel. Can be modified (burn time).",
+    eventValues: ["event-block", "event-fuel"],
+    cancellable: null,
+  },
+  {
+    name: "On Furnace Smelt",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on furnace smelt"],
+    keywords: ["furnace smelt"],
+    since: "2.0",
+    description:
+      "Triggered when an item is smelted. Event-values: event-block, event-source, event-result. Can be modified.",
+    eventValues: ["event-block", "event-source", "event-result"],
+    cancellable: null,
+  },
+  {
+    name: "On Inventory Click",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on inventory click"],
+    keywords: ["inventory click"],
+    since: "2.0",
+    description:
+      "Triggered when a player clicks in an inventory. Event-values: event-player, event-inventory, event-slot, event-click, event-item. Can be cancelled. Detailed for custom GUIs.",
+    eventValues: ["event-player", "event-inventory", "event-slot", "event-click", "event-item"],
+    cancellable: true,
+  },
+  {
+    name: "On Inventory Close",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on inventory close"],
+    keywords: ["inventory close"],
+    since: "2.0",
+    description:
+      "Triggered when an inventory is closed. Event-values: event-player, event-inventory. Cannot be cancelled.",
+    eventValues: ["event-player", "event-inventory"],
+    cancellable: false,
+  },
+  {
+    name: "On Inventory Open",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on inventory open"],
+    keywords: ["inventory open"],
+    since: "2.0",
+    description:
+      "Triggered when an inventory is opened. Event-values: event-player, event-inventory. Can be cancelled.",
+    eventValues: ["event-player", "event-inventory"],
+    cancellable: true,
+  },
+  {
+    name: "On Inventory Pick Up",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on inventory pick up"],
+    keywords: ["inventory pick up"],
+    since: "2.3",
+    description:
+      "Triggered when an inventory picks up an item (e.g., hopper). Event-values: event-inventory, event-item. Can be cancelled.",
+    eventValues: ["event-inventory", "event-item"],
+    cancellable: true,
+  },
+  {
+    name: "On Item Despawn",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on item despawn"],
+    keywords: ["item despawn"],
+    since: "2.0",
+    description:
+      "Triggered when an item despawns. Event-values: event-item. Can be cancelled.",
+    eventValues: ["event-item"],
+    cancellable: true,
+  },
+  {
+    name: "On Item Merge",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on item merge"],
+    keywords: ["item merge"],
+    since: "2.0",
+    description:
+      "Triggered when items merge. Event-values: event-item (new), event-old-item. Can be cancelled.",
+    eventValues: ["event-item (new)", "event-old-item"],
+    cancellable: true,
+  },
+  {
+    name: "On Item Spawn",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on item spawn"],
+    keywords: ["item spawn"],
+    since: "2.0",
+    description:
+      "Triggered when an item spawns. Event-values: event-item. Can be cancelled.",
+    eventValues: ["event-item"],
+    cancellable: true,
+  },
+  {
+    name: "On Smith",
+    addon: "skript",
+    category: "inventory",
+    patterns: ["on smith"],
+    keywords: ["smith"],
+    since: "2.5",
+    description:
+      "Triggered when an item is smithed. Event-values: event-inventory, event-result. Can be modified.",
+    eventValues: ["event-inventory", "event-result"],
+    cancellable: null,
+  },
+  {
+    name: "On Lightning",
+    addon: "skript",
+    category: "world",
+    patterns: ["on lightning"],
+    keywords: ["lightning"],
+    since: "2.0",
+    description:
+      "Triggered when lightning strikes. Event-values: event-location, event-entity (if targeted). Can be cancelled.",
+    eventValues: ["event-location", "event-entity (if targeted)"],
+    cancellable: true,
+  },
+  {
+    name: "On Portal",
+    addon: "skript",
+    category: "world",
+    patterns: ["on portal"],
+    keywords: ["portal"],
+    since: "2.0",
+    description:
+      "Triggered when an entity uses a portal. Event-values: event-entity, event-from, event-to. Can be cancelled.",
+    eventValues: ["event-entity", "event-from", "event-to"],
+    cancellable: true,
+  },
+  {
+    name: "On Portal Create",
+    addon: "skript",
+    category: "world",
+    patterns: ["on portal create"],
+    keywords: ["portal create"],
+    since: "2.0",
+    description:
+      "Triggered when a portal is created. Event-values: event-blocks, event-reason. Can be cancelled.",
+    eventValues: ["event-blocks", "event-reason"],
+    cancellable: true,
+  },
+  {
+    name: "On Portal Enter",
+    addon: "skript",
+    category: "world",
+    patterns: ["on portal enter"],
+    keywords: ["portal enter"],
+    since: "2.0",
+    description:
+      "Triggered when an entity enters a portal block. Event-values: event-entity, event-block. Cannot be cancelled.",
+    eventValues: ["event-entity", "event-block"],
+    cancellable: false,
+  },
+  {
+    name: "On Spawn Change",
+    addon: "skript",
+    category: "world",
+    patterns: ["on spawn change"],
+    keywords: ["spawn change"],
+    since: "2.2",
+    description:
+      "Triggered when the world spawn changes. Event-values: event-world, event-location. Cannot be cancelled.",
+    eventValues: ["event-world", "event-location"],
+    cancellable: false,
+  },
+  {
+    name: "On Thunder Change",
+    addon: "skript",
+    category: "world",
+    patterns: ["on thunder change"],
+    keywords: ["thunder change"],
+    since: "2.0",
+    description:
+      "Triggered when thunder state changes. Event-values: event-world, event-to (boolean). Can be cancelled.",
+    eventValues: ["event-world", "event-to (boolean)"],
+    cancellable: true,
+  },
+  {
+    name: "On Weather Change",
+    addon: "skript",
+    category: "world",
+    patterns: ["on weather change"],
+    keywords: ["weather change"],
+    since: "2.0",
+    description:
+      "Triggered when weather changes. Event-values: event-world, event-to (weather type). Can be cancelled.",
+    eventValues: ["event-world", "event-to (weather type)"],
+    cancellable: true,
+  },
+  {
+    name: "On Server List Ping",
+    addon: "skript",
+    category: "server",
+    patterns: ["on server ping"],
+    keywords: ["server ping", "server list ping"],
+    since: "2.3",
+    description:
+      "Triggered when the server is pinged for list info. Event-values: event-ip, event-motd, event-maxplayers, event-playerinfo. Can be modified (change MOTD, etc.).",
+    eventValues: ["event-ip", "event-motd", "event-maxplayers", "event-playerinfo"],
+    cancellable: null,
+  },
+  {
+    name: "On Tab Complete",
+    addon: "skript",
+    category: "server",
+    patterns: ["on tab complete"],
+    keywords: ["tab complete"],
+    since: "2.2",
+    description:
+      "Triggered when tab completion is requested. Event-values: event-sender, event-buffer, event-completions. Can be modified.",
+    eventValues: ["event-sender", "event-buffer", "event-completions"],
+    cancellable: null,
+  },
+  {
+    name: "On Script Load",
+    addon: "skript",
+    category: "server",
+    patterns: ["on [async] [script|skript] (load|init|enable)"],
+    keywords: ["script load", "skript load", "script init", "script enable", "load"],
+    since: "2.0",
+    description:
+      "Triggered when a script is loaded. No event-values. Useful for initialization.",
+    eventValues: [],
+    cancellable: null,
+  },
+  {
+    name: "On Script Unload",
+    addon: "skript",
+    category: "server",
+    patterns: ["on script unload"],
+    keywords: ["script unload"],
+    since: "2.0",
+    description:
+      "Triggered when a script is unloaded. No event-values. Useful for cleanup.",
+    eventValues: [],
+    cancellable: null,
+  },
+  {
+    name: "On Server Load",
+    addon: "skript",
+    category: "server",
+    patterns: ["on server load"],
+    keywords: ["server load"],
+    since: "2.0",
+    description:
+      "Triggered when the server starts. No event-values. Runs once per server start.",
+    eventValues: [],
+    cancellable: null,
+  },
+  {
+    name: "On Server Stop",
+    addon: "skript",
+    category: "server",
+    patterns: ["on server stop"],
+    keywords: ["server stop"],
+    since: "2.0",
+    description:
+      "Triggered when the server stops. No event-values. Runs before shutdown.",
+    eventValues: [],
+    cancellable: null,
+  },
+  {
+    name: "On Vehicle Create",
+    addon: "skript",
+    category: "vehicle",
+    patterns: ["on vehicle create"],
+    keywords: ["vehicle create"],
+    since: "2.0",
+    description:
+      "Triggered when a vehicle is created. Event-values: event-vehicle. Can be cancelled.",
+    eventValues: ["event-vehicle"],
+    cancellable: true,
+  },
+  {
+    name: "On Vehicle Damage",
+    addon: "skript",
+    category: "vehicle",
+    patterns: ["on vehicle damage"],
+    keywords: ["vehicle damage"],
+    since: "2.0",
+    description:
+      "Triggered when a vehicle is damaged. Event-values: event-vehicle, event-damager, event-damage. Can be modified.",
+    eventValues: ["event-vehicle", "event-damager", "event-damage"],
+    cancellable: null,
+  },
+  {
+    name: "On Vehicle Destroy",
+    addon: "skript",
+    category: "vehicle",
+    patterns: ["on vehicle destroy"],
+    keywords: ["vehicle destroy"],
+    since: "2.0",
+    description:
+      "Triggered when a vehicle is destroyed. Event-values: event-vehicle, event-damager. Can be cancelled.",
+    eventValues: ["event-vehicle", "event-damager"],
+    cancellable: true,
+  },
+  {
+    name: "On Vehicle Enter",
+    addon: "skript",
+    category: "vehicle",
+    patterns: ["on vehicle enter"],
+    keywords: ["vehicle enter"],
+    since: "2.0",
+    description:
+      "Triggered when an entity enters a vehicle. Event-values: event-vehicle, event-enterer. Can be cancelled.",
+    eventValues: ["event-vehicle", "event-enterer"],
+    cancellable: true,
+  },
+  {
+    name: "On Vehicle Exit",
+    addon: "skript",
+    category: "vehicle",
+    patterns: ["on vehicle exit"],
+    keywords: ["vehicle exit"],
+    since: "2.0",
+    description:
+      "Triggered when an entity exits a vehicle. Event-values: event-vehicle, event-exiter. Can be cancelled.",
+    eventValues: ["event-vehicle", "event-exiter"],
+    cancellable: true,
+  },
+  {
+    name: "On Vehicle Move",
+    addon: "skript",
+    category: "vehicle",
+    patterns: ["on vehicle move"],
+    keywords: ["vehicle move"],
+    since: "2.0",
+    description:
+      "Triggered when a vehicle moves. Event-values: event-vehicle, event-from, event-to. Cannot be cancelled.",
+    eventValues: ["event-vehicle", "event-from", "event-to"],
+    cancellable: false,
+  },
+  {
+    name: "On Chunk Generate",
+    addon: "skript",
+    category: "other",
+    patterns: ["on chunk populate"],
+    keywords: ["chunk populate", "chunk generate"],
+    since: "2.2",
+    description:
+      "Triggered when a chunk is populated. Event-values: event-chunk, event-world. Cannot be cancelled.",
+    eventValues: ["event-chunk", "event-world"],
+    cancellable: false,
+  },
+  {
+    name: "On Chunk Load",
+    addon: "skript",
+    category: "other",
+    patterns: ["on chunk load"],
+    keywords: ["chunk load"],
+    since: "2.0",
+    description:
+      "Triggered when a chunk loads. Event-values: event-chunk, event-world. Cannot be cancelled.",
+    eventValues: ["event-chunk", "event-world"],
+    cancellable: false,
+  },
+  {
+    name: "On Chunk Unload",
+    addon: "skript",
+    category: "other",
+    patterns: ["on chunk unload"],
+    keywords: ["chunk unload"],
+    since: "2.0",
+    description:
+      "Triggered when a chunk unloads. Event-values: event-chunk, event-world. Can be cancelled to keep chunk loaded.",
+    eventValues: ["event-chunk", "event-world"],
+    cancellable: true,
+  },
+  {
+    name: "On Command Pre Process",
+    addon: "skript",
+    category: "other",
+    patterns: ["on command pre process"],
+    keywords: ["command pre process"],
+    since: "2.2",
+    description:
+      "Triggered before a command is processed. Event-values: event-sender, event-command. Can be cancelled.",
+    eventValues: ["event-sender", "event-command"],
+    cancellable: true,
+  },
+  {
+    name: "On Hanging Break",
+    addon: "skript",
+    category: "other",
+    patterns: ["on hanging break"],
+    keywords: ["hanging break"],
+    since: "2.2",
+    description:
+      "Triggered when a hanging entity (e.g., painting) breaks. Event-values: event-entity, event-cause. Can be cancelled.",
+    eventValues: ["event-entity", "event-cause"],
+    cancellable: true,
+  },
+  {
+    name: "On Hanging Place",
+    addon: "skript",
+    category: "other",
+    patterns: ["on hanging place"],
+    keywords: ["hanging place"],
+    since: "2.2",
+    description:
+      "Triggered when a hanging entity is placed. Event-values: event-player, event-entity. Can be cancelled.",
+    eventValues: ["event-player", "event-entity"],
+    cancellable: true,
+  },
+  {
+    name: "On Loot Generate",
+    addon: "skript",
+    category: "other",
+    patterns: ["on loot generate"],
+    keywords: ["loot generate"],
+    since: "2.4",
+    description:
+      "Triggered when loot is generated (e.g., in chests). Event-values: event-inventory, event-items, event-location. Can be modified.",
+    eventValues: ["event-inventory", "event-items", "event-location"],
+    cancellable: null,
+  },
+  {
+    name: "On Note Play",
+    addon: "skript",
+    category: "other",
+    patterns: ["on note play"],
+    keywords: ["note play"],
+    since: "2.2",
+    description:
+      "Triggered when a note block plays. Event-values: event-block, event-note, event-instrument. Can be cancelled.",
+    eventValues: ["event-block", "event-note", "event-instrument"],
+    cancellable: true,
+  },
+  {
+    name: "On Player Statistic Increment",
+    addon: "skript",
+    category: "other",
+    patterns: ["on player statistic increment"],
+    keywords: ["player statistic increment"],
+    since: "2.3",
+    description:
+      "Triggered when a player's statistic increases. Event-values: event-player, event-statistic, event-new-value. Can be cancelled.",
+    eventValues: ["event-player", "event-statistic", "event-new-value"],
+    cancellable: true,
+  },
+  {
+    name: "On Pressure",
+    addon: "skript",
+    category: "other",
+    patterns: ["on pressure"],
+    keywords: ["pressure"],
+    since: "2.0",
+    description:
+      "Triggered when a pressure plate is activated. Event-values: event-block, event-player/entity. Cannot be cancelled.",
+    eventValues: ["event-block", "event-player/entity"],
+    cancellable: false,
+  },
+  {
+    name: "On Tripwire",
+    addon: "skript",
+    category: "other",
+    patterns: ["on tripwire"],
+    keywords: ["tripwire"],
+    since: "2.0",
+    description:
+      "Triggered when a tripwire is activated. Event-values: event-block, event-player/entity. Cannot be cancelled.",
+    eventValues: ["event-block", "event-player/entity"],
+    cancellable: false,
+  },
+  {
+    name: "On Vehicle Collide",
+    addon: "skript",
+    category: "other",
+    patterns: ["on vehicle collide"],
+    keywords: ["vehicle collide"],
+    since: "2.2",
+    description:
+      "Triggered when a vehicle collides with an entity. Event-values: event-vehicle, event-entity. Can be cancelled.",
+    eventValues: ["event-vehicle", "event-entity"],
+    cancellable: true,
+  },
+  {
+    name: "On Armor Stand Manipulate",
+    addon: "skbee",
+    category: null,
+    patterns: ["on armor stand manipulate"],
+    keywords: ["armor stand manipulate"],
+    since: "1.0.0",
+    description:
+      "Triggered when a player manipulates an armor stand (e.g., rotates or equips). Event-values: event-player, event-armorstand, event-slot, event-item. Can be cancelled. Detailed for custom armor stand interactions.",
+    eventValues: ["event-player", "event-armorstand", "event-slot", "event-item"],
+    cancellable: true,
+  },
+  {
+    name: "On Armor Change",
+    addon: "skbee",
+    category: null,
+    patterns: ["on armor change"],
+    keywords: ["armor change"],
+    since: "1.8.0",
+    description:
+      "Triggered when an entity's armor changes. Event-values: event-entity, event-slot, event-old-item, event-new-item. Cannot be cancelled. Useful for tracking equipment.",
+    eventValues: ["event-entity", "event-slot", "event-old-item", "event-new-item"],
+    cancellable: false,
+  },
+  {
+    name: "On Bee Breed",
+    addon: "skbee",
+    category: null,
+    patterns: ["on bee breed"],
+    keywords: ["bee breed"],
+    since: "1.5.0",
+    description:
+      "Triggered when bees breed. Event-values: event-entity (child), event-parent1, event-parent2, event-experience. Can be modified.",
+    eventValues: ["event-entity (child)", "event-parent1", "event-parent2", "event-experience"],
+    cancellable: null,
+  },
+  {
+    name: "On Bee Enter Hive",
+    addon: "skbee",
+    category: null,
+    patterns: ["on bee enter hive"],
+    keywords: ["bee enter hive"],
+    since: "1.5.0",
+    description:
+      "Triggered when a bee enters its hive. Event-values: event-bee, event-hive. Cannot be cancelled.",
+    eventValues: ["event-bee", "event-hive"],
+    cancellable: false,
+  },
+  {
+    name: "On Bee Leave Hive",
+    addon: "skbee",
+    category: null,
+    patterns: ["on bee leave hive"],
+    keywords: ["bee leave hive"],
+    since: "1.5.0",
+    description:
+      "Triggered when a bee leaves its hive. Event-values: event-bee, event-hive. Cannot be cancelled.",
+    eventValues: ["event-bee", "event-hive"],
+    cancellable: false,
+  },
+  {
+    name: "On Bee Pollinate",
+    addon: "skbee",
+    category: null,
+    patterns: ["on bee pollinate"],
+    keywords: ["bee pollinate"],
+    since: "1.5.0",
+    description:
+      "Triggered when a bee pollinates a flower. Event-values: event-bee, event-block (flower). Can be cancelled.",
+    eventValues: ["event-bee", "event-block (flower)"],
+    cancellable: true,
+  },
+  {
+    name: "On Bound Create",
+    addon: "skbee",
+    category: null,
+    patterns: ["on bound create"],
+    keywords: ["bound create"],
+    since: "1.0.0",
+    description:
+      "Triggered when a bound (custom region) is created. Event-values: event-bound, event-player. Cannot be cancelled. Useful for custom area management.",
+    eventValues: ["event-bound", "event-player"],
+    cancellable: false,
+  },
+  {
+    name: "On Bound Enter",
+    addon: "skbee",
+    category: null,
+    patterns: ["on bound enter"],
+    keywords: ["bound enter"],
+    since: "1.0.0",
+    description:
+      "Triggered when an entity enters a bound. Event-values: event-bound, event-entity, event-from, event-to. Can be cancelled.",
+    eventValues: ["event-bound", "event-entity", "event-from", "event-to"],
+    cancellable: true,
+  },
+  {
+    name: "On Bound Exit",
+    addon: "skbee",
+    category: null,
+    patterns: ["on bound exit"],
+    keywords: ["bound exit"],
+    since: "1.0.0",
+    description:
+      "Triggered when an entity exits a bound. Event-values: event-bound, event-entity, event-from, event-to. Can be cancelled.",
+    eventValues: ["event-bound", "event-entity", "event-from", "event-to"],
+    cancellable: true,
+  },
+  {
+    name: "On Brush",
+    addon: "skbee",
+    category: null,
+    patterns: ["on brush"],
+    keywords: ["brush"],
+    since: "3.0.0",
+    description:
+      "Triggered when a player uses a brush on a suspicious block. Event-values: event-player, event-block, event-item. Can be modified (change loot).",
+    eventValues: ["event-player", "event-block", "event-item"],
+    cancellable: null,
+  },
+  {
+    name: "On Camel Dash",
+    addon: "skbee",
+    category: null,
+    patterns: ["on camel dash"],
+    keywords: ["camel dash"],
+    since: "3.0.0",
+    description:
+      "Triggered when a camel dashes. Event-values: event-camel, event-player. Cannot be cancelled.",
+    eventValues: ["event-camel", "event-player"],
+    cancellable: false,
+  },
+  {
+    name: "On Calibrated Sculk Sensor Resonate",
+    addon: "skbee",
+    category: null,
+    patterns: ["on calibrated sculk sensor resonate"],
+    keywords: ["calibrated sculk sensor resonate"],
+    since: "3.0.0",
+    description:
+      "Triggered when a calibrated sculk sensor resonates. Event-values: event-block, event-frequency. Cannot be cancelled.",
+    eventValues: ["event-block", "event-frequency"],
+    cancellable: false,
+  },
+  {
+    name: "On Chiseled Bookshelf Book Place/Take",
+    addon: "skbee",
+    category: null,
+    patterns: ["on chiseled bookshelf book place", "on chiseled bookshelf book take"],
+    keywords: ["chiseled bookshelf book place", "chiseled bookshelf book take"],
+    since: "3.0.0",
+    description:
+      "Triggered when a book is placed or taken from a chiseled bookshelf. Event-values: event-block, event-player, event-slot, event-book. Can be cancelled.",
+    eventValues: ["event-block", "event-player", "event-slot", "event-book"],
+    cancellable: true,
+  },
+  {
+    name: "On Chiseled Bookshelf Search",
+    addon: "skbee",
+    category: null,
+    patterns: ["on chiseled bookshelf search"],
+    keywords: ["chiseled bookshelf search"],
+    since: "3.0.0",
+    description:
+      "Triggered when searching a chiseled bookshelf. Event-values: event-block, event-player. Cannot be cancelled.",
+    eventValues: ["event-block", "event-player"],
+    cancellable: false,
+  },
+  {
+    name: "On Custom Drop",
+    addon: "skbee",
+    category: null,
+    patterns: ["on custom drop"],
+    keywords: ["custom drop"],
+    since: "1.10.0",
+    description:
+      "Triggered when a custom drop occurs (via SkBee effects). Event-values: event-item, event-location. Can be modified.",
+    eventValues: ["event-item", "event-location"],
+    cancellable: null,
+  },
+  {
+    name: "On Custom Item Craft",
+    addon: "skbee",
+    category: null,
+    patterns: ["on custom item craft"],
+    keywords: ["custom item craft"],
+    since: "1.10.0",
+    description:
+      "Triggered when a custom item is crafted. Event-values: event-recipe, event-inventory. Can be cancelled.",
+    eventValues: ["event-recipe", "event-inventory"],
+    cancellable: true,
+  },
+  {
+    name: "On Custom Recipe Discover",
+    addon: "skbee",
+    category: null,
+    patterns: ["on custom recipe discover"],
+    keywords: ["custom recipe discover"],
+    since: "1.10.0",
+    description:
+      "Triggered when a player discovers a custom recipe. Event-values: event-player, event-recipe. Can be cancelled.",
+    eventValues: ["event-player", "event-recipe"],
+    cancellable: true,
+  },
+  {
+    name: "On Hanging Sign Edit",
+    addon: "skbee",
+    category: null,
+    patterns: ["on hanging sign edit"],
+    keywords: ["hanging sign edit"],
+    since: "3.0.0",
+    description:
+      "Triggered when a hanging sign is edited. Event-values: event-player, event-block, event-lines. Can be modified.",
+    eventValues: ["event-player", "event-block", "event-lines"],
+    cancellable: null,
+  },
+  {
+    name: "On NBT Compound Add/Remove",
+    addon: "skbee",
+    category: null,
+    patterns: ["on nbt compound add", "on nbt compound remove"],
+    keywords: ["nbt compound add", "nbt compound remove"],
+    since: "1.0.0",
+    description:
+      "Triggered when NBT is added or removed from an item/entity. Event-values: event-nbt, event-key, event-value. Cannot be cancelled. Useful for NBT tracking.",
+    eventValues: ["event-nbt", "event-key", "event-value"],
+    cancellable: false,
+  },
+  {
+    name: "On Ocelot Attack",
+    addon: "skbee",
+    category: null,
+    patterns: ["on ocelot attack"],
+    keywords: ["ocelot attack"],
+    since: "3.0.0",
+    description:
+      "Triggered when an ocelot attacks. Event-values: event-ocelot, event-target. Can be cancelled.",
+    eventValues: ["event-ocelot", "event-target"],
+    cancellable: true,
+  },
+  {
+    name: "On Particle Spawn",
+    addon: "skbee",
+    category: null,
+    patterns: ["on particle spawn"],
+    keywords: ["particle spawn"],
+    since: "1.7.0",
+    description:
+      "Triggered when a particle is spawned. Event-values: event-particle, event-location. Can be cancelled.",
+    eventValues: ["event-particle", "event-location"],
+    cancellable: true,
+  },
+  {
+    name: "On Piglin Barter",
+    addon: "skbee",
+    category: null,
+    patterns: ["on piglin barter"],
+    keywords: ["piglin barter"],
+    since: "1.8.0",
+    description:
+      "Triggered when a piglin barters (already in base, but enhanced). Event-values: event-piglin, event-item, event-result. Can be modified.",
+    eventValues: ["event-piglin", "event-item", "event-result"],
+    cancellable: null,
+  },
+  {
+    name: "On Scoreboard Objective Create/Remove",
+    addon: "skbee",
+    category: null,
+    patterns: ["on scoreboard objective create", "on scoreboard objective remove"],
+    keywords: ["scoreboard objective create", "scoreboard objective remove"],
+    since: "1.0.0",
+    description:
+      "Triggered when a scoreboard objective is created or removed. Event-values: event-objective. Cannot be cancelled.",
+    eventValues: ["event-objective"],
+    cancellable: false,
+  },
+  {
+    name: "On Scoreboard Score Set/Reset",
+    addon: "skbee",
+    category: null,
+    patterns: ["on scoreboard score set", "on scoreboard score reset"],
+    keywords: ["scoreboard score set", "scoreboard score reset"],
+    since: "1.0.0",
+    description:
+      "Triggered when a scoreboard score is set or reset. Event-values: event-entry, event-objective, event-score. Cannot be cancelled.",
+    eventValues: ["event-entry", "event-objective", "event-score"],
+    cancellable: false,
+  },
+  {
+    name: "On Sniffer Dig",
+    addon: "skbee",
+    category: null,
+    patterns: ["on sniffer dig"],
+    keywords: ["sniffer dig"],
+    since: "3.0.0",
+    description:
+      "Triggered when a sniffer digs. Event-values: event-sniffer, event-location. Can be cancelled.",
+    eventValues: ["event-sniffer", "event-location"],
+    cancellable: true,
+  },
+  {
+    name: "On Sniffer Egg Hatch",
+    addon: "skbee",
+    category: null,
+    patterns: ["on sniffer egg hatch"],
+    keywords: ["sniffer egg hatch"],
+    since: "3.0.0",
+    description:
+      "Triggered when a sniffer egg hatches. Event-values: event-location, event-sniffer. Cannot be cancelled.",
+    eventValues: ["event-location", "event-sniffer"],
+    cancellable: false,
+  },
+  {
+    name: "On Sniffer Explore",
+    addon: "skbee",
+    category: null,
+    patterns: ["on sniffer explore"],
+    keywords: ["sniffer explore"],
+    since: "3.0.0",
+    description:
+      "Triggered when a sniffer explores (finds items). Event-values: event-sniffer, event-item. Can be modified.",
+    eventValues: ["event-sniffer", "event-item"],
+    cancellable: null,
+  },
+  {
+    name: "On Strider Shiver",
+    addon: "skbee",
+    category: null,
+    patterns: ["on strider shiver"],
+    keywords: ["strider shiver"],
+    since: "3.0.0",
+    description:
+      "Triggered when a strider shivers. Event-values: event-strider. Cannot be cancelled.",
+    eventValues: ["event-strider"],
+    cancellable: false,
+  },
+  {
+    name: "On Tab Complete",
+    addon: "skbee",
+    category: null,
+    patterns: ["on tab complete"],
+    keywords: ["tab complete"],
+    since: "1.0.0",
+    description:
+      "Enhanced tab complete event. Event-values: event-sender, event-buffer, event-completions. Can be modified for custom suggestions.",
+    eventValues: ["event-sender", "event-buffer", "event-completions"],
+    cancellable: null,
+  },
+  {
+    name: "On Ticket Acquire",
+    addon: "skbee",
+    category: null,
+    patterns: ["on ticket acquire"],
+    keywords: ["ticket acquire"],
+    since: "1.12.0",
+    description:
+      "Triggered when a chunk ticket is acquired. Event-values: event-ticket, event-location. Cannot be cancelled.",
+    eventValues: ["event-ticket", "event-location"],
+    cancellable: false,
+  },
+  {
+    name: "On Virtual Furnace Smelt",
+    addon: "skbee",
+    category: null,
+    patterns: ["on virtual furnace smelt"],
+    keywords: ["virtual furnace smelt"],
+    since: "1.10.0",
+    description:
+      "Triggered when a virtual furnace (created via SkBee) smelts an item. Event-values: event-furnace, event-result. Can be modified.",
+    eventValues: ["event-furnace", "event-result"],
+    cancellable: null,
+  },
+  {
+    name: "On Villager Career Change",
+    addon: "skbee",
+    category: null,
+    patterns: ["on villager career change"],
+    keywords: ["villager career change"],
+    since: "1.8.0",
+    description:
+      "Triggered when a villager changes career. Event-values: event-villager, event-profession. Can be cancelled.",
+    eventValues: ["event-villager", "event-profession"],
+    cancellable: true,
+  },
+  {
+    name: "On Wandering Trader Spawn",
+    addon: "skbee",
+    category: null,
+    patterns: ["on wandering trader spawn"],
+    keywords: ["wandering trader spawn"],
+    since: "1.8.0",
+    description:
+      "Triggered when a wandering trader spawns. Event-values: event-trader, event-location. Can be cancelled.",
+    eventValues: ["event-trader", "event-location"],
+    cancellable: true,
+  },
+  {
+    name: "On World Creator",
+    addon: "skbee",
+    category: null,
+    patterns: ["on world creator"],
+    keywords: ["world creator"],
+    since: "1.0.0",
+    description:
+      "Triggered when a world is created using SkBee's world creator. Event-values: event-world, event-creator. Cannot be cancelled.",
+    eventValues: ["event-world", "event-creator"],
+    cancellable: false,
+  },
+  {
+    name: "On Region Enter",
+    addon: "skquery",
+    category: null,
+    patterns: ["on region enter"],
+    keywords: ["region enter"],
+    since: "3.0",
+    description:
+      "Triggered when a player enters a WorldGuard region. Event-values: event-player, event-region, event-movement (from/to locations). Can be cancelled. Detailed for custom zone triggers, supports multiple regions.",
+    eventValues: ["event-player", "event-region", "event-movement (from/to locations)"],
+    cancellable: true,
+  },
+  {
+    name: "On Region Exit",
+    addon: "skquery",
+    category: null,
+    patterns: ["on region exit"],
+    keywords: ["region exit"],
+    since: "3.0",
+    description:
+      "Triggered when a player exits a WorldGuard region. Event-values: event-player, event-region, event-movement. Can be cancelled.",
+    eventValues: ["event-player", "event-region", "event-movement"],
+    cancellable: true,
+  },
+  {
+    name: "On Region Change",
+    addon: "skquery",
+    category: null,
+    patterns: ["on region change"],
+    keywords: ["region change"],
+    since: "3.6",
+    description:
+      "Triggered when a player's region set changes (enter/exit multiple). Event-values: event-player, event-regions-entered, event-regions-exited. Cannot be cancelled. Useful for complex region tracking.",
+    eventValues: ["event-player", "event-regions-entered", "event-regions-exited"],
+    cancellable: false,
+  },
+  {
+    name: "On Region Border",
+    addon: "skquery",
+    category: null,
+    patterns: ["on region border"],
+    keywords: ["region border"],
+    since: "3.0",
+    description:
+      "Triggered when a player is at the border of a region. Event-values: event-player, event-region. Can be cancelled to prevent crossing.",
+    eventValues: ["event-player", "event-region"],
+    cancellable: true,
+  },
+  {
+    name: "On Anvil",
+    addon: "skquery",
+    category: null,
+    patterns: ["on anvil"],
+    keywords: ["anvil"],
+    since: "3.0",
+    description:
+      "Triggered when a player uses an anvil. Event-values: event-player, event-inventory, event-result. Can be modified (cost, result). Note: Enhanced from base if present.",
+    eventValues: ["event-player", "event-inventory", "event-result"],
+    cancellable: null,
+  },
+  {
+    name: "On SkQuery Enable",
+    addon: "skquery",
+    category: null,
+    patterns: ["on skquery enable"],
+    keywords: ["skquery enable"],
+    since: "3.0",
+    description:
+      "Triggered when SkQuery is enabled. No event-values. Useful for addon-specific initialization.",
+    eventValues: [],
+    cancellable: null,
+  },
+  {
+    name: "On SkQuery Disable",
+    addon: "skquery",
+    category: null,
+    patterns: ["on skquery disable"],
+    keywords: ["skquery disable"],
+    since: "3.0",
+    description:
+      "Triggered when SkQuery is disabled. No event-values. For cleanup.",
+    eventValues: [],
+    cancellable: null,
+  },
+  {
+    name: "On Script Start",
+    addon: "skquery",
+    category: null,
+    patterns: ["on script start"],
+    keywords: ["script start"],
+    since: "3.5",
+    description:
+      "Triggered when any script starts. No event-values. Overlaps with base but enhanced for SkQuery contexts.",
+    eventValues: [],
+    cancellable: null,
+  },
+  {
+    name: "On Script Stop",
+    addon: "skquery",
+    category: null,
+    patterns: ["on script stop"],
+    keywords: ["script stop"],
+    since: "3.5",
+    description:
+      "Triggered when any script stops. No event-values.",
+    eventValues: [],
+    cancellable: null,
+  },
+  {
+    name: "On Connect",
+    addon: "skquery",
+    category: null,
+    patterns: ["on connect"],
+    keywords: ["connect"],
+    since: "3.0",
+    description:
+      "Triggered when a player connects (pre-login). Event-values: event-player, event-ip. Can be cancelled. Older alternative to base on login.",
+    eventValues: ["event-player", "event-ip"],
+    cancellable: true,
+  },
+  {
+    name: "On Disconnect",
+    addon: "skquery",
+    category: null,
+    patterns: ["on disconnect"],
+    keywords: ["disconnect"],
+    since: "3.0",
+    description:
+      "Triggered on disconnect. Event-values: event-player.",
+    eventValues: ["event-player"],
+    cancellable: null,
+  },
+  {
+    name: "On Motd Request",
+    addon: "skquery",
+    category: null,
+    patterns: ["on motd request"],
+    keywords: ["motd request"],
+    since: "3.0",
+    description:
+      "Triggered on server MOTD request. Event-values: event-ip, event-motd. Can be modified. Similar to base server ping.",
+    eventValues: ["event-ip", "event-motd"],
+    cancellable: null,
+  },
+  {
+    name: "On Ping",
+    addon: "skquery",
+    category: null,
+    patterns: ["on ping"],
+    keywords: ["ping"],
+    since: "3.0",
+    description:
+      "Triggered on server ping. Event-values: event-ip, event-motd, event-version. Can be modified.",
+    eventValues: ["event-ip", "event-motd", "event-version"],
+    cancellable: null,
+  },
+  {
+    name: "On GUI Click",
+    addon: "skript-gui",
+    category: null,
+    patterns: ["on gui click"],
+    keywords: ["gui click"],
+    since: "1.0",
+    description:
+      "Triggered when a player clicks a slot in a GUI created with skript-gui. Event-values: event-gui, event-slot, event-click-type (left/right/shift/etc.), event-player, event-item, event-cursor-item. Can be cancelled. Ultra-detailed for custom menu actions, supports slot-specific logic and inventory types. Example: Check if slot is 0 and close GUI.",
+    eventValues: ["event-gui", "event-slot", "event-click-type (left/right/shift/etc.)", "event-player", "event-item", "event-cursor-item"],
+    cancellable: true,
+  },
+  {
+    name: "On GUI Open",
+    addon: "skript-gui",
+    category: null,
+    patterns: ["on gui open"],
+    keywords: ["gui open"],
+    since: "1.0",
+    description:
+      "Triggered when a player opens a GUI. Event-values: event-gui, event-player. Cannot be cancelled. Useful for dynamic GUI population or logging.",
+    eventValues: ["event-gui", "event-player"],
+    cancellable: false,
+  },
+  {
+    name: "On GUI Close",
+    addon: "skript-gui",
+    category: null,
+    patterns: ["on gui close"],
+    keywords: ["gui close"],
+    since: "1.0",
+    description:
+      "Triggered when a player closes a GUI. Event-values: event-gui, event-player. Cannot be cancelled. Ideal for saving states or cleanup.",
+    eventValues: ["event-gui", "event-player"],
+    cancellable: false,
+  },
+  {
+    name: "On GUI Slot Change",
+    addon: "skript-gui",
+    category: null,
+    patterns: ["on gui slot change"],
+    keywords: ["gui slot change"],
+    since: "1.3",
+    description:
+      "Triggered when a slot in a GUI changes (e.g., item added/removed). Event-values: event-gui, event-slot, event-old-item, event-new-item. Cannot be cancelled. Supports monitoring virtual inventories.",
+    eventValues: ["event-gui", "event-slot", "event-old-item", "event-new-item"],
+    cancellable: false,
+  },
+  {
+    name: "On YAML Load",
+    addon: "skript-yaml",
+    category: null,
+    patterns: ["on [skript-]yaml load[ing]"],
+    keywords: ["yaml load", "yaml loading", "skript-yaml load", "skript-yaml loading"],
+    since: "1.0",
+    description:
+      "Triggered when a YAML file is loaded or is loading.",
+    eventValues: [],
+    cancellable: null,
+  },
+  {
+    name: "On YAML Value Change",
+    addon: "skript-yaml",
+    category: null,
+    patterns: ["on [skript-]yaml value change"],
+    keywords: ["yaml value change", "skript-yaml value change"],
+    since: "1.0",
+    description:
+      "Triggered when a YAML value changes.",
+    eventValues: [],
+    cancellable: null,
+  },
+];
@@ -0,0 +1,46 @@
+import { EVENT_CATALOG, SkriptEventInfo } from "./eventCatalog";
+import { ADDON_NAMES } from "./addons";
+
+// Event names of the given entries, longest first so that "enchant prepare" wins over "enchant".
+export function eventKeywords(catalog: SkriptEventInfo[]): string[] {
+  return [...new Set(catalog.flatMap((e) => e.keywords))].sort((a, b) => b.length - a.length);
+}
+
+export const SKRIPT_EVENTS = eventKeywords(EVENT_CATALOG);
+
+// `test "name":` structures hold tests for the test runner rather than event handlers.
+export function testName(header: string): string | null {
+  const match = /^test\s+"(.*)"$/i.exec(header.trim());
+  return match ? match[1] : null;
+}
+
+const normalizeEvent = (event: string) => event.toLowerCase().replace(/\s+/g, " ").trim();
+
+// The catalog entry an event header (without `on`) refers to, e.g. "break of stone" -> On Break / Mine.
+export function findEvent(event: string, catalog: SkriptEventInfo[] = EVENT_CATALOG): SkriptEventInfo | null {
+  const name = normalizeEvent(event);
+  let best: SkriptEventInfo | null = null;
+  let bestLength = 0;
+  for (const info of catalog) {
+    for (const keyword of info.keywords) {
+      if ((name === keyword || name.startsWith(`${keyword} `)) && keyword.length > bestLength) {
+        best = info;
+        bestLength = keyword.length;
+      }
+    }
+  }
+  return best;
+}
+
+// Markdown used by the hover provider.
+export function formatEventDoc(info: SkriptEventInfo): string {
+  const since = info.since ? ` · since ${info.since}` : "";
+  const cancellable = info.cancellable === null ? "unknown" : info.cancellable ? "yes" : "no";
+  const values = info.eventValues.length ? info.eventValues.map((v) => `\`${v}\``).join(", ") : "none";
+  return [
+    `**${info.name}** — ${ADDON_NAMES[info.addon]}${since}`,
+    "```skript\n" + info.patterns.map((p) => `${p}:`).join("\n") + "\n```",
+    info.description,
+    `**Event values:** ${values}  \n**Cancellable:** ${cancellable}`,
+  ].join("\n\n");
+}
@@ -0,0 +1,109 @@
+import { SourceLine, SourceRange } from "./ast";
+import { findStrings, parseSkript } from "./parser";
+import { TextEdit } from "./rename";
+
+export type IndentStyle = {
+  useTabs: boolean;
+  // spaces per level when not using tabs
+  size: number;
+};
+
+export const DEFAULT_INDENT: IndentStyle = { useTabs: true, size: 4 };
+
+const indentUnit = (style: IndentStyle) => (style.useTabs ? "\t" : " ".repeat(style.size));
+
+// `% player %` -> `%player%` inside strings; `%%` escapes are left alone.
+function tidyPercents(code: string): string {
+  let out = code;
+  for (const str of findStrings(code).reverse()) {
+    if (!str.closed) continue;
+    const body = code.slice(str.start + 1, str.end - 1);
+    let tidy = "";
+    let i = 0;
+    while (i < body.length) {
+      if (body[i] !== "%") {
+        tidy += body[i++];
+        continue;
+      }
+      if (body[i + 1] === "%") {
+        tidy += "%%";
+        i += 2;
+        continue;
+      }
+      const close = body.indexOf("%", i + 1);
+      if (close === -1) {
+        tidy += body.slice(i);
+        break;
+      }
+      tidy += `%${body.slice(i + 1, close).trim()}%`;
+      i = close + 1;
+    }
+    out = out.slice(0, str.start + 1) + tidy + out.slice(str.end - 1);
+  }
+  return out;
+}
+
+function tidyCode(code: string, isEntry: boolean): string {
+  let tidy = tidyPercents(code).replace(/\s+:$/, ":");
+  // `key :value` -> `key: value` for option, command and variable entries
+  if (isEntry) tidy = tidy.replace(/^([^:{"]+?)\s*:\s*(?=\S)/, "$1: ");
+  return tidy;
+}
+
+function formatLine(line: SourceLine, depth: number, style: IndentStyle, isEntry: boolean): string {
+  if (!line.code && !line.comment) return "";
+  const indent = indentUnit(style).repeat(Math.max(depth, 0));
+  if (!line.code) return indent + line.comment!.trimEnd();
+  const code = tidyCode(line.code, isEntry);
+  if (!line.comment) return indent + code;
+  // keep the original gap before a trailing comment
+  const rest = line.raw.slice(line.indent.length);
+  const gap = rest.slice(line.code.length, rest.length - line.comment.length) || " ";
+  return indent + code + gap + line.comment.trimEnd();
+}
+
+// Every line of the source formatted: indentation re-derived from the block structure,
+// spacing tidied and comments kept where they are relative to the code around them.
+export function formatLines(source: string, style: IndentStyle): string[] {
+  const file = parseSkript(source);
+  const entries = new Set<number>();
+  for (const structure of file.structures) {
+    if (structure.kind === "options") structure.entries.forEach((e) => entries.add(e.range.startLineNumber));
+    if (structure.kind === "command") structure.entries.forEach((e) => entries.add(e.range.startLineNumber));
+  }
+
+  // comment-only lines take the depth of the code that follows them, unless they start the line
+  const depths = file.lines.map((l) => l.depth);
+  let next = 0;
+  for (let i = depths.length - 1; i >= 0; i--) {
+    const line = file.lines[i];
+    if (line.code) next = line.depth;
+    else depths[i] = line.indent ? next : 0;
+  }
+
+  return file.lines.map((line, i) => formatLine(line, depths[i], style, entries.has(line.line)));
+}
+
+export function formatSkript(source: string, style: IndentStyle): string {
+  const eol = source.includes("\r\n") ? "\r\n" : "\n";
+  return formatLines(source, style).join(eol);
+}
+
+// Whole-line edits for the lines that change, limited to `range` when given.
+export function formatEdits(source: string, style: IndentStyle, range?: SourceRange): TextEdit[] {
+  const original = source.split(/\r?\n/);
+  const formatted = formatLines(source, style);
+  const first = range ? range.startLineNumber : 1;
+  const last = range ? range.endLineNumber : original.length;
+  const edits: TextEdit[] = [];
+  for (let n = first; n <= last; n++) {
+    const before = original[n - 1];
+    const after = formatted[n - 1];
+    if (before === undefined || before === after) continue;
+    edits.push({
+      range: { startLineNumber: n, startColumn: 1, endLineNumber: n, endColumn: before.length + 1 },
+      text: after,
+    });
+  }
+  return edits;
+}
@@ -0,0 +1,38 @@
+// Short reference shown when hovering a keyword, in the order the tokenizer lists them.
+export const KEYWORD_DOCS: Record<string, string> = {
+  on: "Starts an event trigger: `on join:`",
+  every: "Periodical event that runs on a fixed interval: `every 5 minutes:`",
+  at: "Runs at a time of day in a world: `at 6:00 in world \"world\":`",
+  command: "Defines a custom command: `command /name <arguments>:` with a `trigger:` section",
+  trigger: "The section of a command that runs when the command is executed",
+  if: "Runs the indented lines only when the condition holds: `if player has permission \"x\":`",
+  else: "Runs when the preceding `if` or `else if` did not: `else:`",
+  loop: "Repeats the indented lines for every value: `loop all players:` or `loop 10 times:`",
+  set: "Changes a value: `set {coins::%uuid of player%} to 10`",
+  to: "Target of an effect: `send \"hi\" to player`, `set {x} to 1`",
+  send: "Sends a message to players or the console: `send \"&aHello\" to player`",
+  message: "Sends a message to players: `message \"&aHello\" to player`",
+  player: "The player involved in the current event or command",
+  event: "Refers to the current event, e.g. `event-player` or `cancel event`",
+  function: "Defines a function callable from any script: `function name(p: player) :: text:`",
+  return: "Ends a function and hands a value back to the caller: `return 5`",
+  stop: "Stops the current trigger, or with `stop loop` the current loop",
+  while: "Repeats the indented lines as long as the condition holds: `while {_i} < 10:`",
+  parse: "Parses text as a type: `\"5\" parsed as integer`",
+  add: "Adds to a number or list: `add 1 to {kills::%player%}`",
+  remove: "Removes from a number, list or inventory: `remove 1 from {lives::%player%}`",
+  delete: "Deletes a variable or list: `delete {cooldown::%player%}`",
+  clear: "Clears a variable, list or inventory: `clear player's inventory`",
+  wait: "Delays the rest of the trigger: `wait 2 seconds`",
+  teleport: "Teleports an entity: `teleport player to spawn of world \"world\"`",
+  kill: "Kills entities: `kill all zombies`",
+  heal: "Heals an entity: `heal player by 2 hearts`",
+  damage: "Damages an entity: `damage player by 2 hearts`",
+  broadcast: "Sends a message to every player and the console: `broadcast \"&eHello\"`",
+  execute: "Runs a command: `execute console command \"say hi\"`",
+  cancel: "Cancels the current event: `cancel event`",
+  give: "Gives items: `give player 1 diamond`",
+  take: "Removes items from an inventory: `take 1 diamond from player`",
+};
+
+export const SKRIPT_KEYWORDS = Object.keys(KEYWORD_DOCS);
@@ -0,0 +1,138 @@
+// The fake server the simulator runs scripts against: players, their inventories and the worlds they're in.
+
+export type MockItem = {
+  type: string;
+  amount: number;
+};
+
+export type MockLocation = {
+  world: string;
+  x: number;
+  y: number;
+  z: number;
+};
+
+export type GameMode = "survival" | "creative" | "adventure" | "spectator";
+
+export type MockPlayer = {
+  kind: "player";
+  name: string;
+  uuid: string;
+  online: boolean;
+  op: boolean;
+  // whether the player joined before; the first join fires `on first join` too
+  playedBefore: boolean;
+  permissions: string[];
+  displayName: string | null;
+  gamemode: GameMode;
+  // health and food level in hearts, the way Skript counts them
+  health: number;
+  food: number;
+  level: number;
+  location: MockLocation;
+  inventory: MockItem[];
+};
+
+export type MockWorld = {
+  kind: "world";
+  name: string;
+  // in ticks, 0-24000
+  time: number;
+  weather: "clear" | "rain" | "thunder";
+};
+
+export type MockServer = {
+  players: MockPlayer[];
+  worlds: MockWorld[];
+};
+
+export const MAX_HEALTH = 10;
+export const MAX_FOOD = 10;
+
+// Deterministic so that runs (and tests) give the same ids every time.
+function offlineUuid(name: string): string {
+  let hash = 0x811c9dc5;
+  const hex: string[] = [];
+  for (let i = 0; i < 16; i++) {
+    for (const c of `${name}:${i}`) hash = Math.imul(hash ^ c.charCodeAt(0), 0x01000193) >>> 0;
+    hex.push((hash & 0xff).toString(16).padStart(2, "0"));
+  }
+  const s = hex.join("");
+  return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20, 32)}`;
+}
+
+export function createMockPlayer(name: string, options: Partial<Omit<MockPlayer, "kind" | "name">> = {}): MockPlayer {
+  return {
+    kind: "player",
+    name,
+    uuid: offlineUuid(name),
+    online: false,
+    op: false,
+    playedBefore: false,
+    permissions: [],
+    displayName: null,
+    gamemode: "survival",
+    health: MAX_HEALTH,
+    food: MAX_FOOD,
+    level: 0,
+    location: { world: "world", x: 0, y: 64, z: 0 },
+    inventory: [],
+    ...options,
+  };
+}
+
+export function createMockWorld(name: string): MockWorld {
+  return { kind: "world", name, time: 6000, weather: "clear" };
+}
+
+export function createMockServer(): MockServer {
+  return {
+    players: [createMockPlayer("Steve", { op: true }), createMockPlayer("Alex")],
+    worlds: [createMockWorld("world"), createMockWorld("world_nether"), createMockWorld("world_the_end")],
+  };
+}
+
+export const onlinePlayers = (server: MockServer) => server.players.filter((p) => p.online);
+
+// A player by exact name, or by unique prefix like the server's own player lookup.
+export function findPlayer(server: MockServer, name: string): MockPlayer | null {
+  const lower = name.toLowerCase();
+  const exact = server.players.find((p) => p.name.toLowerCase() === lower);
+  if (exact) return exact;
+  const matches = onlinePlayers(server).filter((p) => p.name.toLowerCase().startsWith(lower));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+export const normalizeItemType = (type: string) => type.trim().toLowerCase().replace(/^minecraft:/, "").replace(/[\s_]+/g, " ");
+
+export function countItems(player: MockPlayer, type: string): number {
+  const wanted = normalizeItemType(type);
+  return player.inventory.filter((i) => i.type === wanted).reduce((n, i) => n + i.amount, 0);
+}
+
+export function giveItem(player: MockPlayer, item: MockItem) {
+  const type = normalizeItemType(item.type);
+  const stack = player.inventory.find((i) => i.type === type);
+  if (stack) stack.amount += item.amount;
+  else player.inventory.push({ type, amount: item.amount });
+}
+
+// Removes up to `item.amount` of the item, returning how many were removed.
+export function takeItem(player: MockPlayer, item: MockItem): number {
+  const type = normalizeItemType(item.type);
+  const stack = player.inventory.find((i) => i.type === type);
+  if (!stack) return 0;
+  const removed = Math.min(stack.amount, item.amount);
+  stack.amount -= removed;
+  if (stack.amount === 0) player.inventory = player.inventory.filter((i) => i !== stack);
+  return removed;
+}
+
+export function hasPermission(player: MockPlayer, permission: string): boolean {
+  if (player.op) return true;
+  const lower = permission.toLowerCase();
+  return player.permissions.some((p) => {
+    const granted = p.toLowerCase();
+    return granted === lower || granted === "*" || (granted.endsWith(".*") && lower.startsWith(granted.slice(0, -1)));
+  });
+}
@@ -0,0 +1,128 @@
+import { ScriptFile, SourceRange, Statement, Structure } from "./ast";
+
+export type OutlineKind =
+  | "event"
+  | "command"
+  | "function"
+  | "options"
+  | "option"
+  | "variables"
+  | "variable"
+  | "conditional"
+  | "loop"
+  | "section";
+
+export type OutlineSymbol = {
+  name: string;
+  detail: string;
+  kind: OutlineKind;
+  // the whole block, and the part to select when the symbol is picked
+  range: SourceRange;
+  selectionRange: SourceRange;
+  children: OutlineSymbol[];
+};
+
+// Only blocks show up in the outline; single-line effects are left out.
+function statementSymbols(body: Statement[]): OutlineSymbol[] {
+  const out: OutlineSymbol[] = [];
+  for (const node of body) {
+    if (node.kind === "effect") continue;
+    const name =
+      node.kind === "conditional"
+        ? `${node.branch}${node.condition ? ` ${node.condition}` : ""}`
+        : node.kind === "loop"
+          ? `${node.loopKind} ${node.expression}`
+          : node.header;
+    out.push({
+      name,
+      detail: "",
+      kind: node.kind,
+      range: node.range,
+      selectionRange: node.headerRange,
+      children: statementSymbols(node.body),
+    });
+  }
+  return out;
+}
+
+function structureSymbol(structure: Structure): OutlineSymbol | null {
+  const base = { range: structure.range, selectionRange: structure.headerRange, detail: "" };
+  switch (structure.kind) {
+    case "event":
+      return {
+        ...base,
+        name: structure.prefix ? `${structure.prefix} ${structure.event}` : structure.event,
+        kind: "event",
+        selectionRange: structure.eventRange,
+        children: statementSymbols(structure.body),
+      };
+    case "command":
+      return {
+        ...base,
+        name: `/${structure.name}`,
+        detail: structure.arguments,
+        kind: "command",
+        selectionRange: structure.nameRange,
+        children: statementSymbols(structure.trigger?.body ?? []),
+      };
+    case "function":
+      return {
+        ...base,
+        name: `${structure.name}(${structure.parameters.map((p) => `${p.name}: ${p.type}`).join(", ")})`,
+        detail: structure.returnType ?? "",
+        kind: "function",
+        selectionRange: structure.nameRange,
+        children: statementSymbols(structure.body),
+      };
+    case "options":
+      return {
+        ...base,
+        name: "options",
+        kind: "options",
+        children: structure.entries.map((e) => ({
+          name: e.key,
+          detail: e.value,
+          kind: "option",
+          range: e.range,
+          selectionRange: e.keyRange,
+          children: [],
+        })),
+      };
+    case "variables":
+      return {
+        ...base,
+        name: "variables",
+        kind: "variables",
+        children: structure.entries.map((e) => ({
+          name: e.name,
+          detail: e.value,
+          kind: "variable",
+          range: e.range,
+          selectionRange: e.nameRange,
+          children: [],
+        })),
+      };
+    default:
+      return null;
+  }
+}
+
+export function buildOutline(file: ScriptFile): OutlineSymbol[] {
+  return file.structures.map(structureSymbol).filter((s): s is OutlineSymbol => s !== null);
+}
+
+const contains = (range: SourceRange, line: number, column: number) =>
+  (line > range.startLineNumber || (line === range.startLineNumber && column >= range.startColumn)) &&
+  (line < range.endLineNumber || (line === range.endLineNumber && column <= range.endColumn));
+
+// The chain of symbols enclosing a position, outermost first.
+export function symbolPath(symbols: OutlineSymbol[], line: number, column: number): OutlineSymbol[] {
+  const path: OutlineSymbol[] = [];
+  let level = symbols;
+  for (;;) {
+    const match = level.find((s) => contains(s.range, line, column));
+    if (!match) return path;
+    path.push(match);
+    level = match.children;
+  }
+}
@@ -0,0 +1,547 @@
+import {
+  CommandEntry,
+  CommandNode,
+  ConditionalNode,
+  EventNode,
+  FunctionNode,
+  FunctionParameter,
+  LoopNode,
+  OptionEntry,
+  OptionsNode,
+  ParseError,
+  ParseErrorCode,
+  ScriptFile,
+  Severity,
+  SourceLine,
+  SourceRange,
+  Statement,
+  Structure,
+  TriggerNode,
+  VariableDefault,
+  VariablesNode,
+} from "./ast";
+
+const TAB_WIDTH = 4;
+
+export const COMMAND_ENTRY_KEYS = [
+  "trigger",
+  "permission",
+  "permission message",
+  "usage",
+  "description",
+  "aliases",
+  "executable by",
+  "prefix",
+  "cooldown",
+  "cooldown message",
+  "cooldown bypass",
+  "cooldown storage",
+];
+
+type RawBlock = {
+  line: SourceLine;
+  children: RawBlock[];
+};
+
+type Header = {
+  text: string;
+  isSection: boolean;
+};
+
+export function measureIndent(indent: string): number {
+  let width = 0;
+  for (const ch of indent) width += ch === "\t" ? TAB_WIDTH : 1;
+  return width;
+}
+
+// Index of the `#` that starts a comment, or -1. `##` is an escaped hash, and hashes inside
+// strings or `{variables}` are left alone so colour codes like "<#ff9900>" survive.
+export function findCommentStart(text: string): number {
+  let inString = false;
+  let braces = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      inString = !inString;
+    } else if (inString) {
+      continue;
+    } else if (ch === "{") {
+      braces++;
+    } else if (ch === "}") {
+      braces = Math.max(0, braces - 1);
+    } else if (ch === "#" && braces === 0) {
+      if (text[i + 1] === "#") {
+        i++;
+        continue;
+      }
+      return i;
+    }
+  }
+  return -1;
+}
+
+export type StringLiteral = {
+  // index of the opening quote within the scanned text
+  start: number;
+  // index just past the closing quote, or the end of the text when unclosed
+  end: number;
+  closed: boolean;
+};
+
+// String literals in a line of code; `""` inside a string is an escaped quote.
+export function findStrings(code: string): StringLiteral[] {
+  const strings: StringLiteral[] = [];
+  let i = 0;
+  while (i < code.length) {
+    if (code[i] !== '"') {
+      i++;
+      continue;
+    }
+    const start = i++;
+    let closed = false;
+    while (i < code.length) {
+      if (code[i] === '"') {
+        if (code[i + 1] === '"') {
+          i += 2;
+          continue;
+        }
+        closed = true;
+        i++;
+        break;
+      }
+      i++;
+    }
+    strings.push({ start, end: i, closed });
+  }
+  return strings;
+}
+
+export function splitLine(raw: string, line: number): SourceLine {
+  const indent = /^[ \t]*/.exec(raw)![0];
+  const rest = raw.slice(indent.length);
+  const commentAt = findCommentStart(rest);
+  const code = (commentAt === -1 ? rest : rest.slice(0, commentAt)).replace(/\s+$/, "");
+  return {
+    line,
+    raw,
+    indent,
+    indentWidth: measureIndent(indent),
+    code,
+    comment: commentAt === -1 ? null : rest.slice(commentAt),
+    codeStart: indent.length + 1,
+    depth: -1,
+  };
+}
+
+export function splitLines(source: string): SourceLine[] {
+  return source.split(/\r?\n/).map((raw, i) => splitLine(raw, i + 1));
+}
+
+// Range covering `length` characters of a line's code, starting at `offset` within the code.
+export function codeRange(line: SourceLine, offset = 0, length = line.code.length - offset): SourceRange {
+  const start = line.codeStart + offset;
+  return { startLineNumber: line.line, startColumn: start, endLineNumber: line.line, endColumn: start + length };
+}
+
+function lastLine(block: RawBlock): SourceLine {
+  let current = block;
+  while (current.children.length) current = current.children[current.children.length - 1];
+  return current.line;
+}
+
+function blockRange(block: RawBlock): SourceRange {
+  const end = lastLine(block);
+  return {
+    startLineNumber: block.line.line,
+    startColumn: block.line.codeStart,
+    endLineNumber: end.line,
+    endColumn: end.codeStart + end.code.length,
+  };
+}
+
+class Parser {
+  errors: ParseError[] = [];
+
+  report(code: ParseErrorCode, message: string, range: SourceRange, severity: Severity = "error") {
+    this.errors.push({ code, message, severity, range });
+  }
+
+  // Phase one: arrange code lines into an indentation tree, recovering from bad indentation
+  // by attaching the line to the closest block that is shallower than it.
+  buildTree(lines: SourceLine[]): RawBlock[] {
+    const roots: RawBlock[] = [];
+    type Frame = { children: RawBlock[]; indent: number; childIndent: number | null; depth: number };
+    const stack: Frame[] = [{ children: roots, indent: -1, childIndent: 0, depth: -1 }];
+    let indentChar: string | null = null;
+
+    for (const line of lines) {
+      if (!line.code) continue;
+
+      if (line.indent) {
+        indentChar ??= line.indent[0];
+        const other = indentChar === "\t" ? " " : "\t";
+        if (line.indent.includes(other)) {
+          this.report(
+            "mixed-indentation",
+            `Mixed tabs and spaces in indentation (this file indents with ${indentChar === "\t" ? "tabs" : "spaces"})`,
+            { startLineNumber: line.line, startColumn: 1, endLineNumber: line.line, endColumn: line.indent.length + 1 }
+          );
+        }
+      }
+
+      const width = line.indentWidth;
+      for (;;) {
+        const top = stack[stack.length - 1];
+        if (top.childIndent === null) {
+          if (width > top.indent) {
+            top.childIndent = width;
+            break;
+          }
+          stack.pop();
+          continue;
+        }
+        if (width === top.childIndent) break;
+        if (width > top.indent) {
+          this.report(
+            top.depth === -1 ? "unexpected-indent" : "inconsistent-indent",
+            top.depth === -1 ? "Unexpected indentation" : "Indentation does not match any enclosing block",
+            codeRange(line)
+          );
+          break;
+        }
+        stack.pop();
+      }
+
+      const parent = stack[stack.length - 1];
+      const block: RawBlock = { line, children: [] };
+      line.depth = parent.depth + 1;
+      parent.children.push(block);
+      stack.push({ children: block.children, indent: width, childIndent: null, depth: line.depth });
+    }
+    return roots;
+  }
+
+  header(block: RawBlock): Header {
+    const { code } = block.line;
+    if (code.endsWith(":")) return { text: code.slice(0, -1).trimEnd(), isSection: true };
+    return { text: code, isSection: block.children.length > 0 };
+  }
+
+  missingColon(block: RawBlock) {
+    const { line } = block;
+    this.report("missing-colon", "Missing `:` at the end of the section header", codeRange(line, line.code.length - 1, 1));
+  }
+
+  checkNotEmpty(block: RawBlock) {
+    if (block.children.length === 0) {
+      this.report("empty-section", "Empty section: indent the lines that belong to it", codeRange(block.line), "warning");
+    }
+  }
+
+  // Phase two: turn top-level blocks into structures.
+  structure(block: RawBlock): Structure {
+    const { line } = block;
+    const { text, isSection } = this.header(block);
+    const lower = text.toLowerCase();
+    const looksLikeStructure = /^(on|every|at|command|function)\s|^(options|variables)$/.test(lower);
+
+    if (!line.code.endsWith(":") && (isSection || looksLikeStructure)) this.missingColon(block);
+
+    if (!isSection && !looksLikeStructure) {
+      this.report(
+        "invalid-structure",
+        "Statements must be placed inside an event, command or function",
+        codeRange(line)
+      );
+      return { kind: "unknown", text, range: blockRange(block), headerRange: codeRange(line) };
+    }
+
+    if (lower === "options") return this.options(block);
+    if (lower === "variables") return this.variables(block);
+    if (/^command\s/.test(lower)) return this.command(block, text);
+    if (/^function\s/.test(lower)) return this.func(block, text);
+    return this.event(block, text);
+  }
+
+  event(block: RawBlock, text: string): EventNode {
+    const { line } = block;
+    const match = /^(on|every|at)\s+/i.exec(text);
+    const prefix = match ? (match[1].toLowerCase() as EventNode["prefix"]) : null;
+    const offset = match ? match[0].length : 0;
+    const event = text.slice(offset).trim();
+    this.checkNotEmpty(block);
+    return {
+      kind: "event",
+      prefix,
+      event,
+      eventRange: codeRange(line, offset, event.length),
+      body: this.body(block.children),
+      range: blockRange(block),
+      headerRange: codeRange(line),
+    };
+  }
+
+  command(block: RawBlock, text: string): CommandNode {
+    const { line } = block;
+    const match = /^command\s+(\/?[^\s]+)\s*(.*)$/i.exec(text)!;
+    const nameStart = text.indexOf(match[1], "command".length);
+    const node: CommandNode = {
+      kind: "command",
+      name: match[1].replace(/^\//, ""),
+      nameRange: codeRange(line, nameStart, match[1].length),
+      arguments: match[2].trim(),
+      entries: [],
+      trigger: null,
+      range: blockRange(block),
+      headerRange: codeRange(line),
+    };
+    this.checkNotEmpty(block);
+
+    for (const child of block.children) {
+      const entryLine = child.line;
+      const lower = entryLine.code.toLowerCase();
+      if (/^trigger\s*:?$/.test(lower)) {
+        if (!entryLine.code.endsWith(":")) this.missingColon(child);
+        this.checkNotEmpty(child);
+        const trigger: TriggerNode = {
+          kind: "trigger",
+          body: this.body(child.children),
+          range: blockRange(child),
+          headerRange: codeRange(entryLine),
+        };
+        node.trigger = trigger;
+        continue;
+      }
+      const entry = this.entry(child);
+      if (!entry) continue;
+      if (!COMMAND_ENTRY_KEYS.includes(entry.key.toLowerCase())) {
+        this.report("unknown-command-entry", `Unknown command entry \`${entry.key}\``, entry.keyRange, "warning");
+      }
+      node.entries.push(entry);
+    }
+    return node;
+  }
+
+  // `key: value` lines used by command entries and options
+  entry(block: RawBlock): CommandEntry | null {
+    const { line } = block;
+    const match = /^([^:]+?)\s*:\s*(.*)$/.exec(line.code);
+    if (!match) {
+      this.report("invalid-entry", "Expected an entry of the form `name: value`", codeRange(line));
+      return null;
+    }
+    if (block.children.length) {
+      this.report("unexpected-indent", "Unexpected indentation", codeRange(block.children[0].line));
+    }
+    const valueStart = line.code.length - match[2].length;
+    return {
+      key: match[1],
+      value: match[2],
+      range: codeRange(line),
+      keyRange: codeRange(line, 0, match[1].length),
+      valueRange: codeRange(line, valueStart, match[2].length),
+    };
+  }
+
+  func(block: RawBlock, text: string): FunctionNode {
+    const { line } = block;
+    const match = /^function\s+([\w]+)\s*\((.*)\)\s*(?:(?:::|returns)\s*(.+))?$/i.exec(text);
+    const node: FunctionNode = {
+      kind: "function",
+      name: "",
+      nameRange: codeRange(line),
+      parameters: [],
+      returnType: null,
+      body: this.body(block.children),
+      range: blockRange(block),
+      headerRange: codeRange(line),
+    };
+    this.checkNotEmpty(block);
+
+    if (!match) {
+      this.report("invalid-structure", "Malformed function definition, expected `function name(param: type) :: type:`", codeRange(line));
+      const name = /^function\s+([\w]+)/i.exec(text);
+      if (name) {
+        node.name = name[1];
+        node.nameRange = codeRange(line, text.indexOf(name[1], 8), name[1].length);
+      }
+      return node;
+    }
+
+    node.name = match[1];
+    node.nameRange = codeRange(line, text.indexOf(match[1], 8), match[1].length);
+    node.returnType = match[3]?.trim() || null;
+    const paramsStart = text.indexOf("(") + 1;
+    node.parameters = this.parameters(line, match[2], paramsStart);
+    return node;
+  }
+
+  parameters(line: SourceLine, list: string, offset: number): FunctionParameter[] {
+    const params: FunctionParameter[] = [];
+    let depth = 0;
+    let inString = false;
+    let start = 0;
+    const flush = (end: number) => {
+      const raw = list.slice(start, end);
+      const trimmed = raw.trim();
+      if (!trimmed) return;
+      const lead = raw.length - raw.trimStart().length;
+      const match = /^([\w]+)\s*:\s*(.+?)(?:\s*=\s*(.+))?$/.exec(trimmed);
+      const range = codeRange(line, offset + start + lead, trimmed.length);
+      if (!match) {
+        this.report("invalid-structure", "Expected a parameter of the form `name: type`", range);
+        return;
+      }
+      params.push({ name: match[1], type: match[2], defaultValue: match[3] ?? null, range });
+    };
+    for (let i = 0; i < list.length; i++) {
+      const ch = list[i];
+      if (ch === '"') inString = !inString;
+      if (inString) continue;
+      if (ch === "(" || ch === "{") depth++;
+      if (ch === ")" || ch === "}") depth--;
+      if (ch === "," && depth === 0) {
+        flush(i);
+        start = i + 1;
+      }
+    }
+    flush(list.length);
+    return params;
+  }
+
+  options(block: RawBlock): OptionsNode {
+    const entries: OptionEntry[] = [];
+    for (const child of block.children) {
+      const entry = this.entry(child);
+      if (entry) entries.push(entry);
+    }
+    return { kind: "options", entries, range: blockRange(block), headerRange: codeRange(block.line) };
+  }
+
+  variables(block: RawBlock): VariablesNode {
+    const entries: VariableDefault[] = [];
+    for (const child of block.children) {
+      const { line } = child;
+      const match = /^(\{.+\})\s*=\s*(.*)$/.exec(line.code);
+      if (!match) {
+        this.report("invalid-entry", "Expected a variable default of the form `{name} = value`", codeRange(line));
+        continue;
+      }
+      entries.push({
+        name: match[1].slice(1, -1),
+        value: match[2],
+        range: codeRange(line),
+        nameRange: codeRange(line, 0, match[1].length),
+      });
+    }
+    return { kind: "variables", entries, range: blockRange(block), headerRange: codeRange(block.line) };
+  }
+
+  body(blocks: RawBlock[]): Statement[] {
+    const out: Statement[] = [];
+    for (const block of blocks) this.statement(block, out);
+    return out;
+  }
+
+  statement(block: RawBlock, out: Statement[]) {
+    const { line } = block;
+    const { text, isSection } = this.header(block);
+    const range = blockRange(block);
+    const headerRange = codeRange(line);
+
+    const elseIf = /^else\s+if\s+(.+)$/i.exec(text);
+    const isElse = /^else$/i.test(text);
+    const ifMatch = /^if\s+(.+)$/i.exec(text);
+    const loopMatch = /^(loop|while)\s+(.+)$/i.exec(text);
+    const isControl = !!(elseIf || isElse || ifMatch || loopMatch);
+
+    if (!isSection && !isControl) {
+      out.push({ kind: "effect", text, range: headerRange, headerRange });
+      return;
+    }
+    if (!line.code.endsWith(":")) {
+      if (!isControl) {
+        // an ordinary line followed by deeper lines: keep them as siblings
+        this.report("unexpected-indent", "Unexpected indentation", codeRange(block.children[0].line));
+        out.push({ kind: "effect", text, range: headerRange, headerRange });
+        for (const child of block.children) this.statement(child, out);
+        return;
+      }
+      this.missingColon(block);
+    }
+    this.checkNotEmpty(block);
+
+    if (elseIf || isElse || ifMatch) {
+      const branch: ConditionalNode["branch"] = elseIf ? "else if" : isElse ? "else" : "if";
+      if (branch !== "if") {
+        const prev = out[out.length - 1];
+        if (!prev || prev.kind !== "conditional" || prev.branch === "else") {
+          this.report("stray-else", `\`${branch}\` without a matching \`if\``, codeRange(line, 0, branch.length));
+        }
+      }
+      const condition = (elseIf?.[1] ?? ifMatch?.[1] ?? "").trim();
+      const node: ConditionalNode = {
+        kind: "conditional",
+        branch,
+        condition,
+        conditionRange: codeRange(line, condition ? text.lastIndexOf(condition) : text.length, condition.length),
+        body: this.body(block.children),
+        range,
+        headerRange,
+      };
+      out.push(node);
+      return;
+    }
+
+    if (loopMatch) {
+      const expression = loopMatch[2].trim();
+      const node: LoopNode = {
+        kind: "loop",
+        loopKind: loopMatch[1].toLowerCase() as LoopNode["loopKind"],
+        expression,
+        expressionRange: codeRange(line, text.indexOf(expression, loopMatch[1].length), expression.length),
+        body: this.body(block.children),
+        range,
+        headerRange,
+      };
+      out.push(node);
+      return;
+    }
+
+    out.push({ kind: "section", header: text, body: this.body(block.children), range, headerRange });
+  }
+}
+
+export function parseSkript(source: string): ScriptFile {
+  const lines = splitLines(source);
+  const parser = new Parser();
+  const roots = parser.buildTree(lines);
+  const structures = roots.map((block) => parser.structure(block));
+  const last = lines[lines.length - 1];
+  return {
+    kind: "script",
+    structures,
+    lines,
+    errors: parser.errors.sort(
+      (a, b) => a.range.startLineNumber - b.range.startLineNumber || a.range.startColumn - b.range.startColumn
+    ),
+    range: { startLineNumber: 1, startColumn: 1, endLineNumber: last.line, endColumn: last.raw.length + 1 },
+  };
+}
+
+// Depth-first walk over every structure and statement in the file.
+export function walkStatements(file: ScriptFile, visit: (node: Statement, parents: (Structure | Statement)[]) => void) {
+  const walk = (nodes: Statement[], parents: (Structure | Statement)[]) => {
+    for (const node of nodes) {
+      visit(node, parents);
+      if (node.kind !== "effect") walk(node.body, [...parents, node]);
+    }
+  };
+  for (const structure of file.structures) {
+    if (structure.kind === "command") {
+      if (structure.trigger) walk(structure.trigger.body, [structure]);
+    } else if (structure.kind === "event" || structure.kind === "function") {
+      walk(structure.body, [structure]);
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { InstalledAddon, SkriptAddonId } from "./addons";
+import { EVENT_CATALOG, SkriptEventInfo } from "./eventCatalog";
+import { compareVersions } from "./versions";
+
+// What the target server runs. An undefined `addons` list means the workspace has not been
+// configured, in which case every addon is treated as installed. Without a `skriptVersion`
+// (or an addon version) every release of it is assumed.
+export type SkriptProfile = {
+  addons?: InstalledAddon[];
+  skriptVersion?: string;
+};
+
+export function isAddonEnabled(profile: SkriptProfile, id: SkriptAddonId): boolean {
+  if (id === "skript" || !profile.addons) return true;
+  return profile.addons.some((a) => a.id === id);
+}
+
+export function enabledEvents(profile: SkriptProfile): SkriptEventInfo[] {
+  return EVENT_CATALOG.filter((e) => isAddonEnabled(profile, e.addon));
+}
+
+// The version of Skript or of an addon the target server runs, if known.
+export function targetVersion(profile: SkriptProfile, id: SkriptAddonId): string | null {
+  const version = id === "skript" ? profile.skriptVersion : profile.addons?.find((a) => a.id === id)?.version;
+  return version?.trim() || null;
+}
+
+// Whether syntax added in `since` of the given addon is available on the target server.
+export function isSupported(profile: SkriptProfile, id: SkriptAddonId, since: string | null | undefined): boolean {
+  const target = targetVersion(profile, id);
+  return !target || !since || compareVersions(target, since) >= 0;
+}
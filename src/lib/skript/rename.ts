@@ -0,0 +1,162 @@
+import { ScriptFile, SourceLine, SourceRange, Structure } from "./ast";
+import { codeRange, parseSkript } from "./parser";
+import { collectSymbols, expressionCode, functionSymbolAt } from "./symbols";
+import { isSkriptFile } from "./diagnostics";
+import { FileLeaf, FileTree, listFiles } from "@/lib/fs";
+
+export type RenameKind = "function" | "option" | "variable";
+
+export type RenameTarget = {
+  kind: RenameKind;
+  // function name, option key, or the variable family: the part of a variable name before the first `::`
+  name: string;
+  // the occurrence the rename was started from
+  range: SourceRange;
+};
+
+export type TextEdit = {
+  range: SourceRange;
+  text: string;
+};
+
+export type FileRename = {
+  file: FileLeaf;
+  path: string;
+  edits: TextEdit[];
+  // the file content with the edits applied
+  content: string;
+};
+
+const OPTION_REF = /\{@([^{}]+)\}/g;
+// `{kills::%player%}` and `{kills::*}` both belong to the `kills` family; names that start with an
+// expression, like `{%player%.money}`, have no family and can't be renamed.
+const VARIABLE_FAMILY = /\{(?!@)([^{}%:]+?)(?=::|\})/g;
+
+const contains = (range: SourceRange, line: number, column: number) =>
+  range.startLineNumber <= line &&
+  line <= range.endLineNumber &&
+  (line !== range.startLineNumber || column >= range.startColumn) &&
+  (line !== range.endLineNumber || column <= range.endColumn);
+
+type NameMatch = { name: string; range: SourceRange };
+
+function matchNames(line: SourceLine, code: string, pattern: RegExp, name?: string): NameMatch[] {
+  const out: NameMatch[] = [];
+  let match: RegExpExecArray | null;
+  pattern.lastIndex = 0;
+  while ((match = pattern.exec(code))) {
+    if (name !== undefined && match[1] !== name) continue;
+    out.push({ name: match[1], range: codeRange(line, match.index + match[0].indexOf(match[1]), match[1].length) });
+  }
+  return out;
+}
+
+const optionRefs = (line: SourceLine, name?: string) => matchNames(line, line.code, OPTION_REF, name);
+const variableFamilies = (line: SourceLine, name?: string) =>
+  matchNames(line, expressionCode(line.code), VARIABLE_FAMILY, name);
+
+// What can be renamed at a position of a parsed file, if anything.
+export function renameTargetAt(file: ScriptFile, lineNumber: number, column: number): RenameTarget | null {
+  const line = file.lines[lineNumber - 1];
+  if (!line) return null;
+
+  for (const structure of file.structures) {
+    if (structure.kind !== "options") continue;
+    const entry = structure.entries.find((e) => contains(e.keyRange, lineNumber, column));
+    if (entry) return { kind: "option", name: entry.key, range: entry.keyRange };
+  }
+  const option = optionRefs(line).find((m) => contains(m.range, lineNumber, column));
+  if (option) return { kind: "option", ...option };
+  const variable = variableFamilies(line).find((m) => contains(m.range, lineNumber, column));
+  if (variable) return { kind: "variable", ...variable };
+  const fn = functionSymbolAt(line, column);
+  if (fn) return { kind: "function", ...fn };
+  return null;
+}
+
+// Why `newName` can't replace the target's name, or null if it can.
+export function validateRename(target: RenameTarget, newName: string): string | null {
+  if (!newName) return "The new name must not be empty";
+  switch (target.kind) {
+    case "function":
+      return /^[A-Za-z_]\w*$/.test(newName) ? null : "Function names may only contain letters, digits and underscores";
+    case "option":
+      return /^[^{}:@]+$/.test(newName) && newName.trim() === newName
+        ? null
+        : "Option names can't contain `{`, `}`, `:` or `@`, or start or end with spaces";
+    case "variable":
+      if (!/^[^{}%:@]+$/.test(newName)) return "Variable names can't contain `{`, `}`, `%`, `:` or `@`";
+      if (target.name.startsWith("_") !== newName.startsWith("_")) {
+        return target.name.startsWith("_")
+          ? "Local variable names must keep their leading `_`"
+          : "Global variable names can't start with `_`";
+      }
+      return null;
+  }
+}
+
+// Local variables only exist within the event, command or function that uses them.
+function enclosingStructure(file: ScriptFile, line: number): Structure | null {
+  return file.structures.find((s) => s.range.startLineNumber <= line && line <= s.range.endLineNumber) ?? null;
+}
+
+function renameEdits(file: ScriptFile, target: RenameTarget, newName: string, scope: Structure | null): TextEdit[] {
+  const rename = (range: SourceRange) => ({ range, text: newName });
+  switch (target.kind) {
+    case "function": {
+      const symbols = collectSymbols(file);
+      return [...symbols.definitions, ...symbols.calls].filter((s) => s.name === target.name).map((s) => rename(s.range));
+    }
+    case "option": {
+      const keys = file.structures.flatMap((s) =>
+        s.kind === "options" ? s.entries.filter((e) => e.key === target.name).map((e) => e.keyRange) : []
+      );
+      return [...keys, ...file.lines.flatMap((l) => optionRefs(l, target.name).map((m) => m.range))].map(rename);
+    }
+    case "variable": {
+      const lines = scope
+        ? file.lines.slice(scope.range.startLineNumber - 1, scope.range.endLineNumber)
+        : file.lines;
+      const edits = lines.flatMap((l) => variableFamilies(l, target.name).map((m) => rename(m.range)));
+      // a function's parameters are the local variables of the same name without the `_`
+      if (scope?.kind === "function") {
+        for (const p of scope.parameters) {
+          if (`_${p.name}` !== target.name) continue;
+          const range = { ...p.range, endLineNumber: p.range.startLineNumber, endColumn: p.range.startColumn + p.name.length };
+          edits.push({ range, text: newName.slice(1) });
+        }
+      }
+      return edits;
+    }
+  }
+}
+
+export function applyEdits(content: string, edits: TextEdit[]): string {
+  const lines = content.split("\n");
+  const sorted = [...edits].sort(
+    (a, b) => b.range.startLineNumber - a.range.startLineNumber || b.range.startColumn - a.range.startColumn
+  );
+  for (const { range, text } of sorted) {
+    const i = range.startLineNumber - 1;
+    const line = lines[i];
+    lines[i] = line.slice(0, range.startColumn - 1) + text + line.slice(range.endColumn - 1);
+  }
+  return lines.join("\n");
+}
+
+// Every edit needed to rename the target, started from a file of the tree. Functions and global variables
+// are renamed across the workspace, options within their file and local variables within their trigger.
+export function planRename(tree: FileTree, fileId: string, target: RenameTarget, newName: string): FileRename[] {
+  const renames: FileRename[] = [];
+  const isLocal = target.kind === "variable" && target.name.startsWith("_");
+  const fileScoped = target.kind === "option" || isLocal;
+
+  for (const { file, path } of listFiles(tree)) {
+    if (!isSkriptFile(file.name) || (fileScoped && file.id !== fileId)) continue;
+    const parsed = parseSkript(file.content);
+    const scope = isLocal ? enclosingStructure(parsed, target.range.startLineNumber) : null;
+    const edits = renameEdits(parsed, target, newName, scope);
+    if (edits.length) renames.push({ file, path, edits, content: applyEdits(file.content, edits) });
+  }
+  return renames.sort((a, b) => a.path.localeCompare(b.path));
+}
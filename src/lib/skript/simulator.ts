@@ -0,0 +1,1543 @@
+import { CommandNode, EventNode, FunctionNode, Statement } from "./ast";
+import { parseSkript } from "./parser";
+import { findEvent, testName } from "./events";
+import { isSkriptFile } from "./diagnostics";
+import {
+  GameMode,
+  MAX_FOOD,
+  MAX_HEALTH,
+  MockItem,
+  MockLocation,
+  MockPlayer,
+  MockServer,
+  MockWorld,
+  countItems,
+  createMockServer,
+  createMockWorld,
+  findPlayer,
+  giveItem,
+  hasPermission,
+  normalizeItemType,
+  onlinePlayers,
+  takeItem,
+} from "./mockServer";
+import { FileTree, listFiles } from "@/lib/fs";
+
+// A sandboxed interpreter for the everyday part of Skript: events, commands, functions, variables,
+// conditionals, loops, messages and waits, run against a mock server instead of a real one.
+
+export type SkValue = string | number | boolean | MockPlayer | MockWorld | MockItem | MockLocation;
+
+export type SimSource = {
+  fileId: string;
+  path: string;
+  line: number;
+};
+
+// What a run printed or changed. `time` is in ticks since the simulator started.
+export type SimEntry =
+  | { kind: "chat"; time: number; to: string; text: string }
+  | { kind: "broadcast"; time: number; text: string }
+  | { kind: "console"; time: number; text: string }
+  | { kind: "variable"; time: number; name: string; before: string | null; after: string | null }
+  | { kind: "info"; time: number; text: string }
+  | { kind: "error"; time: number; text: string; source?: SimSource };
+
+export type SimulatorEvent = {
+  name: string;
+  triggers: number;
+  // whether the event has a player to fire it as
+  hasPlayer: boolean;
+};
+
+export type SimulatorCommand = {
+  name: string;
+  usage: string;
+};
+
+export type SimulatorOptions = {
+  server?: MockServer;
+  // seed for `random ...` expressions and chances, so runs can be repeated
+  seed?: number;
+};
+
+// What an effect extension can do with the statement's frame.
+export type SimContext = {
+  evaluate(expression: string): SkValue[];
+  check(condition: string): boolean;
+  text(expression: string): string;
+  line: number;
+  // ends the statements with an error entry pointing at the current line
+  fail(message: string): never;
+};
+
+// Handles extra effects in statements given to `run`; returns whether it handled `effect`.
+export type EffectExtension = (effect: string, context: SimContext) => boolean;
+
+// Simulated time a run may cover before remaining waits are left for `advance`.
+export const SETTLE_TICKS = 5 * 60 * 20;
+// Statements a single action may execute; guards against endless loops.
+const MAX_STEPS = 50_000;
+// Function calls that may be nested; guards against endless recursion, which would otherwise overflow the stack.
+const MAX_CALL_DEPTH = 200;
+
+const PLAYERLESS_EVENTS = new Set(["On Script Load", "On Script Unload", "On Server Load"]);
+
+type LoadedScript = {
+  fileId: string;
+  path: string;
+  options: Map<string, string>;
+};
+
+type Trigger<T> = { script: LoadedScript; node: T };
+
+type CommandArgument = { type: string; optional: boolean; defaultValue: string | null };
+
+type LoadedCommand = Trigger<CommandNode> & {
+  arguments: CommandArgument[];
+  usage: string;
+  permission: string | null;
+  permissionMessage: string | null;
+};
+
+type EventContext = {
+  name: string;
+  player: MockPlayer | null;
+  message: string | null;
+  args: (SkValue | null)[];
+  cancelled: boolean;
+};
+
+type LoopFrame = { kind: string; value: SkValue; index: number };
+
+type Frame = {
+  script: LoadedScript;
+  event: EventContext;
+  locals: Map<string, { name: string; value: SkValue }>;
+  loops: LoopFrame[];
+  line: number;
+  returned: SkValue[] | null;
+  extension: EffectExtension | null;
+  // function calls the frame is nested in
+  depth: number;
+};
+
+type WithoutTime<T> = T extends unknown ? Omit<T, "time"> : never;
+
+type Signal = "stop" | "break" | "continue" | "return" | null;
+
+type Task = { at: number; seq: number; run: Generator<number, Signal>; frame: Frame };
+
+class SimulationError extends Error {}
+
+const fail = (message: string): never => {
+  throw new SimulationError(message);
+};
+
+// --- text helpers ---
+
+// Splits on `separator` where it isn't inside a string, variable name, parentheses or `%expression%`.
+function splitTop(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  const lower = text.toLowerCase();
+  const sep = separator.toLowerCase();
+  let depth = 0;
+  let inString = false;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"') {
+      if (inString && text[i + 1] === '"') i++;
+      else inString = !inString;
+      continue;
+    }
+    if (inString) continue;
+    if (c === "(" || c === "{") depth++;
+    else if (c === ")" || c === "}") depth--;
+    else if (depth === 0 && lower.startsWith(sep, i)) {
+      parts.push(text.slice(start, i));
+      start = i + sep.length;
+      i += sep.length - 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+// `text` split in two at the first (or last) top-level `separator`.
+function splitOnce(text: string, separator: string, last = false): [string, string] | null {
+  const parts = splitTop(text, separator);
+  if (parts.length < 2) return null;
+  return last
+    ? [parts.slice(0, -1).join(separator), parts[parts.length - 1]]
+    : [parts[0], parts.slice(1).join(separator)];
+}
+
+// Index of the bracket closing the one at `open`, skipping strings.
+function closingBracket(text: string, open: number): number {
+  const pairs: Record<string, string> = { "(": ")", "{": "}" };
+  const close = pairs[text[open]];
+  let depth = 0;
+  let inString = false;
+  for (let i = open; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"') {
+      if (inString && text[i + 1] === '"') i++;
+      else inString = !inString;
+    } else if (!inString && c === text[open]) depth++;
+    else if (!inString && c === close && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function closingQuote(text: string): number {
+  for (let i = 1; i < text.length; i++) {
+    if (text[i] !== '"') continue;
+    if (text[i + 1] === '"') i++;
+    else return i;
+  }
+  return -1;
+}
+
+// The `%` ending the expression that starts at `open`; `%`s inside `{variable names}` don't count.
+function closingPercent(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open + 1; i < text.length; i++) {
+    if (text[i] === "{") depth++;
+    else if (text[i] === "}") depth--;
+    else if (text[i] === "%" && depth <= 0) return i;
+  }
+  return -1;
+}
+
+const isStringLiteral = (text: string) => text.startsWith('"') && closingQuote(text) === text.length - 1;
+
+const stripThe = (text: string) => text.replace(/^the\s+/i, "");
+
+// --- values ---
+
+export const isPlayer = (v: unknown): v is MockPlayer => typeof v === "object" && v !== null && (v as MockPlayer).kind === "player";
+const isWorld = (v: unknown): v is MockWorld => typeof v === "object" && v !== null && (v as MockWorld).kind === "world";
+const isItem = (v: unknown): v is MockItem => typeof v === "object" && v !== null && "amount" in v && "type" in v;
+const isLocation = (v: unknown): v is MockLocation => typeof v === "object" && v !== null && "world" in v && "x" in v;
+
+const formatNumber = (n: number) => (Number.isInteger(n) ? String(n) : String(Math.round(n * 100) / 100));
+
+export function stringify(value: SkValue | null | undefined): string {
+  if (value === null || value === undefined) return "<none>";
+  if (typeof value === "number") return formatNumber(value);
+  if (typeof value === "boolean") return value ? "true" : "false";
+  if (typeof value === "string") return value;
+  if (isPlayer(value)) return value.displayName ?? value.name;
+  if (isWorld(value)) return value.name;
+  if (isItem(value)) return `${value.amount} ${value.type}`;
+  return `x: ${formatNumber(value.x)}, y: ${formatNumber(value.y)}, z: ${formatNumber(value.z)} in '${value.world}'`;
+}
+
+export function stringifyList(values: SkValue[]): string {
+  if (values.length === 0) return "<none>";
+  if (values.length === 1) return stringify(values[0]);
+  return `${values.slice(0, -1).map(stringify).join(", ")} and ${stringify(values[values.length - 1])}`;
+}
+
+// Simulated time as seconds, e.g. `12.5s`.
+export const formatTicks = (ticks: number) => `${(ticks / 20).toFixed(1)}s`;
+
+function toNumber(value: SkValue | undefined): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && /^-?\d+(\.\d+)?$/.test(value.trim())) return Number(value);
+  return null;
+}
+
+function equalValues(a: SkValue, b: SkValue): boolean {
+  if (isPlayer(a) && isPlayer(b)) return a.uuid === b.uuid;
+  if (isPlayer(a) || isPlayer(b)) {
+    const [player, other] = isPlayer(a) ? [a, b] : [b as MockPlayer, a];
+    return typeof other === "string" && other.toLowerCase() === player.name.toLowerCase();
+  }
+  if (isItem(a) && isItem(b)) return a.type === b.type;
+  if (isItem(a) || isItem(b)) {
+    const [item, other] = isItem(a) ? [a, b] : [b as MockItem, a];
+    return typeof other === "string" && normalizeItemType(other) === item.type;
+  }
+  const na = toNumber(a);
+  const nb = toNumber(b);
+  if (na !== null && nb !== null) return na === nb;
+  if (typeof a === "string" && typeof b === "string") return a.toLowerCase() === b.toLowerCase();
+  return stringify(a).toLowerCase() === stringify(b).toLowerCase();
+}
+
+const TIMESPAN_UNITS: Record<string, number> = { tick: 1, second: 20, minute: 1200, hour: 72000, day: 1728000 };
+
+function parseTimespan(text: string): number | null {
+  let ticks = 0;
+  for (const part of text.trim().split(/\s*,\s*|\s+and\s+/i)) {
+    const match = /^(\d+(?:\.\d+)?|an?|one)\s+(?:real\s+|minecraft\s+)?(tick|second|minute|hour|day)s?$/i.exec(part.trim());
+    if (!match) return null;
+    const amount = /^\d/.test(match[1]) ? Number(match[1]) : 1;
+    ticks += amount * TIMESPAN_UNITS[match[2].toLowerCase()];
+  }
+  return Math.round(ticks);
+}
+
+// mulberry32
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const GAMEMODES: GameMode[] = ["survival", "creative", "adventure", "spectator"];
+
+const COMPARISONS: { op: string; test: (order: number) => boolean }[] = [
+  { op: " is greater than or equal to ", test: (o) => o >= 0 },
+  { op: " is more than or equal to ", test: (o) => o >= 0 },
+  { op: " is less than or equal to ", test: (o) => o <= 0 },
+  { op: " is greater than ", test: (o) => o > 0 },
+  { op: " is more than ", test: (o) => o > 0 },
+  { op: " is higher than ", test: (o) => o > 0 },
+  { op: " is bigger than ", test: (o) => o > 0 },
+  { op: " is less than ", test: (o) => o < 0 },
+  { op: " is smaller than ", test: (o) => o < 0 },
+  { op: " is lower than ", test: (o) => o < 0 },
+  { op: " >= ", test: (o) => o >= 0 },
+  { op: " <= ", test: (o) => o <= 0 },
+  { op: " > ", test: (o) => o > 0 },
+  { op: " < ", test: (o) => o < 0 },
+];
+
+const EQUALITIES: { op: string; negated: boolean }[] = [
+  { op: " != ", negated: true },
+  { op: " is not ", negated: true },
+  { op: " isn't ", negated: true },
+  { op: " are not ", negated: true },
+  { op: " aren't ", negated: true },
+  { op: " = ", negated: false },
+  { op: " is ", negated: false },
+  { op: " are ", negated: false },
+];
+
+// `<player>`, `[<number=1>]`, `[<text>]`
+const ARGUMENT = /(\[)?\s*<([^>=]+)(?:=([^>]*))?>\s*\]?/g;
+
+function parseArguments(spec: string): CommandArgument[] {
+  const out: CommandArgument[] = [];
+  let match: RegExpExecArray | null;
+  ARGUMENT.lastIndex = 0;
+  while ((match = ARGUMENT.exec(spec))) {
+    out.push({ type: match[2].trim().toLowerCase(), optional: !!match[1], defaultValue: match[3]?.trim() ?? null });
+  }
+  return out;
+}
+
+export class Simulator {
+  server: MockServer;
+  time = 0;
+  log: SimEntry[] = [];
+
+  private random: () => number;
+  private globals = new Map<string, { name: string; value: SkValue }>();
+  // `variables:` defaults with expressions in their name, e.g. `{coins::%player%} = 0`
+  private defaults: { pattern: RegExp; value: SkValue }[] = [];
+  private handlers = new Map<string, Trigger<EventNode>[]>();
+  private commandList: LoadedCommand[] = [];
+  private functions = new Map<string, Trigger<FunctionNode>>();
+  private tasks: Task[] = [];
+  private seq = 0;
+  private steps = 0;
+  // ids of the script files whose code has run
+  private ran = new Set<string>();
+
+  constructor(tree: FileTree, options: SimulatorOptions = {}) {
+    this.server = options.server ?? createMockServer();
+    this.random = createRandom(options.seed ?? 1);
+    this.load(tree);
+  }
+
+  // (Re)loads the scripts of the tree, like `/sk reload all`. Server state and variables are kept.
+  load(tree: FileTree): SimEntry[] {
+    const from = this.log.length;
+    this.handlers.clear();
+    this.functions.clear();
+    this.commandList = [];
+    this.tasks = [];
+    const loads: Trigger<EventNode>[] = [];
+    const defaults: { script: LoadedScript; name: string; value: string; line: number }[] = [];
+
+    for (const { file, path } of listFiles(tree)) {
+      if (!isSkriptFile(file.name)) continue;
+      const parsed = parseSkript(file.content);
+      const script: LoadedScript = { fileId: file.id, path, options: new Map() };
+      for (const structure of parsed.structures) {
+        switch (structure.kind) {
+          case "options":
+            structure.entries.forEach((e) => script.options.set(e.key.toLowerCase(), e.value));
+            break;
+          case "variables":
+            structure.entries.forEach((e) =>
+              defaults.push({ script, name: e.name, value: e.value, line: e.range.startLineNumber })
+            );
+            break;
+          case "event": {
+            if (!structure.prefix && testName(structure.event) !== null) break;
+            const key = this.eventKey(structure);
+            const list = this.handlers.get(key) ?? [];
+            list.push({ script, node: structure });
+            this.handlers.set(key, list);
+            if (key === "On Script Load") loads.push({ script, node: structure });
+            break;
+          }
+          case "command":
+            this.commandList.push(this.loadCommand(script, structure));
+            break;
+          case "function":
+            this.functions.set(structure.name, { script, node: structure });
+            break;
+        }
+      }
+    }
+
+    this.steps = 0;
+    this.defaults = [];
+    for (const d of defaults) {
+      const frame = this.frame(d.script, this.eventContext("variables", null));
+      frame.line = d.line;
+      this.guard(frame, () => {
+        const name = this.expand(d.name, frame.script);
+        const value = this.evaluateLoose(this.expand(d.value, frame.script), frame)[0] ?? null;
+        if (value === null) return;
+        if (name.includes("%")) {
+          const pattern = name.split(/%[^%]*%/).map((p) => p.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join(".+");
+          this.defaults.push({ pattern: new RegExp(`^${pattern}$`, "i"), value });
+        } else if (!this.globals.has(name.toLowerCase())) this.setVariable(name, value);
+      });
+    }
+    this.startAll(loads, null, this.eventContext("On Script Load", null));
+    this.settle();
+    return this.log.slice(from);
+  }
+
+  get events(): SimulatorEvent[] {
+    return [...this.handlers.entries()]
+      .map(([name, triggers]) => ({ name, triggers: triggers.length, hasPlayer: !PLAYERLESS_EVENTS.has(name) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get commands(): SimulatorCommand[] {
+    return this.commandList.map((c) => ({ name: c.node.name, usage: c.usage })).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Global variables, ordered by name.
+  get variables(): { name: string; value: string }[] {
+    return [...this.globals.values()]
+      .map((v) => ({ name: v.name, value: stringify(v.value) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Ids of the script files whose code has run so far.
+  get scripts(): string[] {
+    return [...this.ran];
+  }
+
+  // Number of waits that haven't finished yet.
+  get pending(): number {
+    return this.tasks.length;
+  }
+
+  getVariable(name: string): SkValue | null {
+    return this.globals.get(name.replace(/^\{|\}$/g, "").toLowerCase())?.value ?? null;
+  }
+
+  setVariable(name: string, value: SkValue | null) {
+    const key = name.toLowerCase();
+    const before = this.globals.get(key);
+    if (value === null) this.globals.delete(key);
+    else this.globals.set(key, { name, value });
+    const after = value === null ? null : stringify(value);
+    const old = before ? stringify(before.value) : null;
+    if (old !== after) this.emit({ kind: "variable", name: `{${name}}`, before: old, after });
+  }
+
+  // Fires an event as a player. Joining marks the player online (and fires `on first join` the first
+  // time), quitting marks them offline and chat messages are shown unless the event is cancelled.
+  fireEvent(name: string, options: { player?: MockPlayer | null; message?: string } = {}): SimEntry[] {
+    const from = this.log.length;
+    const player = options.player ?? null;
+    const event = this.eventContext(name, player);
+    event.message = options.message ?? null;
+    this.steps = 0;
+    this.emit({ kind: "info", text: player ? `${name} fired as ${player.name}` : `${name} fired` });
+
+    if (name === "On Join" && player) {
+      player.online = true;
+      this.startAll(this.handlers.get("On Join") ?? [], player, event);
+      if (!player.playedBefore) this.startAll(this.handlers.get("On First Join") ?? [], player, { ...event, name: "On First Join" });
+      player.playedBefore = true;
+    } else {
+      this.startAll(this.handlers.get(name) ?? [], player, event);
+    }
+    if (name === "On Quit" && player) player.online = false;
+    if (name === "On Chat" && player && !event.cancelled) {
+      this.emit({ kind: "broadcast", text: `<${stringify(player)}> ${event.message ?? ""}` });
+    }
+    this.settle();
+    return this.log.slice(from);
+  }
+
+  // Runs a command line like `/give Steve 5` as a player, or as the console when there's no player.
+  runCommand(player: MockPlayer | null, input: string): SimEntry[] {
+    const from = this.log.length;
+    this.steps = 0;
+    this.emit({ kind: "info", text: `${player ? player.name : "Console"} ran ${input.startsWith("/") ? input : `/${input}`}` });
+    this.dispatchCommand(player, input);
+    this.settle();
+    return this.log.slice(from);
+  }
+
+  // Runs statements outside of any event, like the body of a test, waiting out their waits for up to
+  // `maxTicks`. `extension` gets the first go at each effect. Returns whether the statements ran to their end.
+  run(
+    statements: Statement[],
+    source: { fileId: string; path: string; options?: Map<string, string> },
+    extension: EffectExtension | null = null,
+    maxTicks = SETTLE_TICKS
+  ): boolean {
+    const script: LoadedScript = { fileId: source.fileId, path: source.path, options: source.options ?? new Map() };
+    const frame = this.frame(script, this.eventContext("test", null));
+    frame.extension = extension;
+    frame.line = statements[0]?.range.startLineNumber ?? 0;
+    let finished = false;
+    const run = this.then(this.block(statements, frame), () => (finished = true));
+    this.steps = 0;
+    const until = this.time + maxTicks;
+    this.resume({ at: this.time, seq: this.seq++, run, frame });
+    this.runTasks(until);
+    this.settle();
+    return finished;
+  }
+
+  // Lets simulated time pass, finishing the waits that end within it.
+  advance(ticks: number): SimEntry[] {
+    const from = this.log.length;
+    this.steps = 0;
+    const until = this.time + ticks;
+    this.runTasks(until);
+    this.time = until;
+    return this.log.slice(from);
+  }
+
+  private emit(entry: WithoutTime<SimEntry>) {
+    this.log.push({ ...entry, time: this.time } as SimEntry);
+  }
+
+  private eventKey(node: EventNode): string {
+    const info = findEvent(node.event);
+    return info?.name ?? `${node.prefix ? `${node.prefix} ` : ""}${node.event}`.toLowerCase();
+  }
+
+  private loadCommand(script: LoadedScript, node: CommandNode): LoadedCommand {
+    const entry = (key: string) => node.entries.find((e) => e.key.toLowerCase() === key)?.value ?? null;
+    const strip = (value: string | null) => (value && /^".*"$/.test(value) ? value.slice(1, -1) : value);
+    return {
+      script,
+      node,
+      arguments: parseArguments(node.arguments),
+      usage: strip(entry("usage")) ?? `/${node.name}${node.arguments ? ` ${node.arguments}` : ""}`,
+      permission: entry("permission"),
+      permissionMessage: strip(entry("permission message")),
+    };
+  }
+
+  private eventContext(name: string, player: MockPlayer | null): EventContext {
+    return { name, player, message: null, args: [], cancelled: false };
+  }
+
+  private frame(script: LoadedScript, event: EventContext): Frame {
+    return { script, event, locals: new Map(), loops: [], line: 0, returned: null, extension: null, depth: 0 };
+  }
+
+  private startAll(triggers: Trigger<EventNode>[], player: MockPlayer | null, event: EventContext) {
+    for (const { script, node } of triggers) {
+      const frame = this.frame(script, event);
+      frame.event.player = player;
+      frame.line = node.range.startLineNumber;
+      this.resume({ at: this.time, seq: this.seq++, run: this.block(node.body, frame), frame });
+    }
+  }
+
+  private dispatchCommand(player: MockPlayer | null, input: string) {
+    const [label, ...words] = input.trim().replace(/^\//, "").split(/\s+/);
+    const lower = label.toLowerCase();
+    const command = this.commandList.find(
+      (c) =>
+        c.node.name.toLowerCase() === lower ||
+        (c.node.entries.find((e) => e.key.toLowerCase() === "aliases")?.value ?? "")
+          .split(",")
+          .some((a) => a.trim().replace(/^\//, "").toLowerCase() === lower)
+    );
+    const reply = (text: string) =>
+      player ? this.emit({ kind: "chat", to: player.name, text }) : this.emit({ kind: "console", text });
+    if (!command) {
+      reply('Unknown command. Type "/help" for help.');
+      return;
+    }
+    if (player && command.permission && !hasPermission(player, command.permission)) {
+      reply(command.permissionMessage ?? "You don't have the required permission to use this command");
+      return;
+    }
+
+    const event = this.eventContext(`/${command.node.name}`, player);
+    const frame = this.frame(command.script, event);
+    frame.line = command.node.range.startLineNumber;
+    const ok = this.guard(frame, () => {
+      for (let i = 0; i < command.arguments.length; i++) {
+        const arg = command.arguments[i];
+        const last = i === command.arguments.length - 1;
+        const raw = last && /^(text|string)s?$/.test(arg.type) ? words.splice(0).join(" ") : words.shift();
+        if (!raw) {
+          if (!arg.optional) return false;
+          event.args.push(arg.defaultValue === null ? null : this.single(arg.defaultValue, frame));
+          continue;
+        }
+        const value = this.commandValue(arg.type, raw);
+        if (value === null) return false;
+        event.args.push(value);
+      }
+      return true;
+    });
+    if (!ok) {
+      if (ok === false) reply(`Usage: ${command.usage}`);
+      return;
+    }
+    if (!command.node.trigger) return;
+    this.resume({ at: this.time, seq: this.seq++, run: this.block(command.node.trigger.body, frame), frame });
+  }
+
+  private commandValue(type: string, raw: string): SkValue | null {
+    switch (type.replace(/s$/, "")) {
+      case "player":
+      case "offline player":
+        return findPlayer(this.server, raw);
+      case "number":
+        return toNumber(raw);
+      case "integer":
+      case "int": {
+        const n = toNumber(raw);
+        return n !== null && Number.isInteger(n) ? n : null;
+      }
+      case "world":
+        return this.server.worlds.find((w) => w.name.toLowerCase() === raw.toLowerCase()) ?? null;
+      case "item":
+      case "item type":
+      case "itemtype":
+        return { type: normalizeItemType(raw), amount: 1 };
+      default:
+        return raw;
+    }
+  }
+
+  // Runs `body` and reports a SimulationError as an error entry. Returns undefined when one was thrown.
+  private guard<T>(frame: Frame, body: () => T): T | undefined {
+    try {
+      return body();
+    } catch (e) {
+      if (!(e instanceof SimulationError)) throw e;
+      this.emit({
+        kind: "error",
+        text: e.message,
+        source: { fileId: frame.script.fileId, path: frame.script.path, line: frame.line },
+      });
+      return undefined;
+    }
+  }
+
+  // Runs a trigger until it waits (it's then queued) or ends.
+  private resume(task: Task) {
+    this.guard(task.frame, () => {
+      const next = task.run.next();
+      if (next.done) return;
+      this.tasks.push({ ...task, at: this.time + (next.value as number), seq: this.seq++ });
+    });
+  }
+
+  private runTasks(until: number) {
+    for (;;) {
+      this.tasks.sort((a, b) => a.at - b.at || a.seq - b.seq);
+      const task = this.tasks[0];
+      if (!task || task.at > until) break;
+      this.tasks.shift();
+      this.time = Math.max(this.time, task.at);
+      this.resume(task);
+    }
+  }
+
+  // Finishes what the last action started, within a few simulated minutes.
+  private settle() {
+    this.runTasks(this.time + SETTLE_TICKS);
+  }
+
+  private *then(run: Generator<number, Signal>, done: () => void): Generator<number, Signal> {
+    const signal = yield* run;
+    done();
+    return signal;
+  }
+
+  private step() {
+    if (++this.steps > MAX_STEPS) fail(`Stopped after ${MAX_STEPS} steps; is there a loop that never ends?`);
+  }
+
+  // --- statements ---
+
+  private *block(statements: Statement[], frame: Frame): Generator<number, Signal> {
+    this.ran.add(frame.script.fileId);
+    let matched = false;
+    for (const statement of statements) {
+      frame.line = statement.range.startLineNumber;
+      this.step();
+      let signal: Signal = null;
+      switch (statement.kind) {
+        case "effect":
+          signal = yield* this.effect(this.expand(statement.text, frame.script), frame);
+          break;
+        case "conditional":
+          if (statement.branch === "if") matched = false;
+          if (matched) break;
+          if (statement.branch === "else" || this.check(this.expand(statement.condition, frame.script), frame)) {
+            matched = true;
+            signal = yield* this.block(statement.body, frame);
+          }
+          break;
+        case "loop":
+          signal = yield* this.loop(statement.loopKind, this.expand(statement.expression, frame.script), statement.body, frame);
+          break;
+        case "section":
+          // unknown sections (`async:` and the like) just run their body
+          signal = yield* this.block(statement.body, frame);
+          break;
+      }
+      if (signal) return signal;
+    }
+    return null;
+  }
+
+  private *loop(kind: "loop" | "while", expression: string, body: Statement[], frame: Frame): Generator<number, Signal> {
+    const run = function* (this: Simulator): Generator<number, Signal> {
+      const signal = yield* this.block(body, frame);
+      return signal === "continue" ? null : signal;
+    }.bind(this);
+
+    if (kind === "while") {
+      while (this.check(expression, frame)) {
+        this.step();
+        const signal = yield* run();
+        if (signal === "break") break;
+        if (signal) return signal;
+      }
+      return null;
+    }
+
+    const times = /^(.+?)\s+times?$/i.exec(expression);
+    let values: SkValue[];
+    let loopKind: string;
+    if (times) {
+      const n = toNumber(this.single(times[1], frame) ?? undefined) ?? fail(`\`${times[1]}\` is not a number`);
+      values = Array.from({ length: Math.max(0, Math.floor(n)) }, (_, i) => i + 1);
+      loopKind = "number";
+    } else {
+      values = this.evaluate(expression, frame);
+      loopKind = /players/i.test(expression) ? "player" : "value";
+    }
+    const loop: LoopFrame = { kind: loopKind, value: values[0], index: 0 };
+    frame.loops.push(loop);
+    try {
+      for (let i = 0; i < values.length; i++) {
+        loop.value = values[i];
+        loop.index = i + 1;
+        const signal = yield* run();
+        if (signal === "break") break;
+        if (signal) return signal;
+      }
+    } finally {
+      frame.loops.pop();
+    }
+    return null;
+  }
+
+  private *effect(text: string, frame: Frame): Generator<number, Signal> {
+    let m: RegExpExecArray | null;
+
+    if (frame.extension?.(text, this.context(frame))) return null;
+
+    if ((m = /^(stop|exit)( the)?( trigger| 1 section| section)?$/i.exec(text))) return "stop";
+    if (/^(stop|exit)( the| 1)? loop$/i.test(text)) return "break";
+    if (/^continue( the)?( loop)?$/i.test(text)) return "continue";
+    if ((m = /^return(?:\s+(.+))?$/i.exec(text))) {
+      frame.returned = m[1] ? this.evaluate(m[1], frame) : [];
+      return "return";
+    }
+    if ((m = /^wait(?: for)?\s+(.+)$/i.exec(text))) {
+      const ticks = parseTimespan(m[1]) ?? fail(`\`${m[1]}\` is not a timespan like \`2 seconds\``);
+      if (ticks > 0) yield ticks;
+      return null;
+    }
+    if (/^cancel( the)? event$/i.test(text)) {
+      frame.event.cancelled = true;
+      return null;
+    }
+    if (/^uncancel( the)? event$/i.test(text)) {
+      frame.event.cancelled = false;
+      return null;
+    }
+    if ((m = /^(?:send|show)(?: the)? (title|action ?bar) (.+)$/i.exec(text))) {
+      const [what, rest] = [m[1].toLowerCase().startsWith("title") ? "Title" : "Action bar", m[2]];
+      const [message, target] = splitOnce(rest, " to ", true) ?? [rest, null];
+      const [title, subtitle] = splitOnce(message, " with subtitle ") ?? [message, null];
+      const text = subtitle ? `${this.text(title, frame)} / ${this.text(subtitle, frame)}` : this.text(title, frame);
+      this.players(target, frame).forEach((p) => this.emit({ kind: "chat", to: p.name, text: `[${what}] ${text}` }));
+      return null;
+    }
+    if ((m = /^(?:send|message)(?: the message)? (.+)$/i.exec(text))) {
+      const [message, target] = splitOnce(m[1], " to ", true) ?? [m[1], null];
+      const lines = this.evaluate(message, frame).map(stringify);
+      if (target && /^(the )?console$/i.test(target.trim())) {
+        lines.forEach((l) => this.emit({ kind: "console", text: l }));
+        return null;
+      }
+      for (const player of this.players(target, frame)) lines.forEach((l) => this.emit({ kind: "chat", to: player.name, text: l }));
+      return null;
+    }
+    if ((m = /^broadcast (.+)$/i.exec(text))) {
+      const [message] = splitOnce(m[1], " in ", true) ?? [m[1]];
+      this.evaluate(message, frame).forEach((v) => this.emit({ kind: "broadcast", text: stringify(v) }));
+      return null;
+    }
+    if ((m = /^(?:log|print) (.+)$/i.exec(text))) {
+      const [message] = splitOnce(m[1], " to ", true) ?? [m[1]];
+      this.emit({ kind: "console", text: this.text(message, frame) });
+      return null;
+    }
+    if ((m = /^(?:set|change) (.+)$/i.exec(text))) {
+      const parts = splitOnce(m[1], " to ") ?? fail("Expected `set <something> to <value>`");
+      this.assign(parts[0], this.evaluateLoose(parts[1], frame), frame);
+      return null;
+    }
+    if ((m = /^(increase|decrease) (.+?) by (.+)$/i.exec(text))) {
+      const by = this.number(m[3], frame) * (m[1].toLowerCase() === "increase" ? 1 : -1);
+      this.assign(m[2], [(this.number(m[2], frame, true) ?? 0) + by], frame);
+      return null;
+    }
+    if ((m = /^give (.+)$/i.exec(text))) {
+      const toParts = splitOnce(m[1], " to ", true);
+      const subject = /^((?:the )?player|event-player|loop-player|all players|\{[^}]*\}|arg(?:ument)?(?:[- ]\d+)?)\s+(.+)$/i.exec(m[1]);
+      const [items, target] = toParts ? [toParts[0], toParts[1]] : subject ? [subject[2], subject[1]] : fail("Expected `give <player> <items>`");
+      const stacks = this.items(items, frame);
+      this.players(target, frame).forEach((p) => stacks.forEach((s) => giveItem(p, s)));
+      return null;
+    }
+    if ((m = /^add (.+)$/i.exec(text))) {
+      const [what, target] = splitOnce(m[1], " to ", true) ?? fail("Expected `add <value> to <something>`");
+      this.add(target, this.evaluateLoose(what, frame), frame, what);
+      return null;
+    }
+    if ((m = /^(?:remove|subtract) (.+)$/i.exec(text))) {
+      const [what, target] = splitOnce(m[1], " from ", true) ?? fail("Expected `remove <value> from <something>`");
+      this.remove(target, what, frame);
+      return null;
+    }
+    if ((m = /^(?:delete|clear|reset|wipe) (.+)$/i.exec(text))) {
+      this.assign(m[1], null, frame);
+      return null;
+    }
+    if ((m = /^kill (.+)$/i.exec(text))) {
+      for (const p of this.players(m[1], frame)) {
+        p.health = 0;
+        this.emit({ kind: "info", text: `${p.name} was killed` });
+      }
+      return null;
+    }
+    if ((m = /^heal (.+?)(?: by (.+))?$/i.exec(text))) {
+      const by = m[2] ? this.number(m[2], frame) : MAX_HEALTH;
+      this.players(m[1], frame).forEach((p) => (p.health = Math.min(MAX_HEALTH, p.health + by)));
+      return null;
+    }
+    if ((m = /^feed (.+?)(?: by (.+))?$/i.exec(text))) {
+      const by = m[2] ? this.number(m[2], frame) : MAX_FOOD;
+      this.players(m[1], frame).forEach((p) => (p.food = Math.min(MAX_FOOD, p.food + by)));
+      return null;
+    }
+    if ((m = /^(op|deop) (.+)$/i.exec(text))) {
+      this.players(m[2], frame).forEach((p) => (p.op = m![1].toLowerCase() === "op"));
+      return null;
+    }
+    if ((m = /^kick (.+?)(?: (?:due to|because of|for) (.+))?$/i.exec(text))) {
+      const reason = m[2] ? this.text(m[2], frame) : null;
+      for (const p of this.players(m[1], frame)) {
+        p.online = false;
+        this.emit({ kind: "info", text: `${p.name} was kicked${reason ? `: ${reason}` : ""}` });
+      }
+      return null;
+    }
+    if ((m = /^(?:teleport|tp) (.+?) to (.+)$/i.exec(text))) {
+      const destination = this.single(m[2], frame);
+      const location = isPlayer(destination) ? destination.location : isLocation(destination) ? destination : fail(`Can't teleport to ${stringify(destination)}`);
+      for (const p of this.players(m[1], frame)) {
+        p.location = { ...location };
+        this.emit({ kind: "info", text: `${p.name} was teleported to ${stringify(location)}` });
+      }
+      return null;
+    }
+    if ((m = /^(?:make|force) (.+?) (?:execute|run)(?: the)? command (.+)$/i.exec(text))) {
+      const command = this.text(m[2], frame);
+      const subject = m[1].trim();
+      const players = /^(the )?console$/i.test(subject) ? [null] : this.players(subject, frame);
+      players.forEach((p) => this.dispatchCommand(p, command));
+      return null;
+    }
+    if ((m = /^execute (?:the )?console command (.+)$/i.exec(text))) {
+      this.dispatchCommand(null, this.text(m[1], frame));
+      return null;
+    }
+    if ((m = /^play sound (.+)$/i.exec(text))) {
+      this.emit({ kind: "info", text: `Played sound ${m[1]}` });
+      return null;
+    }
+    if (/^[A-Za-z_]\w*\(.*\)$/.test(text) && closingBracket(text, text.indexOf("(")) === text.length - 1) {
+      yield* this.call(text, frame);
+      return null;
+    }
+
+    // A condition on its own line stops the trigger when it isn't met
+    let passed: boolean | null = null;
+    try {
+      passed = this.check(text, frame);
+    } catch (e) {
+      if (!(e instanceof SimulationError)) throw e;
+    }
+    if (passed === null) fail(`The simulator doesn't support \`${text}\``);
+    return passed ? null : "stop";
+  }
+
+  // --- assignments ---
+
+  private context(frame: Frame): SimContext {
+    return {
+      evaluate: (expression) => this.evaluate(expression, frame),
+      check: (condition) => this.check(condition, frame),
+      text: (expression) => this.text(expression, frame),
+      line: frame.line,
+      fail,
+    };
+  }
+
+  private assign(targetText: string, value: SkValue[] | null, frame: Frame) {
+    const target = stripThe(targetText.trim());
+    if (/^\{.*\}$/.test(target) && closingBracket(target, 0) === target.length - 1) {
+      const name = this.variableName(target.slice(1, -1), frame);
+      if (name.endsWith("::*")) {
+        const prefix = name.slice(0, -1);
+        this.listEntries(prefix, frame).forEach((e) => this.storeVariable(e.name, null, frame));
+        (value ?? []).forEach((v, i) => this.storeVariable(`${prefix}${i + 1}`, v, frame));
+      } else {
+        this.storeVariable(name, value?.[0] ?? null, frame);
+      }
+      return;
+    }
+    if (/^(event-)?message$|^chat message$/i.test(target)) {
+      frame.event.message = value ? stringify(value[0]) : "";
+      return;
+    }
+    const property = this.propertyTarget(target);
+    if (!property) fail(`Can't change \`${targetText}\``);
+    const owners = this.evaluate(property!.owner, frame);
+    for (const owner of owners) this.setProperty(owner, property!.name, value);
+  }
+
+  private add(targetText: string, value: SkValue[], frame: Frame, raw: string) {
+    const target = stripThe(targetText.trim());
+    if (/^\{.*::\*\}$/.test(target)) {
+      const prefix = this.variableName(target.slice(1, -1), frame).slice(0, -1);
+      const used = new Set(this.listEntries(prefix, frame).map((e) => e.name.slice(prefix.length)));
+      let index = 1;
+      for (const v of value) {
+        while (used.has(String(index))) index++;
+        used.add(String(index));
+        this.storeVariable(`${prefix}${index}`, v, frame);
+      }
+      return;
+    }
+    const inventory = /^(.+?)'s? inventory$|^inventory of (.+)$/i.exec(target);
+    if (inventory) {
+      const stacks = this.items(raw, frame);
+      this.players(inventory[1] ?? inventory[2], frame).forEach((p) => stacks.forEach((s) => giveItem(p, s)));
+      return;
+    }
+    const amount = toNumber(value[0]) ?? fail(`Can't add ${stringifyList(value)} to \`${targetText}\``);
+    this.assign(target, [(this.number(target, frame, true) ?? 0) + amount], frame);
+  }
+
+  private remove(targetText: string, raw: string, frame: Frame) {
+    const target = stripThe(targetText.trim());
+    if (/^\{.*::\*\}$/.test(target)) {
+      const prefix = this.variableName(target.slice(1, -1), frame).slice(0, -1);
+      const values = this.evaluateLoose(raw, frame);
+      for (const entry of this.listEntries(prefix, frame)) {
+        if (values.some((v) => equalValues(v, entry.value))) this.storeVariable(entry.name, null, frame);
+      }
+      return;
+    }
+    const inventory = /^(.+?)(?:'s? inventory)?$|^inventory of (.+)$/i.exec(target);
+    const players = inventory ? this.playersOrNull(inventory[1] ?? inventory[2], frame) : null;
+    if (players) {
+      const stacks = this.items(raw, frame);
+      players.forEach((p) => stacks.forEach((s) => takeItem(p, s)));
+      return;
+    }
+    const amount = this.number(raw, frame);
+    this.assign(target, [(this.number(target, frame, true) ?? 0) - amount], frame);
+  }
+
+  private storeVariable(name: string, value: SkValue | null, frame: Frame) {
+    if (!name.startsWith("_")) {
+      this.setVariable(name, value);
+      return;
+    }
+    if (value === null) frame.locals.delete(name.toLowerCase());
+    else frame.locals.set(name.toLowerCase(), { name, value });
+  }
+
+  private listEntries(prefix: string, frame: Frame): { name: string; value: SkValue }[] {
+    const store = prefix.startsWith("_") ? frame.locals : this.globals;
+    const lower = prefix.toLowerCase();
+    return [...store.values()]
+      .filter((v) => v.name.toLowerCase().startsWith(lower) && !v.name.slice(prefix.length).includes("::"))
+      .sort((a, b) => {
+        const ka = a.name.slice(prefix.length);
+        const kb = b.name.slice(prefix.length);
+        const na = Number(ka);
+        const nb = Number(kb);
+        return !isNaN(na) && !isNaN(nb) ? na - nb : ka.localeCompare(kb);
+      });
+  }
+
+  // The name inside `{...}` with its `%expressions%` filled in.
+  private variableName(inner: string, frame: Frame): string {
+    return this.interpolate(inner, frame);
+  }
+
+  private readVariable(inner: string, frame: Frame): SkValue[] {
+    const name = this.variableName(inner, frame);
+    if (name.endsWith("::*")) return this.listEntries(name.slice(0, -1), frame).map((e) => e.value);
+    const store = name.startsWith("_") ? frame.locals : this.globals;
+    const entry = store.get(name.toLowerCase());
+    if (entry) return [entry.value];
+    const fallback = name.startsWith("_") ? null : this.defaults.find((d) => d.pattern.test(name));
+    return fallback ? [fallback.value] : [];
+  }
+
+  // --- properties ---
+
+  private propertyTarget(text: string): { owner: string; name: string } | null {
+    const possessive = /^(.+?)'s? ([a-z][a-z -]*)$/i.exec(text);
+    if (possessive) return { owner: possessive[1], name: possessive[2].toLowerCase() };
+    const of = /^([a-z][a-z -]*?) of (.+)$/i.exec(text);
+    if (of) return { owner: of[2], name: of[1].toLowerCase() };
+    return null;
+  }
+
+  private getProperty(owner: SkValue, name: string): SkValue[] | null {
+    if (isPlayer(owner)) {
+      switch (name) {
+        case "name":
+        case "player name":
+          return [owner.name];
+        case "display name":
+        case "nickname":
+        case "tab list name":
+          return [owner.displayName ?? owner.name];
+        case "uuid":
+          return [owner.uuid];
+        case "health":
+          return [owner.health];
+        case "max health":
+          return [MAX_HEALTH];
+        case "food level":
+        case "food":
+        case "hunger":
+        case "hunger level":
+          return [owner.food];
+        case "level":
+        case "xp level":
+        case "experience level":
+          return [owner.level];
+        case "gamemode":
+        case "game mode":
+          return [owner.gamemode];
+        case "world":
+          return [this.world(owner.location.world)];
+        case "location":
+        case "position":
+          return [owner.location];
+        case "inventory":
+          return owner.inventory.map((i) => ({ ...i }));
+      }
+    }
+    if (isWorld(owner)) {
+      if (name === "name") return [owner.name];
+      if (name === "time") return [owner.time];
+      if (name === "weather") return [owner.weather];
+    }
+    if (isItem(owner)) {
+      if (name === "amount" || name === "item amount") return [owner.amount];
+      if (name === "name" || name === "type") return [owner.type];
+    }
+    if (isLocation(owner) || isPlayer(owner)) {
+      const location = isPlayer(owner) ? owner.location : owner;
+      const axis = /^(x|y|z)[- ]?(coord(inate)?|pos(ition)?|loc(ation)?)?$/.exec(name);
+      if (axis) return [location[axis[1] as "x" | "y" | "z"]];
+      if (name === "world") return [this.world(location.world)];
+    }
+    if (typeof owner === "string" && name === "length") return [owner.length];
+    return null;
+  }
+
+  private setProperty(owner: SkValue, name: string, value: SkValue[] | null) {
+    const first = value?.[0] ?? null;
+    const number = () => toNumber(first ?? undefined) ?? fail(`${stringify(first)} is not a number`);
+    if (isPlayer(owner)) {
+      switch (name) {
+        case "display name":
+        case "nickname":
+        case "tab list name":
+          owner.displayName = first === null ? null : stringify(first);
+          return;
+        case "health":
+          owner.health = first === null ? MAX_HEALTH : Math.max(0, Math.min(MAX_HEALTH, number()));
+          return;
+        case "food level":
+        case "food":
+        case "hunger":
+        case "hunger level":
+          owner.food = first === null ? MAX_FOOD : Math.max(0, Math.min(MAX_FOOD, number()));
+          return;
+        case "level":
+        case "xp level":
+        case "experience level":
+          owner.level = first === null ? 0 : Math.max(0, Math.floor(number()));
+          return;
+        case "gamemode":
+        case "game mode": {
+          const mode = stringify(first ?? "survival").toLowerCase() as GameMode;
+          if (!GAMEMODES.includes(mode)) fail(`\`${mode}\` is not a game mode`);
+          owner.gamemode = mode;
+          return;
+        }
+        case "inventory":
+          owner.inventory = [];
+          (value ?? []).filter(isItem).forEach((i) => giveItem(owner, i));
+          return;
+        case "location":
+        case "position":
+          if (isLocation(first)) owner.location = { ...first };
+          return;
+      }
+    }
+    if (isWorld(owner)) {
+      if (name === "time") {
+        owner.time = (((first === null ? 0 : number()) % 24000) + 24000) % 24000;
+        return;
+      }
+      if (name === "weather") {
+        const weather = stringify(first ?? "clear").toLowerCase().replace(/^(sun|sunny)$/, "clear").replace(/^(storm|thunderstorm)$/, "thunder");
+        if (weather !== "clear" && weather !== "rain" && weather !== "thunder") fail(`\`${weather}\` is not a weather`);
+        owner.weather = weather as MockWorld["weather"];
+        return;
+      }
+    }
+    fail(`Can't change the ${name} of ${stringify(owner)}`);
+  }
+
+  private world(name: string): MockWorld {
+    let world = this.server.worlds.find((w) => w.name.toLowerCase() === name.toLowerCase());
+    if (!world) {
+      world = createMockWorld(name);
+      this.server.worlds.push(world);
+    }
+    return world;
+  }
+
+  // --- expressions ---
+
+  // Replaces `{@option}` references with the option values of the script.
+  private expand(text: string, script: LoadedScript): string {
+    return text.replace(/\{@([^{}]+)\}/g, (whole, key: string) => script.options.get(key.toLowerCase()) ?? whole);
+  }
+
+  // The inside of a string literal or variable name with `%expressions%` filled in.
+  private interpolate(body: string, frame: Frame): string {
+    let out = "";
+    for (let i = 0; i < body.length; i++) {
+      const c = body[i];
+      if (c === '"' && body[i + 1] === '"') {
+        out += '"';
+        i++;
+      } else if (c === "%") {
+        if (body[i + 1] === "%") {
+          out += "%";
+          i++;
+          continue;
+        }
+        const close = closingPercent(body, i);
+        if (close === -1) {
+          out += body.slice(i);
+          break;
+        }
+        out += stringifyList(this.evaluate(body.slice(i + 1, close), frame));
+        i = close;
+      } else out += c;
+    }
+    return out;
+  }
+
+  private text(expression: string, frame: Frame): string {
+    return stringifyList(this.evaluate(expression, frame));
+  }
+
+  private single(expression: string, frame: Frame): SkValue | null {
+    return this.evaluate(expression, frame)[0] ?? null;
+  }
+
+  private number(expression: string, frame: Frame, optional?: false): number;
+  private number(expression: string, frame: Frame, optional: true): number | null;
+  private number(expression: string, frame: Frame, optional = false): number | null {
+    const value = this.single(expression, frame);
+    const n = value === null ? null : toNumber(value);
+    if (n === null && !(optional && value === null)) fail(`\`${expression.trim()}\` is not a number`);
+    return n;
+  }
+
+  private players(expression: string | null, frame: Frame): MockPlayer[] {
+    if (expression === null) return frame.event.player ? [frame.event.player] : fail("There is no player to send to here");
+    return this.playersOrNull(expression, frame) ?? fail(`\`${expression.trim()}\` is not a player`);
+  }
+
+  private playersOrNull(expression: string, frame: Frame): MockPlayer[] | null {
+    let values: SkValue[];
+    try {
+      values = this.evaluate(expression, frame);
+    } catch (e) {
+      if (e instanceof SimulationError) return null;
+      throw e;
+    }
+    const players = values.map((v) => (typeof v === "string" ? findPlayer(this.server, v) : v));
+    return players.length && players.every(isPlayer) ? (players as MockPlayer[]) : null;
+  }
+
+  private items(expression: string, frame: Frame): MockItem[] {
+    const out: MockItem[] = [];
+    for (const part of splitTop(expression, ",").flatMap((p) => splitTop(p, " and "))) {
+      const text = part.trim();
+      if (!text) continue;
+      const literal = /^(?:(\d+|an?)\s+(?:of\s+)?)?([a-z][a-z _]*)$/i.exec(text);
+      if (literal && !/^(player|loop-|arg|event-)/i.test(text)) {
+        const amount = literal[1] && /^\d/.test(literal[1]) ? Number(literal[1]) : 1;
+        out.push({ type: normalizeItemType(literal[2]), amount });
+        continue;
+      }
+      for (const v of this.evaluate(text, frame)) {
+        if (isItem(v)) out.push({ ...v });
+        else if (typeof v === "string") out.push({ type: normalizeItemType(v), amount: 1 });
+        else fail(`${stringify(v)} is not an item`);
+      }
+    }
+    return out;
+  }
+
+  // Like evaluate, but a bare word it doesn't know (`creative`, `stone`) is taken as text.
+  private evaluateLoose(expression: string, frame: Frame): SkValue[] {
+    try {
+      return this.evaluate(expression, frame);
+    } catch (e) {
+      if (e instanceof SimulationError && /^[a-z][a-z _]*$/i.test(expression.trim())) return [expression.trim()];
+      throw e;
+    }
+  }
+
+  private evaluate(expression: string, frame: Frame): SkValue[] {
+    let text = expression.trim();
+    if (!text) fail("Expected an expression");
+    while (text.startsWith("(") && closingBracket(text, 0) === text.length - 1) text = text.slice(1, -1).trim();
+
+    if (isStringLiteral(text)) return [this.interpolate(text.slice(1, -1), frame)];
+    if (/^-?\d+(\.\d+)?$/.test(text)) return [Number(text)];
+    if (/^(true|yes|on)$/i.test(text)) return [true];
+    if (/^(false|no|off)$/i.test(text)) return [false];
+    if (/^(none|nothing|null)$/i.test(text)) return [];
+
+    // lists: `a, b and c`
+    const commas = splitTop(text, ",");
+    if (commas.length > 1) {
+      const last = commas.pop()!;
+      const tail = splitTop(last, " and ").length > 1 ? splitTop(last, " and ") : splitTop(last, " or ");
+      return [...commas, ...tail].flatMap((part) => this.evaluate(part, frame));
+    }
+
+    // arithmetic, loosest binding first and left to right
+    for (const ops of [[" + ", " - "], [" * ", " / "], [" ^ "]]) {
+      let best: { index: number; op: string; left: string; right: string } | null = null;
+      for (const op of ops) {
+        const split = splitOnce(text, op, true);
+        if (!split) continue;
+        const index = split[0].length;
+        if (!best || index > best.index) best = { index, op, left: split[0], right: split[1] };
+      }
+      if (best) {
+        const left = this.number(best.left, frame);
+        const right = this.number(best.right, frame);
+        switch (best.op) {
+          case " + ":
+            return [left + right];
+          case " - ":
+            return [left - right];
+          case " * ":
+            return [left * right];
+          case " / ":
+            return [right === 0 ? NaN : left / right];
+          default:
+            return [Math.pow(left, right)];
+        }
+      }
+    }
+
+    if (text.startsWith("{") && closingBracket(text, 0) === text.length - 1) return this.readVariable(text.slice(1, -1), frame);
+    if (/^[A-Za-z_]\w*\(/.test(text) && closingBracket(text, text.indexOf("(")) === text.length - 1) {
+      return this.runSync(this.call(text, frame));
+    }
+
+    const lower = stripThe(text).toLowerCase();
+    let m: RegExpExecArray | null;
+
+    if (/^(event-)?player$/.test(lower)) return frame.event.player ? [frame.event.player] : [];
+    if (/^(all|online)( of the)? players$|^all players online$|^everyone$/.test(lower)) return onlinePlayers(this.server);
+    if (/^(event-)?message$|^chat message$/.test(lower)) return frame.event.message === null ? [] : [frame.event.message];
+    if ((m = /^(?:arg|argument)(?:[- ]?(\d+))?$/.exec(lower)) || (m = /^(\d+)(?:st|nd|rd|th) arg(?:ument)?$/.exec(lower))) {
+      const value = frame.event.args[(m[1] ? Number(m[1]) : 1) - 1];
+      return value === undefined || value === null ? [] : [value];
+    }
+    if ((m = /^loop-([a-z]+)(?:-(\d+))?$/.exec(lower))) {
+      const loop = frame.loops[m[2] ? Number(m[2]) - 1 : frame.loops.length - 1] ?? fail(`\`${text}\` can only be used in a loop`);
+      if (m[1] === "index" || m[1] === "counter" || m[1] === "iteration") return [loop.index];
+      return [loop.value];
+    }
+    if ((m = /^(?:number|amount|size|count) of (.+)$/.exec(lower))) return [this.evaluate(text.slice(text.length - m[1].length), frame).length];
+    if ((m = /^random (integer|number) (?:between|from) (.+)$/.exec(lower))) {
+      const range = splitOnce(text.slice(text.length - m[2].length), " and ") ?? splitOnce(text.slice(text.length - m[2].length), " to ");
+      if (!range) fail("Expected `random integer between <number> and <number>`");
+      const [a, b] = [this.number(range![0], frame), this.number(range![1], frame)];
+      const [min, max] = a <= b ? [a, b] : [b, a];
+      return m[1] === "integer"
+        ? [Math.floor(min) + Math.floor(this.random() * (Math.floor(max) - Math.floor(min) + 1))]
+        : [min + this.random() * (max - min)];
+    }
+    if ((m = /^(?:a )?random element (?:out of|of|from) (.+)$/.exec(lower))) {
+      const values = this.evaluate(text.slice(text.length - m[1].length), frame);
+      return values.length ? [values[Math.floor(this.random() * values.length)]] : [];
+    }
+    if ((m = /^(.+) parsed as (?:an? )?(number|integer|player|text|world)$/.exec(lower))) {
+      const raw = this.text(text.slice(0, m[1].length + (text.length - lower.length)), frame);
+      const value = this.commandValue(m[2], raw);
+      return value === null ? [] : [value];
+    }
+    if ((m = /^world "(.+)"$/.exec(lower))) return [this.world(m[1])];
+    if (/^console$/.test(lower)) return ["console"];
+
+    const property = this.propertyTarget(stripThe(text));
+    if (property) {
+      const owners = this.evaluate(property.owner, frame);
+      const values = owners.map((o) => this.getProperty(o, property.name));
+      if (owners.length && values.every((v) => v !== null)) return values.flatMap((v) => v!);
+      if (owners.length) fail(`${stringifyList(owners)} has no ${property.name}`);
+    }
+    return fail(`The simulator doesn't understand \`${text}\``);
+  }
+
+  // Runs a function call used as an expression; those can't wait.
+  private runSync(run: Generator<number, SkValue[]>): SkValue[] {
+    const next = run.next();
+    if (!next.done) fail("A function used in an expression can't `wait`");
+    return next.value as SkValue[];
+  }
+
+  private *call(text: string, frame: Frame): Generator<number, SkValue[]> {
+    const open = text.indexOf("(");
+    const name = text.slice(0, open);
+    const inner = text.slice(open + 1, -1).trim();
+    const argTexts = inner ? splitTop(inner, ",") : [];
+    const args = argTexts.map((a) => this.evaluate(a, frame));
+
+    const fn = this.functions.get(name);
+    if (!fn) return this.builtin(name, args);
+
+    if (frame.depth >= MAX_CALL_DEPTH) fail(`Stopped after ${MAX_CALL_DEPTH} nested function calls; does \`${name}\` call itself without end?`);
+    const { node, script } = fn;
+    const callee = this.frame(script, this.eventContext(`function ${name}`, null));
+    callee.depth = frame.depth + 1;
+    callee.line = node.range.startLineNumber;
+    node.parameters.forEach((p, i) => {
+      let value = args[i];
+      if (value === undefined) {
+        if (p.defaultValue === null) fail(`\`${name}\` needs a value for \`${p.name}\``);
+        value = this.evaluateLoose(p.defaultValue!, frame);
+      }
+      if (p.type.trim().toLowerCase().endsWith("s") && p.type.trim().toLowerCase() !== "boss") {
+        value.forEach((v, n) => callee.locals.set(`_${p.name}::${n + 1}`.toLowerCase(), { name: `_${p.name}::${n + 1}`, value: v }));
+      } else if (value.length) {
+        callee.locals.set(`_${p.name}`.toLowerCase(), { name: `_${p.name}`, value: value[0] });
+      }
+    });
+    const saved = frame.line;
+    yield* this.block(node.body, callee);
+    frame.line = saved;
+    return callee.returned ?? [];
+  }
+
+  private builtin(name: string, args: SkValue[][]): SkValue[] {
+    const numbers = () => args.flat().map((v) => toNumber(v) ?? fail(`${stringify(v)} is not a number`));
+    switch (name.toLowerCase()) {
+      case "abs":
+        return [Math.abs(numbers()[0])];
+      case "ceil":
+      case "ceiling":
+        return [Math.ceil(numbers()[0])];
+      case "floor":
+        return [Math.floor(numbers()[0])];
+      case "round": {
+        const [n, places = 0] = numbers();
+        return [Math.round(n * 10 ** places) / 10 ** places];
+      }
+      case "sqrt":
+        return [Math.sqrt(numbers()[0])];
+      case "min":
+        return [Math.min(...numbers())];
+      case "max":
+        return [Math.max(...numbers())];
+      case "sum":
+        return [numbers().reduce((s, n) => s + n, 0)];
+      case "product":
+        return [numbers().reduce((s, n) => s * n, 1)];
+      case "mod": {
+        const [n, m] = numbers();
+        return [((n % m) + m) % m];
+      }
+      case "clamp": {
+        const [n, min, max] = numbers();
+        return [Math.min(max, Math.max(min, n))];
+      }
+      case "world":
+        return [this.world(stringify(args[0]?.[0]))];
+      case "location": {
+        const [x, y, z] = args.slice(0, 3).map((v) => toNumber(v[0]) ?? 0);
+        const world = args[3]?.[0];
+        return [{ world: world ? stringify(world) : "world", x, y, z }];
+      }
+      default:
+        return fail(`There's no function named \`${name}\``);
+    }
+  }
+
+  // --- conditions ---
+
+  private check(condition: string, frame: Frame): boolean {
+    const text = condition.trim();
+    const ors = splitTop(text, " or ");
+    if (ors.length > 1) return ors.some((part) => this.check(part, frame));
+    const ands = this.joinBetween(splitTop(text, " and "));
+    if (ands.length > 1) return ands.every((part) => this.check(part, frame));
+    if (/^(not |!)/i.test(text) && !/^not (set|online)/i.test(text)) return !this.check(text.replace(/^(not |!)/i, ""), frame);
+
+    let m: RegExpExecArray | null;
+    if ((m = /^(.+?) (?:is|are)( not|n't)? set$/i.exec(text))) return this.evaluate(m[1], frame).length > 0 === !m[2];
+    if ((m = /^(.+?) (has|have|doesn't have|does not have|don't have|do not have) (?:the )?permission (.+)$/i.exec(text))) {
+      const negated = /n't|not/.test(m[2]);
+      const permissions = this.evaluate(m[3], frame).map(stringify);
+      return this.players(m[1], frame).every((p) => permissions.every((perm) => hasPermission(p, perm))) !== negated;
+    }
+    if ((m = /^(.+?) (?:is|are)( not|n't)? (?:an? )?op(?:erator)?$/i.exec(text))) {
+      return this.players(m[1], frame).every((p) => p.op) === !m[2];
+    }
+    if ((m = /^(.+?) (?:is|are)( not|n't)? online$/i.exec(text))) {
+      return this.players(m[1], frame).every((p) => p.online) === !m[2];
+    }
+    if ((m = /^(.+?) (has|have|hasn't|has not|haven't|have not)(?: not)? played(?: on this server)? before$/i.exec(text))) {
+      return this.players(m[1], frame).every((p) => p.playedBefore) === !/n't|not/.test(m[2]);
+    }
+    if ((m = /^chance of (.+?)%?$/i.exec(text))) {
+      const chance = this.number(m[1], frame);
+      return this.random() * 100 < (m[1].trim().endsWith("%") || text.trim().endsWith("%") ? chance : chance * 100);
+    }
+    if ((m = /^(.+?) (contains?|does not contain|doesn't contain|do not contain|don't contain) (.+)$/i.exec(text))) {
+      const negated = /n't|not/.test(m[2]);
+      const haystack = this.evaluate(m[1], frame);
+      const needles = this.evaluateLoose(m[3], frame);
+      const contains = needles.every((n) =>
+        haystack.length === 1 && typeof haystack[0] === "string"
+          ? haystack[0].toLowerCase().includes(stringify(n).toLowerCase())
+          : haystack.some((h) => equalValues(h, n))
+      );
+      return contains !== negated;
+    }
+    if ((m = /^(.+?) (has|have|doesn't have|does not have|don't have|do not have) (.+)$/i.exec(text))) {
+      const negated = /n't|not/.test(m[2]);
+      const players = this.playersOrNull(m[1], frame);
+      if (players) {
+        const stacks = this.items(m[3], frame);
+        return players.every((p) => stacks.every((s) => countItems(p, s.type) >= s.amount)) !== negated;
+      }
+    }
+    if ((m = /^(.+?) (?:is|are)( not|n't)? between (.+)$/i.exec(text))) {
+      const range = splitOnce(m[3], " and ") ?? fail("Expected `between <value> and <value>`");
+      const n = this.number(m[1], frame);
+      const [a, b] = [this.number(range[0], frame), this.number(range[1], frame)];
+      return (n >= Math.min(a, b) && n <= Math.max(a, b)) === !m[2];
+    }
+
+    for (const { op, test } of COMPARISONS) {
+      const split = splitOnce(text, op);
+      if (!split) continue;
+      const left = this.number(split[0], frame);
+      const right = this.number(split[1], frame);
+      return test(left === right ? 0 : left < right ? -1 : 1);
+    }
+    for (const { op, negated } of EQUALITIES) {
+      const split = splitOnce(text, op);
+      if (!split) continue;
+      const left = this.evaluate(split[0], frame);
+      const right = this.evaluateLoose(split[1], frame);
+      const equal =
+        left.length === 0 || right.length === 0
+          ? left.length === right.length
+          : left.every((l) => right.some((r) => equalValues(l, r)));
+      return equal !== negated;
+    }
+
+    const value = this.evaluate(text, frame);
+    if (value.length === 1 && typeof value[0] === "boolean") return value[0];
+    return fail(`The simulator doesn't understand the condition \`${text}\``);
+  }
+
+  // `x is between 1 and 5 and y is set` splits on every `and`; glue the `between` ones back together.
+  private joinBetween(parts: string[]): string[] {
+    const out: string[] = [];
+    for (const part of parts) {
+      const prev = out[out.length - 1];
+      if (prev !== undefined && /\bbetween\s+[^]+$/i.test(prev) && !/ and /i.test(prev.slice(prev.search(/\bbetween\b/i)))) {
+        out[out.length - 1] = `${prev} and ${part}`;
+      } else out.push(part);
+    }
+    return out;
+  }
+}
@@ -0,0 +1,108 @@
+import { ScriptFile, SourceLine, SourceRange } from "./ast";
+import { codeRange, findStrings, parseSkript } from "./parser";
+import { isSkriptFile } from "./diagnostics";
+import { FileLeaf, FileTree, listFiles } from "@/lib/fs";
+
+export type FunctionSymbol = {
+  name: string;
+  range: SourceRange;
+};
+
+export type FileSymbols = {
+  definitions: FunctionSymbol[];
+  calls: FunctionSymbol[];
+};
+
+export type SymbolLocation = FunctionSymbol & {
+  file: FileLeaf;
+  path: string;
+};
+
+// Function definitions and call sites of every `.sk` file in the workspace, keyed by function name.
+// Skript functions are global, so a call may resolve to a definition in any file.
+export type SymbolIndex = {
+  definitions: Map<string, SymbolLocation[]>;
+  calls: Map<string, SymbolLocation[]>;
+};
+
+// Per-file results of earlier runs keyed by file id, reused while a file's content is unchanged.
+export type SymbolIndexCache = Map<string, { content: string; symbols: FileSymbols }>;
+
+const FUNCTION_HEADER = /^function\s+(\w+)\s*\(/i;
+const CALL = /(?<![\w.])([A-Za-z_]\w*)\(/g;
+
+// The line's code with string text blanked out, keeping only the `%expression%` parts of strings.
+export function expressionCode(code: string): string {
+  const chars = code.split("");
+  for (const str of findStrings(code)) {
+    let inExpression = false;
+    for (let i = str.start; i < str.end; i++) {
+      if (code[i] === "%") {
+        chars[i] = " ";
+        if (!inExpression && code[i + 1] === "%") chars[++i] = " ";
+        else inExpression = !inExpression;
+        continue;
+      }
+      if (!inExpression) chars[i] = " ";
+    }
+  }
+  return chars.join("");
+}
+
+export function findFunctionCalls(line: SourceLine): FunctionSymbol[] {
+  if (line.indentWidth === 0 && FUNCTION_HEADER.test(line.code)) return [];
+  const calls: FunctionSymbol[] = [];
+  const code = expressionCode(line.code);
+  let match: RegExpExecArray | null;
+  CALL.lastIndex = 0;
+  while ((match = CALL.exec(code))) {
+    calls.push({ name: match[1], range: codeRange(line, match.index, match[1].length) });
+  }
+  return calls;
+}
+
+// The function defined or called at a column of a line, if any.
+export function functionSymbolAt(line: SourceLine, column: number): FunctionSymbol | null {
+  const header = line.indentWidth === 0 ? FUNCTION_HEADER.exec(line.code) : null;
+  const symbols = header
+    ? [{ name: header[1], range: codeRange(line, line.code.indexOf(header[1], 8), header[1].length) }]
+    : findFunctionCalls(line);
+  return symbols.find((s) => column >= s.range.startColumn && column <= s.range.endColumn) ?? null;
+}
+
+export function collectSymbols(file: ScriptFile): FileSymbols {
+  const definitions: FunctionSymbol[] = [];
+  for (const structure of file.structures) {
+    if (structure.kind === "function" && structure.name) {
+      definitions.push({ name: structure.name, range: structure.nameRange });
+    }
+  }
+  return { definitions, calls: file.lines.flatMap(findFunctionCalls) };
+}
+
+export function buildSymbolIndex(tree: FileTree, cache?: SymbolIndexCache): SymbolIndex {
+  const index: SymbolIndex = { definitions: new Map(), calls: new Map() };
+  const add = (map: Map<string, SymbolLocation[]>, location: SymbolLocation) => {
+    const list = map.get(location.name);
+    if (list) list.push(location);
+    else map.set(location.name, [location]);
+  };
+
+  const seen = new Set<string>();
+  for (const { file, path } of listFiles(tree)) {
+    if (!isSkriptFile(file.name)) continue;
+    seen.add(file.id);
+    const cached = cache?.get(file.id);
+    let symbols = cached?.content === file.content ? cached.symbols : null;
+    if (!symbols) {
+      symbols = collectSymbols(parseSkript(file.content));
+      cache?.set(file.id, { content: file.content, symbols });
+    }
+    symbols.definitions.forEach((s) => add(index.definitions, { ...s, file, path }));
+    symbols.calls.forEach((s) => add(index.calls, { ...s, file, path }));
+  }
+  cache?.forEach((_, id) => {
+    if (!seen.has(id)) cache.delete(id);
+  });
+  return index;
+}
@@ -0,0 +1,31 @@
+import { SkriptTest, TestResult, runTest, testError } from "./testing";
+import { FileTree } from "@/lib/fs";
+
+// Runs tests off the main thread so a slow or endless test can't freeze the editor.
+
+export type TestWorkerRequest = {
+  runId: number;
+  tree: FileTree;
+  tests: SkriptTest[];
+};
+
+export type TestWorkerResponse = { runId: number; result: TestResult } | { runId: number; done: true };
+
+self.onmessage = (e: MessageEvent<TestWorkerRequest>) => {
+  const { runId, tree, tests } = e.data;
+  for (const test of tests) {
+    const started = Date.now();
+    let result: TestResult;
+    try {
+      result = runTest(tree, test);
+    } catch (error) {
+      // a bug in the simulator fails the test it hit rather than the whole run
+      const message = error instanceof Error ? error.message : String(error);
+      result = testError(test, `The test crashed the simulator: ${message}`, Date.now() - started);
+    }
+    const response: TestWorkerResponse = { runId, result };
+    postMessage(response);
+  }
+  const done: TestWorkerResponse = { runId, done: true };
+  postMessage(done);
+};
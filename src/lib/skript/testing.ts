@@ -0,0 +1,225 @@
+import { Structure } from "./ast";
+import { parseSkript } from "./parser";
+import { findEvent, testName } from "./events";
+import { isSkriptFile } from "./diagnostics";
+import { parseChatText } from "./chatFormat";
+import { MockPlayer, createMockPlayer, findPlayer } from "./mockServer";
+import { EffectExtension, SimContext, SimEntry, SimSource, Simulator, isPlayer, stringifyList } from "./simulator";
+import { FileTree, listFiles } from "@/lib/fs";
+
+// Unit tests for scripts: `test "name":` blocks, in `.sktest` files or in scripts themselves, run against
+// a fresh simulator each. Besides the usual effects a test can use:
+//
+//   create player "Herobrine"                        create op "Notch"
+//   give permission "shop.use" to "Alex"             make "Alex" say "hello"
+//   fire "join" as "Alex"                            fire "chat" as "Alex" with message "hi"
+//   run command "/pay Alex 5" as "Steve"             run command "/reload"
+//   assert {coins::Alex} is 5 [with "message"]       expect "Alex" to receive "&aYou got 5 coins"
+//   expect "Alex" not to receive "..."               expect broadcast "Welcome Alex!"
+
+export type SkriptTest = {
+  // file id and name, unique within the tree
+  id: string;
+  name: string;
+  fileId: string;
+  path: string;
+  line: number;
+};
+
+export type TestStatus = "passed" | "failed" | "error";
+
+export type TestFailure = {
+  message: string;
+  source: SimSource;
+  expected?: string;
+  actual?: string;
+};
+
+export type TestResult = {
+  testId: string;
+  status: TestStatus;
+  // failed assertions, or the errors the run hit
+  failures: TestFailure[];
+  output: SimEntry[];
+  // ids of the script files the test ran code of, for rerunning it when they change
+  scripts: string[];
+  // in milliseconds
+  duration: number;
+};
+
+// Simulated time a test may spend waiting.
+const MAX_TEST_TICKS = 60 * 60 * 20;
+const TEST_SEED = 1;
+
+export const isTestFile = (name: string) => name.endsWith(".sktest");
+
+const testNameOf = (structure: Structure) =>
+  structure.kind === "event" && !structure.prefix ? testName(structure.event) : null;
+
+function fileTests(fileId: string, path: string, content: string) {
+  const tests: { test: SkriptTest; structure: Structure }[] = [];
+  const seen = new Map<string, number>();
+  for (const structure of parseSkript(content).structures) {
+    const name = testNameOf(structure);
+    if (name === null) continue;
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    tests.push({
+      test: { id: `${fileId}:${name}${count > 1 ? `#${count}` : ""}`, name, fileId, path, line: structure.range.startLineNumber },
+      structure,
+    });
+  }
+  return tests;
+}
+
+// Every test in the tree, ordered by path.
+export function findTests(tree: FileTree): SkriptTest[] {
+  return listFiles(tree)
+    .filter(({ file }) => (isTestFile(file.name) || isSkriptFile(file.name)) && /^test\s+"/im.test(file.content))
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .flatMap(({ file, path }) => fileTests(file.id, path, file.content).map((t) => t.test));
+}
+
+// Chat text as players read it, without its formatting codes.
+const plainText = (text: string) =>
+  parseChatText(text)
+    .filter((s) => !s.code)
+    .map((s) => s.text)
+    .join("");
+
+const sameMessage = (a: string, b: string) => a === b || plainText(a) === plainText(b);
+
+const COMPARISON =
+  /^(.+?) (?:is|are|=|==) (?!not |set$|online$|an? |greater |less |more |smaller |larger |bigger |between |above |below |within |empty$|in )(.+)$/i;
+
+function testExtension(sim: Simulator, from: number, source: Omit<SimSource, "line">, failures: TestFailure[]): EffectExtension {
+  const player = (expression: string, context: SimContext): MockPlayer => {
+    const value = context.evaluate(expression)[0];
+    if (isPlayer(value)) return value;
+    const name = typeof value === "string" ? value : expression;
+    return findPlayer(sim.server, name) ?? context.fail(`There's no player named "${name}"; add one with \`create player "${name}"\``);
+  };
+  const display = (expression: string, context: SimContext) => {
+    try {
+      return stringifyList(context.evaluate(expression));
+    } catch {
+      return expression;
+    }
+  };
+  const failure = (context: SimContext, message: string, expected?: string, actual?: string) =>
+    failures.push({ message, source: { ...source, line: context.line }, expected, actual });
+  const received = (filter: (e: SimEntry) => boolean) =>
+    sim.log.slice(from).filter(filter).map((e) => (e as { text: string }).text);
+
+  return (effect, context) => {
+    let m: RegExpExecArray | null;
+
+    if ((m = /^create (?:an? )?(op|operator|player) (.+)$/i.exec(effect))) {
+      const name = context.text(m[2]);
+      const op = m[1].toLowerCase() !== "player";
+      const existing = sim.server.players.find((p) => p.name.toLowerCase() === name.toLowerCase());
+      if (existing) existing.op = existing.op || op;
+      else sim.server.players.push(createMockPlayer(name, { op }));
+      return true;
+    }
+    if ((m = /^(?:give|add) (?:the )?permission (.+?) to (.+)$/i.exec(effect))) {
+      player(m[2], context).permissions.push(context.text(m[1]));
+      return true;
+    }
+    if ((m = /^make (.+?) (?:say|chat) (.+)$/i.exec(effect))) {
+      sim.fireEvent("On Chat", { player: player(m[1], context), message: context.text(m[2]) });
+      return true;
+    }
+    if ((m = /^fire (?:the )?(.+?)(?: event)?(?: as (.+?))?(?: with (?:the )?message (.+))?$/i.exec(effect))) {
+      const written = /^".*"$/.test(m[1]) ? context.text(m[1]) : m[1];
+      const name = findEvent(written)?.name ?? context.fail(`\`${written}\` is not an event the simulator knows`);
+      sim.fireEvent(name, {
+        player: m[2] ? player(m[2], context) : null,
+        message: m[3] ? context.text(m[3]) : undefined,
+      });
+      return true;
+    }
+    if ((m = /^(?:run|execute) (?:the )?command (.+?)(?: as (.+))?$/i.exec(effect))) {
+      sim.runCommand(m[2] ? player(m[2], context) : null, context.text(m[1]));
+      return true;
+    }
+    if ((m = /^expect (.+?) (to|not to|to not) (?:receive|get|see) (?:the )?(?:message )?(.+)$/i.exec(effect))) {
+      const target = player(m[1], context);
+      const expected = context.text(m[3]);
+      const messages = received((e) => e.kind === "chat" && e.to === target.name);
+      const got = messages.some((text) => sameMessage(text, expected));
+      if (m[2].toLowerCase() === "to" && !got) {
+        failure(context, `Expected ${target.name} to receive "${plainText(expected)}"`, plainText(expected), messages.map(plainText).join("\n"));
+      } else if (m[2].toLowerCase() !== "to" && got) {
+        failure(context, `Expected ${target.name} not to receive "${plainText(expected)}"`);
+      }
+      return true;
+    }
+    if ((m = /^expect (no )?(?:a )?broadcast (?:of )?(.+)$/i.exec(effect))) {
+      const expected = context.text(m[2]);
+      const messages = received((e) => e.kind === "broadcast");
+      const got = messages.some((text) => sameMessage(text, expected));
+      if (!m[1] && !got) {
+        failure(context, `Expected a broadcast of "${plainText(expected)}"`, plainText(expected), messages.map(plainText).join("\n"));
+      } else if (m[1] && got) {
+        failure(context, `Expected no broadcast of "${plainText(expected)}"`);
+      }
+      return true;
+    }
+    if ((m = /^(?:assert|expect) (.+?)(?: with (?:the )?(?:message )?(".*"))?$/i.exec(effect))) {
+      if (context.check(m[1])) return true;
+      const message = m[2] ? context.text(m[2]) : `Expected ${m[1]}`;
+      const comparison = COMPARISON.exec(m[1]);
+      if (comparison) failure(context, message, display(comparison[2], context), display(comparison[1], context));
+      else failure(context, message);
+      return true;
+    }
+    return false;
+  };
+}
+
+// The result of a test that couldn't run to the end, with why.
+export function testError(test: SkriptTest, message: string, duration = 0): TestResult {
+  return {
+    testId: test.id,
+    status: "error",
+    failures: [{ message, source: { fileId: test.fileId, path: test.path, line: test.line } }],
+    output: [],
+    scripts: [],
+    duration,
+  };
+}
+
+// Runs one test against a fresh simulator loaded with the tree's scripts.
+export function runTest(tree: FileTree, test: SkriptTest): TestResult {
+  const started = Date.now();
+  const entry = listFiles(tree).find((e) => e.file.id === test.fileId);
+  const found = entry && fileTests(entry.file.id, entry.path, entry.file.content).find((t) => t.test.id === test.id);
+  const source = { fileId: test.fileId, path: test.path };
+  if (!entry || !found || found.structure.kind !== "event") return testError(test, `The test "${test.name}" no longer exists`);
+
+  const options = new Map<string, string>();
+  for (const structure of parseSkript(entry.file.content).structures) {
+    if (structure.kind === "options") structure.entries.forEach((e) => options.set(e.key.toLowerCase(), e.value));
+  }
+  const sim = new Simulator(tree, { seed: TEST_SEED });
+  const from = sim.log.length;
+  const failures: TestFailure[] = [];
+  const finished = sim.run(found.structure.body, { ...source, options }, testExtension(sim, from, source, failures), MAX_TEST_TICKS);
+
+  for (const e of sim.log) {
+    if (e.kind === "error") failures.push({ message: e.text, source: e.source ?? { ...source, line: test.line } });
+  }
+  const errored = sim.log.some((e) => e.kind === "error");
+  if (!finished && !errored) {
+    failures.push({ message: "The test was still waiting after an hour of simulated time", source: { ...source, line: test.line } });
+  }
+  return {
+    testId: test.id,
+    status: errored ? "error" : failures.length ? "failed" : "passed",
+    failures,
+    output: sim.log,
+    scripts: sim.scripts.filter((id) => id !== test.fileId),
+    duration: Date.now() - started,
+  };
+}
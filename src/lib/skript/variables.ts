@@ -0,0 +1,219 @@
+import { ScriptFile, SourceLine, SourceRange, Structure } from "./ast";
+import { codeRange, findStrings, parseSkript } from "./parser";
+import { Diagnostic, isSkriptFile } from "./diagnostics";
+import { FileLeaf, FileTree, listFiles } from "@/lib/fs";
+
+// One `{variable}` in a script. Variables are grouped into families by the part of their name
+// before the first `::`, with `%expression%` segments normalised, so `{coins::%player%}`,
+// `{coins::%uuid of player%}` and `{coins::*}` all belong to `coins`.
+export type VariableOccurrence = {
+  name: string;
+  family: string;
+  local: boolean;
+  write: boolean;
+  range: SourceRange;
+  // index of the structure a local variable belongs to
+  structure: number;
+};
+
+export type VariableAccess = VariableOccurrence & {
+  file: FileLeaf;
+  path: string;
+};
+
+export type VariableFamily = {
+  family: string;
+  reads: number;
+  writes: number;
+  accesses: VariableAccess[];
+  // the problem found with the family, if any
+  problem: Diagnostic["code"] | null;
+};
+
+export type VariableAnalysis = {
+  // global variable families, ordered by name
+  families: VariableFamily[];
+  diagnostics: Map<string, Diagnostic[]>;
+};
+
+// Per-file results of earlier runs keyed by file id, reused while a file's content is unchanged.
+export type VariableCache = Map<string, { content: string; occurrences: VariableOccurrence[] }>;
+
+const WRITE_BEFORE = /^(set|delete|clear|reset|increase|decrease)\s+(the\s+)?(value of\s+)?$/i;
+const WRITE_AFTER = /^(add|remove)\b.*\s(to|from)\s+$/i;
+
+const normalizeName = (name: string) => name.replace(/%[^%]*%/g, "%").toLowerCase();
+const familyOf = (name: string) => normalizeName(name).split("::")[0];
+
+// Variables in a line of code. Inside strings only `%{variable}%` counts; other braces are plain text.
+function lineVariables(line: SourceLine, structure: number, inVariables: boolean): VariableOccurrence[] {
+  const { code } = line;
+  const strings = findStrings(code);
+  const inString = (i: number) => strings.some((s) => i > s.start && i < s.end);
+  const out: VariableOccurrence[] = [];
+  const open: number[] = [];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === "{") open.push(i);
+    if (code[i] !== "}" || !open.length) continue;
+    const start = open.pop()!;
+    const name = code.slice(start + 1, i);
+    if (!name || name.startsWith("@") || (inString(start) && code[start - 1] !== "%")) continue;
+    const nested = open.length > 0;
+    const write =
+      inVariables ||
+      (!nested && (WRITE_BEFORE.test(code.slice(0, start)) || (i === code.length - 1 && WRITE_AFTER.test(code.slice(0, start)))));
+    out.push({
+      name: `{${name}}`,
+      family: familyOf(name),
+      local: name.startsWith("_"),
+      write,
+      range: codeRange(line, start, i + 1 - start),
+      structure,
+    });
+  }
+  return out;
+}
+
+const lineStructure = (structures: Structure[], line: number) =>
+  structures.findIndex((s) => s.range.startLineNumber <= line && line <= s.range.endLineNumber);
+
+export function collectVariables(file: ScriptFile): VariableOccurrence[] {
+  const out: VariableOccurrence[] = [];
+  for (const line of file.lines) {
+    if (!line.code) continue;
+    const index = lineStructure(file.structures, line.line);
+    const structure = file.structures[index];
+    // structure headers hold no variables worth tracking, but a function's parameters are locals
+    if (structure && line.line === structure.range.startLineNumber) {
+      if (structure.kind === "function") {
+        for (const p of structure.parameters) {
+          out.push({
+            name: `{_${p.name}}`,
+            family: familyOf(`_${p.name}`),
+            local: true,
+            write: true,
+            range: { ...p.range, endLineNumber: p.range.startLineNumber, endColumn: p.range.startColumn + p.name.length },
+            structure: index,
+          });
+        }
+      }
+      continue;
+    }
+    out.push(...lineVariables(line, index, structure?.kind === "variables"));
+  }
+  return out;
+}
+
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function groupFamilies(accesses: VariableAccess[]): VariableFamily[] {
+  const families = new Map<string, VariableFamily>();
+  for (const access of accesses) {
+    let family = families.get(access.family);
+    if (!family) {
+      family = { family: access.family, reads: 0, writes: 0, accesses: [], problem: null };
+      families.set(access.family, family);
+    }
+    family.accesses.push(access);
+    if (access.write) family.writes++;
+    else family.reads++;
+  }
+  return [...families.values()].sort((a, b) => a.family.localeCompare(b.family));
+}
+
+// A family that is only read or only written, close to the name of a family used more often.
+function likelyTypoOf(family: VariableFamily, families: VariableFamily[]): VariableFamily | null {
+  if ((family.reads && family.writes) || family.family.replace(/^_/, "").length < 4) return null;
+  const max = family.family.length <= 6 ? 1 : 2;
+  let best: VariableFamily | null = null;
+  for (const other of families) {
+    if (other === family || other.accesses.length <= family.accesses.length) continue;
+    if (editDistance(family.family, other.family, max) > max) continue;
+    if (!best || other.accesses.length > best.accesses.length) best = other;
+  }
+  return best;
+}
+
+function report(families: VariableFamily[], where: string, out: Map<string, Diagnostic[]>) {
+  const push = (access: VariableAccess, diagnostic: Omit<Diagnostic, "range">) => {
+    const list = out.get(access.file.id) ?? [];
+    list.push({ ...diagnostic, range: access.range });
+    out.set(access.file.id, list);
+  };
+  for (const family of families) {
+    const typoOf = likelyTypoOf(family, families);
+    if (typoOf) {
+      family.problem = "variable-typo";
+      family.accesses.forEach((a) =>
+        push(a, {
+          code: "variable-typo",
+          message: `\`${a.name}\` is only ${family.reads ? "read" : "set"} ${where}; did you mean \`${typoOf.family}\`, which is used ${typoOf.accesses.length} times?`,
+          severity: "warning",
+        })
+      );
+    } else if (!family.writes) {
+      family.problem = "variable-never-set";
+      family.accesses.forEach((a) =>
+        push(a, { code: "variable-never-set", message: `\`${a.name}\` is read but never set ${where}`, severity: "warning" })
+      );
+    } else if (!family.reads) {
+      family.problem = "variable-never-read";
+      family.accesses.forEach((a) =>
+        push(a, { code: "variable-never-read", message: `\`${a.name}\` is set but never read ${where}`, severity: "info" })
+      );
+    }
+  }
+}
+
+// Reads and writes of every variable in the workspace. Global variables are checked across all files,
+// local ones within the event, command or function they appear in.
+export function analyzeVariables(tree: FileTree, cache?: VariableCache): VariableAnalysis {
+  const globals: VariableAccess[] = [];
+  const locals = new Map<string, VariableAccess[]>();
+  const seen = new Set<string>();
+
+  for (const { file, path } of listFiles(tree)) {
+    if (!isSkriptFile(file.name)) continue;
+    seen.add(file.id);
+    const cached = cache?.get(file.id);
+    let occurrences = cached?.content === file.content ? cached.occurrences : null;
+    if (!occurrences) {
+      occurrences = collectVariables(parseSkript(file.content));
+      cache?.set(file.id, { content: file.content, occurrences });
+    }
+    for (const o of occurrences) {
+      const access = { ...o, file, path };
+      if (!o.local) {
+        globals.push(access);
+        continue;
+      }
+      const key = `${file.id}:${o.structure}`;
+      const list = locals.get(key);
+      if (list) list.push(access);
+      else locals.set(key, [access]);
+    }
+  }
+  cache?.forEach((_, id) => {
+    if (!seen.has(id)) cache.delete(id);
+  });
+
+  const diagnostics = new Map<string, Diagnostic[]>();
+  const families = groupFamilies(globals);
+  report(families, "in the workspace", diagnostics);
+  locals.forEach((accesses) => report(groupFamilies(accesses), "in this trigger", diagnostics));
+  return { families, diagnostics };
+}
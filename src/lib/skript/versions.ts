@@ -0,0 +1,51 @@
+// Release versions as recorded in the docs: "2.6", "2.2-dev36", "3.0.0", ...
+type ParsedVersion = { numbers: number[]; pre: string; preNumber: number };
+
+function parseVersion(version: string): ParsedVersion | null {
+  const match = /^v?(\d+(?:\.\d+)*)(?:-?([a-z]+)\.?(\d*))?/i.exec(version.trim());
+  if (!match) return null;
+  return {
+    numbers: match[1].split(".").map(Number),
+    pre: (match[2] ?? "").toLowerCase(),
+    preNumber: match[3] ? Number(match[3]) : 0,
+  };
+}
+
+// Negative if `a` is older than `b`. Pre-releases (dev, beta, ...) sort before the release itself,
+// and anything unparseable compares as equal so that it never produces a warning.
+export function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+  if (!va || !vb) return 0;
+  for (let i = 0; i < Math.max(va.numbers.length, vb.numbers.length); i++) {
+    const diff = (va.numbers[i] ?? 0) - (vb.numbers[i] ?? 0);
+    if (diff) return diff;
+  }
+  if (va.pre !== vb.pre) {
+    if (!va.pre) return 1;
+    if (!vb.pre) return -1;
+    return va.pre < vb.pre ? -1 : 1;
+  }
+  return va.preNumber - vb.preNumber;
+}
+
+export const isValidVersion = (version: string) => parseVersion(version) !== null;
+
+export type SkriptConstruct = {
+  name: string;
+  since: string;
+  // matched against the header text of structures or of trigger lines
+  scope: "structure" | "statement";
+  pattern: RegExp;
+};
+
+// Base Skript syntax that older releases reject.
+export const SKRIPT_CONSTRUCTS: SkriptConstruct[] = [
+  { name: "Function definition", since: "2.2", scope: "structure", pattern: /^function\s/i },
+  { name: "`else if`", since: "2.2-dev36", scope: "statement", pattern: /^else\s+if\s/i },
+  { name: "`continue`", since: "2.2-dev37", scope: "statement", pattern: /^continue( this loop)?$/i },
+];
+
+export function findConstruct(text: string, scope: SkriptConstruct["scope"]): SkriptConstruct | null {
+  return SKRIPT_CONSTRUCTS.find((c) => c.scope === scope && c.pattern.test(text.trim())) ?? null;
+}
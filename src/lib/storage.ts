@@ -0,0 +1,234 @@
+import { Workspace, WorkspaceManager } from "@/types/workspace";
+import { FileNode, FileTree, FolderNode, NodeType, findNode, findParentAndIndex, isFolder } from "./fs";
+import { FileSnapshot } from "./history";
+import { TrashItem } from "./trash";
+import { createDefaultWorkspace } from "./workspace";
+
+// Workspaces are stored as one record each, without their files, and their trees as one record per
+// file or folder, so that an edit only rewrites the file it touched. Trash items are records of their own.
+export type StoredWorkspace = Omit<Workspace, "tree" | "trash">;
+
+export type StoredNode = {
+  workspaceId: string;
+  id: string;
+  // null for the root folder
+  parentId: string | null;
+  // position among its siblings
+  index: number;
+  name: string;
+  type: NodeType;
+  content?: string;
+};
+
+export type StoredTrashItem = TrashItem & { workspaceId: string };
+
+export type StorageSnapshot = {
+  workspaces: StoredWorkspace[];
+  nodes: StoredNode[];
+  trash: StoredTrashItem[];
+  activeWorkspaceId: string | null;
+};
+
+export type StorageChanges = {
+  workspaces: StoredWorkspace[];
+  // their nodes, trash and history go with them
+  deletedWorkspaces: string[];
+  nodes: StoredNode[];
+  deletedNodes: { workspaceId: string; id: string }[];
+  trash: StoredTrashItem[];
+  deletedTrash: { workspaceId: string; id: string }[];
+  // undefined when unchanged
+  activeWorkspaceId?: string | null;
+};
+
+export interface StorageAdapter {
+  // everything stored, or null when nothing is yet
+  load(): Promise<StorageSnapshot | null>;
+  // applies the changes all at once, or not at all; rejects with a StorageQuotaError when the
+  // browser's storage is full
+  write(changes: StorageChanges): Promise<void>;
+  // a file's snapshots, newest first
+  loadHistory(workspaceId: string, fileId: string): Promise<FileSnapshot[]>;
+  writeHistory(added: FileSnapshot[], deletedIds: string[]): Promise<void>;
+}
+
+export class StorageQuotaError extends Error {}
+
+function storedNode(workspaceId: string, node: FileNode, parentId: string | null, index: number): StoredNode {
+  const stored: StoredNode = { workspaceId, id: node.id, parentId, index, name: node.name, type: node.type };
+  if (!isFolder(node)) stored.content = node.content;
+  return stored;
+}
+
+function flattenNodes(node: FileNode, visit: (node: FileNode, parentId: string | null, index: number) => void) {
+  const walk = (n: FileNode, parentId: string | null, index: number) => {
+    visit(n, parentId, index);
+    if (isFolder(n)) n.children.forEach((child, i) => walk(child, n.id, i));
+  };
+  walk(node, null, 0);
+}
+
+const sameFields = (a: FileNode, b: FileNode) =>
+  a.name === b.name && a.type === b.type && (isFolder(a) || isFolder(b) || a.content === b.content);
+
+// The nodes to write and delete to go from one tree to the next. Since tree updates copy only the
+// folders on the way to what they change, subtrees found in both trees at the same place are skipped
+// without looking inside, and an edit costs about as much as the depth of the file it touched.
+function diffTrees(workspaceId: string, previous: FileTree | undefined, next: FileTree) {
+  const nodes: StoredNode[] = [];
+  const deleted: string[] = [];
+  if (!previous) {
+    flattenNodes(next, (node, parentId, index) => nodes.push(storedNode(workspaceId, node, parentId, index)));
+    return { nodes, deleted };
+  }
+  // children that left a changed folder; they are gone unless they moved elsewhere
+  const removed: FileNode[] = [];
+  function walk(node: FileNode, parentId: string | null, index: number) {
+    const before = parentId === null ? (previous.id === node.id ? previous : null) : findNode(previous, node.id);
+    const place = before && parentId !== null ? findParentAndIndex(previous, node.id) : null;
+    const samePlace = !!before && (parentId === null || (place?.parent.id === parentId && place.index === index));
+    if (before === node && samePlace) return;
+    if (!before || !samePlace || !sameFields(before, node)) nodes.push(storedNode(workspaceId, node, parentId, index));
+    if (!isFolder(node)) return;
+    node.children.forEach((child, i) => walk(child, node.id, i));
+    if (before && isFolder(before) && before.children !== node.children) {
+      const kept = new Set(node.children.map((c) => c.id));
+      removed.push(...before.children.filter((c) => !kept.has(c.id)));
+    }
+  }
+  walk(next, null, 0);
+  if (previous.id !== next.id) removed.push(previous);
+  for (const subtree of removed) {
+    flattenNodes(subtree, (node) => {
+      if (!findNode(next, node.id)) deleted.push(node.id);
+    });
+  }
+  return { nodes, deleted };
+}
+
+const withoutTree = ({ tree, trash, ...workspace }: Workspace): StoredWorkspace => workspace;
+
+// What to write to go from one state to the next. Workspaces and trees are compared by reference
+// first, since the manager's updates copy only what they change.
+export function planChanges(previous: WorkspaceManager | null, next: WorkspaceManager): StorageChanges {
+  const changes: StorageChanges = { workspaces: [], deletedWorkspaces: [], nodes: [], deletedNodes: [], trash: [], deletedTrash: [] };
+  const before = new Map(previous?.workspaces.map((ws) => [ws.id, ws]));
+
+  for (const workspace of next.workspaces) {
+    const old = before.get(workspace.id);
+    before.delete(workspace.id);
+    if (old === workspace) continue;
+    changes.workspaces.push(withoutTree(workspace));
+    if (old?.trash !== workspace.trash) {
+      // items don't change once in the trash
+      const oldItems = new Set(old?.trash?.map((t) => t.id));
+      const items = new Set(workspace.trash?.map((t) => t.id));
+      for (const item of workspace.trash ?? []) {
+        if (!oldItems.has(item.id)) changes.trash.push({ ...item, workspaceId: workspace.id });
+      }
+      for (const id of oldItems) if (!items.has(id)) changes.deletedTrash.push({ workspaceId: workspace.id, id });
+    }
+    if (old?.tree === workspace.tree) continue;
+    const { nodes, deleted } = diffTrees(workspace.id, old?.tree, workspace.tree);
+    for (const node of nodes) changes.nodes.push(node);
+    for (const id of deleted) changes.deletedNodes.push({ workspaceId: workspace.id, id });
+  }
+  changes.deletedWorkspaces = [...before.keys()];
+  if (previous?.activeWorkspaceId !== next.activeWorkspaceId) changes.activeWorkspaceId = next.activeWorkspaceId;
+  return changes;
+}
+
+export const isEmptyChange = (changes: StorageChanges) =>
+  changes.workspaces.length === 0 &&
+  changes.deletedWorkspaces.length === 0 &&
+  changes.nodes.length === 0 &&
+  changes.deletedNodes.length === 0 &&
+  changes.trash.length === 0 &&
+  changes.deletedTrash.length === 0 &&
+  changes.activeWorkspaceId === undefined;
+
+// Puts the workspaces' trees back together. Workspaces whose root went missing are dropped.
+export function buildManager(snapshot: StorageSnapshot): WorkspaceManager {
+  const children = new Map<string, StoredNode[]>();
+  const roots = new Map<string, StoredNode>();
+  for (const node of snapshot.nodes) {
+    if (node.parentId === null) {
+      roots.set(node.workspaceId, node);
+      continue;
+    }
+    const key = `${node.workspaceId}/${node.parentId}`;
+    children.set(key, [...(children.get(key) ?? []), node]);
+  }
+  function build(node: StoredNode): FileNode {
+    if (node.type === "file") return { id: node.id, name: node.name, type: "file", content: node.content ?? "" };
+    const nodes = (children.get(`${node.workspaceId}/${node.id}`) ?? []).sort((a, b) => a.index - b.index);
+    return { id: node.id, name: node.name, type: "folder", children: nodes.map(build) };
+  }
+
+  const trash = new Map<string, TrashItem[]>();
+  for (const { workspaceId, ...item } of snapshot.trash) trash.set(workspaceId, [...(trash.get(workspaceId) ?? []), item]);
+
+  const workspaces = snapshot.workspaces
+    .filter((ws) => roots.has(ws.id))
+    .map((ws) => ({
+      ...ws,
+      tree: build(roots.get(ws.id)!) as FolderNode,
+      trash: (trash.get(ws.id) ?? []).sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()),
+    }));
+  const active = workspaces.some((ws) => ws.id === snapshot.activeWorkspaceId) ? snapshot.activeWorkspaceId : workspaces[0]?.id ?? null;
+  return { workspaces, activeWorkspaceId: active };
+}
+
+// Where workspaces were kept in localStorage before, as one JSON document, and the single tree before that.
+const LEGACY_WORKSPACES_KEY = "skriptpanda-workspaces";
+const LEGACY_TREE_KEY = "skriptpanda.fs";
+
+function readLegacyStorage(): WorkspaceManager | null {
+  try {
+    const raw = localStorage.getItem(LEGACY_WORKSPACES_KEY);
+    if (raw) {
+      const manager = JSON.parse(raw) as WorkspaceManager;
+      if (manager.workspaces?.length > 0) {
+        return {
+          ...manager,
+          workspaces: manager.workspaces.map((ws) => ({
+            ...ws,
+            createdAt: new Date(ws.createdAt),
+            lastAccessed: new Date(ws.lastAccessed),
+          })),
+        };
+      }
+    }
+    const tree = localStorage.getItem(LEGACY_TREE_KEY);
+    if (tree) {
+      const workspace = { ...createDefaultWorkspace(), tree: JSON.parse(tree) as FileTree };
+      return { workspaces: [workspace], activeWorkspaceId: workspace.id };
+    }
+  } catch {
+    // unreadable leftovers are ignored, like they were before
+  }
+  return null;
+}
+
+const defaultManager = (): WorkspaceManager => {
+  const workspace = createDefaultWorkspace();
+  return { workspaces: [workspace], activeWorkspaceId: workspace.id };
+};
+
+// Loads the workspaces. The first time, they are moved over from localStorage, or a default workspace
+// is created when there are none.
+export async function loadWorkspaceManager(adapter: StorageAdapter): Promise<WorkspaceManager> {
+  const snapshot = await adapter.load();
+  if (snapshot) {
+    const manager = buildManager(snapshot);
+    if (manager.workspaces.length > 0) return manager;
+  }
+  const manager = readLegacyStorage() ?? defaultManager();
+  await adapter.write(planChanges(null, manager));
+  localStorage.removeItem(LEGACY_WORKSPACES_KEY);
+  localStorage.removeItem(LEGACY_TREE_KEY);
+  return manager;
+}
+
+// The workspaces as a fallback when the adapter can't be used; changes to them won't be kept.
+export const loadUnsavedWorkspaceManager = (): WorkspaceManager => readLegacyStorage() ?? defaultManager();
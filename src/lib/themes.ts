@@ -0,0 +1,19 @@
+export const THEMES = [
+  { key: "sp-dark", label: "SkriptPanda Dark", dark: true },
+  { key: "sp-light", label: "SkriptPanda Light", dark: false },
+  { key: "dracula", label: "Dracula", dark: true },
+  { key: "solarized", label: "Solarized Light", dark: false },
+];
+
+export const THEME_STORAGE_KEY = "skriptpanda.theme";
+
+export const savedTheme = () => localStorage.getItem(THEME_STORAGE_KEY) || THEMES[0].key;
+
+// Sets the theme's classes on the page and remembers it for the next visit.
+export function applyTheme(key: string) {
+  const t = THEMES.find((t) => t.key === key) || THEMES[0];
+  document.body.classList.remove(...THEMES.map((t) => `theme-${t.key}`), "dark");
+  document.body.classList.add(`theme-${t.key}`);
+  if (t.dark) document.body.classList.add("dark");
+  localStorage.setItem(THEME_STORAGE_KEY, t.key);
+}
@@ -0,0 +1,86 @@
+import { FileNode, FileTree, FolderNode, addChild, createFolder, findChild, findNode, findParentAndIndex, isFolder, nodePath, removeNode } from "./fs";
+
+// A deleted file or folder, along with where it was so that it can be put back.
+export type TrashItem = {
+  id: string;
+  node: FileNode;
+  parentId: string;
+  // path of the parent folder, to recreate it if it's gone by the time the item is restored
+  parentPath: string;
+  // position among the parent's children
+  index: number;
+  deletedAt: Date;
+};
+
+// Items older than this many days are purged; 0 keeps them until the trash is emptied.
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Moves a node from the tree to the trash, newest first.
+export function moveToTrash(tree: FileTree, trash: TrashItem[], id: string, now = new Date()): { tree: FileTree; trash: TrashItem[] } {
+  const found = findParentAndIndex(tree, id);
+  if (!found) return { tree, trash };
+  const item: TrashItem = {
+    id: crypto.randomUUID(),
+    node: found.parent.children[found.index],
+    parentId: found.parent.id,
+    parentPath: nodePath(tree, found.parent.id) ?? "",
+    index: found.index,
+    deletedAt: now,
+  };
+  return { tree: removeNode(tree, id), trash: [item, ...trash] };
+}
+
+// Adds the node to the folder. A folder merges into a folder of the same name that is already there,
+// e.g. one recreated to restore a file that was in it; files whose name is taken get a new one and
+// nodes already back in the tree are left out. Returns
+// the id of the folder or file the node ended up as.
+function place(tree: FileTree, folder: FolderNode, node: FileNode, index?: number): { tree: FileTree; id: string } {
+  // restored already, from an item of its own
+  if (findNode(tree, node.id)) return { tree, id: node.id };
+  const existing = findChild(folder, node.name);
+  if (!existing || !isFolder(existing) || !isFolder(node)) return { tree: addChild(tree, folder.id, node, index), id: node.id };
+  let next = tree;
+  for (const child of node.children) next = place(next, findNode(next, existing.id) as FolderNode, child).tree;
+  return { tree: next, id: existing.id };
+}
+
+// Puts an item back where it was. Missing parent folders are recreated.
+export function restoreFromTrash(tree: FileTree, trash: TrashItem[], itemId: string): { tree: FileTree; trash: TrashItem[]; path: string } | null {
+  const item = trash.find((t) => t.id === itemId);
+  if (!item) return null;
+  const rest = trash.filter((t) => t !== item);
+  const parent = findNode(tree, item.parentId);
+  let placed: { tree: FileTree; id: string };
+  if (parent && isFolder(parent)) {
+    placed = place(tree, parent, item.node, Math.min(item.index, parent.children.length));
+  } else {
+    // walks down the parent's old path as far as it still exists, and recreates the rest around the node
+    const names = item.parentPath.split("/").filter(Boolean);
+    let folder: FolderNode = tree;
+    while (names.length > 0) {
+      const existing = findChild(folder, names[0]);
+      if (!existing || !isFolder(existing)) break;
+      folder = existing;
+      names.shift();
+    }
+    const node = names.reduceRight((child: FileNode, name) => createFolder(name, [child]), item.node);
+    placed = place(tree, folder, node);
+    placed = { tree: placed.tree, id: names.length > 0 ? item.node.id : placed.id };
+  }
+  return { tree: placed.tree, trash: rest, path: nodePath(placed.tree, placed.id) ?? item.node.name };
+}
+
+// The items to keep once those older than the retention are purged.
+export function purgeTrash(trash: TrashItem[], retentionDays: number, now = new Date()): TrashItem[] {
+  if (retentionDays <= 0) return trash;
+  const oldest = now.getTime() - retentionDays * DAY_MS;
+  const kept = trash.filter((t) => t.deletedAt.getTime() >= oldest);
+  return kept.length === trash.length ? trash : kept;
+}
+
+// Number of files in an item, counting those inside a folder.
+export function countFiles(node: FileNode): number {
+  return isFolder(node) ? node.children.reduce((n, c) => n + countFiles(c), 0) : 1;
+}
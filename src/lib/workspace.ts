@@ -1,44 +1,9 @@
 import { Workspace, WorkspaceManager } from "@/types/workspace";
 import { DEFAULT_TREE, FileTree } from "./fs";
+import { TrashItem } from "./trash";
 
-const WORKSPACE_STORAGE_KEY = "skriptpanda-workspaces";
-const ACTIVE_WORKSPACE_KEY = "skriptpanda-active-workspace";
-
-export const saveWorkspaces = (manager: WorkspaceManager) => {
-  localStorage.setItem(WORKSPACE_STORAGE_KEY, JSON.stringify(manager));
-};
-
-export const loadWorkspaces = (): WorkspaceManager => {
-  try {
-    const raw = localStorage.getItem(WORKSPACE_STORAGE_KEY);
-    if (!raw) {
-      const defaultWorkspace = createDefaultWorkspace();
-      const manager = {
-        workspaces: [defaultWorkspace],
-        activeWorkspaceId: defaultWorkspace.id
-      };
-      saveWorkspaces(manager);
-      return manager;
-    }
-    const manager = JSON.parse(raw) as WorkspaceManager;
-    // Convert date strings back to Date objects
-    manager.workspaces = manager.workspaces.map(ws => ({
-      ...ws,
-      createdAt: new Date(ws.createdAt),
-      lastAccessed: new Date(ws.lastAccessed)
-    }));
-    return manager;
-  } catch {
-    const defaultWorkspace = createDefaultWorkspace();
-    const manager = {
-      workspaces: [defaultWorkspace],
-      activeWorkspaceId: defaultWorkspace.id
-    };
-    saveWorkspaces(manager);
-    return manager;
-  }
-};
-
+// Updates to the workspace manager return new objects, copying only the workspaces they change; the
+// storage adapter writes what changed.
 export const createWorkspace = (name: string, description?: string): Workspace => {
   return {
     id: crypto.randomUUID(),
@@ -63,7 +28,33 @@ export const updateWorkspaceTree = (manager: WorkspaceManager, workspaceId: stri
         : ws
     )
   };
-  saveWorkspaces(updated);
+  return updated;
+};
+
+export type WorkspaceTarget = Pick<Workspace, "addons" | "skriptVersion">;
+export type WorkspaceSettings = Partial<WorkspaceTarget & Pick<Workspace, "indentation" | "formatOnSave" | "exportProfiles" | "historyRetention" | "trashRetentionDays">>;
+
+export const updateWorkspaceSettings = (manager: WorkspaceManager, workspaceId: string, settings: WorkspaceSettings): WorkspaceManager => {
+  const updated = {
+    ...manager,
+    workspaces: manager.workspaces.map(ws =>
+      ws.id === workspaceId
+        ? { ...ws, ...settings }
+        : ws
+    )
+  };
+  return updated;
+};
+
+export const updateWorkspaceTrash = (manager: WorkspaceManager, workspaceId: string, trash: TrashItem[]): WorkspaceManager => {
+  const updated = {
+    ...manager,
+    workspaces: manager.workspaces.map(ws =>
+      ws.id === workspaceId
+        ? { ...ws, trash }
+        : ws
+    )
+  };
   return updated;
 };
 
@@ -72,7 +63,6 @@ export const addWorkspace = (manager: WorkspaceManager, workspace: Workspace): W
     ...manager,
     workspaces: [...manager.workspaces, workspace]
   };
-  saveWorkspaces(updated);
   return updated;
 };
 
@@ -88,7 +78,6 @@ export const deleteWorkspace = (manager: WorkspaceManager, workspaceId: string):
       ? manager.workspaces.find(ws => ws.id !== workspaceId)?.id || null
       : manager.activeWorkspaceId
   };
-  saveWorkspaces(updated);
   return updated;
 };
 
@@ -102,6 +91,5 @@ export const switchWorkspace = (manager: WorkspaceManager, workspaceId: string):
         : ws
     )
   };
-  saveWorkspaces(updated);
   return updated;
 };
\ No newline at end of file
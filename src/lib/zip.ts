@@ -1,6 +1,7 @@
 import JSZip from "jszip";
 import { saveAs } from "file-saver";
-import { FileNode, FileTree, isFolder, isFile } from "./fs";
+import { FileNode, FileTree, ImportedFile, isFolder, isFile, validateName } from "./fs";
+import type { FolderHandle } from "./localFolder";
 
 function addNodeToZip(zip: JSZip, node: FileNode, path: string = "") {
   if (isFolder(node)) {
@@ -18,3 +19,194 @@ export async function exportTreeAsZip(tree: FileTree, filename = "skriptpanda.zi
   const blob = await zip.generateAsync({ type: "blob" });
   saveAs(blob, filename);
 }
+
+export async function exportFilesAsZip(files: { path: string; content: string }[], filename: string) {
+  const zip = new JSZip();
+  files.forEach((f) => zip.file(f.path, f.content));
+  const blob = await zip.generateAsync({ type: "blob" });
+  saveAs(blob, filename);
+}
+
+// Imports stop at this many files or bytes of text, so a stray home folder or huge archive can't
+// fill the workspace (and the browser's storage) up.
+export const MAX_IMPORT_FILES = 2000;
+export const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+
+// "name" is for paths with a name the workspace doesn't allow, e.g. one with a colon
+export type ImportSkipReason = "binary" | "limit" | "name";
+
+export type ImportResult = {
+  files: ImportedFile[];
+  skipped: { path: string; reason: ImportSkipReason }[];
+  bytes: number;
+};
+
+// OS and VCS clutter that is left out without being reported.
+const IGNORED_PATH = /(^|\/)(__MACOSX|\.git|\.DS_Store|Thumbs\.db|desktop\.ini)(\/|$)/i;
+
+const normalizePath = (path: string) =>
+  path
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((p) => p && p !== ".")
+    .join("/");
+
+// The text of a file, or null when it looks binary. Files that aren't valid UTF-8 are read as
+// Windows-1252, which older scripts are often saved in.
+export function decodeText(bytes: Uint8Array): string | null {
+  const sample = bytes.subarray(0, 8192);
+  let control = 0;
+  for (const b of sample) {
+    if (b === 0) return null;
+    if (b < 9 || (b > 13 && b < 32)) control++;
+  }
+  if (control > sample.length / 10) return null;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes).replace(/^\uFEFF/, "");
+  } catch {
+    return new TextDecoder("windows-1252").decode(bytes);
+  }
+}
+
+function createImport() {
+  const result: ImportResult = { files: [], skipped: [], bytes: 0 };
+  const full = () => result.files.length >= MAX_IMPORT_FILES || result.bytes >= MAX_IMPORT_BYTES;
+  // null bytes stand for a file too large to read
+  const add = (rawPath: string, bytes: Uint8Array | null) => {
+    const path = normalizePath(rawPath);
+    if (!path || IGNORED_PATH.test(path)) return;
+    if (path.split("/").some((name) => validateName(name))) {
+      result.skipped.push({ path, reason: "name" });
+      return;
+    }
+    if (full() || !bytes || result.bytes + bytes.length > MAX_IMPORT_BYTES) {
+      result.skipped.push({ path, reason: "limit" });
+      return;
+    }
+    const content = decodeText(bytes);
+    if (content === null) {
+      result.skipped.push({ path, reason: "binary" });
+      return;
+    }
+    result.files.push({ path, content });
+    result.bytes += bytes.length;
+  };
+  return { result, add, full };
+}
+
+type ImportTarget = ReturnType<typeof createImport>;
+
+// Part of JSZip's documented API, but missing from its types.
+type StreamingEntry = JSZip.JSZipObject & { internalStream(type: "uint8array"): JSZip.JSZipStreamHelper<Uint8Array> };
+
+// The entry's bytes, or null when there are more than `limit` of them. Inflating stops as soon as the
+// limit is passed, so a zip bomb is never inflated further than that.
+function readEntry(entry: JSZip.JSZipObject, limit: number): Promise<Uint8Array | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const stream = (entry as StreamingEntry).internalStream("uint8array");
+    stream
+      .on("data", (chunk) => {
+        size += chunk.length;
+        if (size > limit) {
+          stream.pause();
+          resolve(null);
+        } else {
+          chunks.push(chunk);
+        }
+      })
+      .on("error", reject)
+      .on("end", () => {
+        const bytes = new Uint8Array(size);
+        let offset = 0;
+        for (const chunk of chunks) {
+          bytes.set(chunk, offset);
+          offset += chunk.length;
+        }
+        resolve(bytes);
+      })
+      .resume();
+  });
+}
+
+async function addZip(target: ImportTarget, data: Blob, prefix = "") {
+  const zip = await JSZip.loadAsync(await data.arrayBuffer());
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir) continue;
+    const path = `${prefix}${entry.name}`;
+    if (target.full()) target.add(path, null);
+    else target.add(path, await readEntry(entry, MAX_IMPORT_BYTES - target.result.bytes));
+  }
+}
+
+async function addFile(target: ImportTarget, file: File, path: string, unpack = true) {
+  // archives among the selected files are unpacked where they are; the limit applies to what they hold
+  if (unpack && /\.zip$/i.test(file.name) && !target.full()) {
+    await addZip(target, file, path.includes("/") ? path.slice(0, path.lastIndexOf("/") + 1) : "");
+    return;
+  }
+  if (target.full() || file.size > MAX_IMPORT_BYTES) {
+    target.result.skipped.push({ path: normalizePath(path), reason: "limit" });
+    return;
+  }
+  target.add(path, new Uint8Array(await file.arrayBuffer()));
+}
+
+// Reads files picked with a file input; files of a picked folder keep their path within it.
+export async function readImportFiles(files: File[]): Promise<ImportResult> {
+  const target = createImport();
+  for (const file of files) await addFile(target, file, file.webkitRelativePath || file.name);
+  return target.result;
+}
+
+function readEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+async function addEntry(target: ImportTarget, entry: FileSystemEntry) {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    await addFile(target, file, entry.fullPath);
+  } else if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns a directory's entries in batches, and an empty batch at the end
+    for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+      for (const child of batch) await addEntry(target, child);
+    }
+  }
+}
+
+// Reads files and folders dropped from the desktop. Must be called from the drop handler itself:
+// the dropped items are only available until it returns.
+export function readDroppedFiles(data: DataTransfer): Promise<ImportResult> {
+  const entries = [...data.items]
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return readImportFiles([...data.files]);
+  return (async () => {
+    const target = createImport();
+    for (const entry of entries) await addEntry(target, entry);
+    return target.result;
+  })();
+}
+
+async function addDirectory(target: ImportTarget, dir: FolderHandle, prefix: string) {
+  for await (const entry of dir.values()) {
+    const path = `${prefix}${entry.name}`;
+    if (entry.kind === "directory") {
+      if (entry.name !== "node_modules" && !IGNORED_PATH.test(path)) await addDirectory(target, entry as FolderHandle, `${path}/`);
+    } else {
+      await addFile(target, await (entry as FileSystemFileHandle).getFile(), path, false);
+    }
+  }
+}
+
+// Reads a folder opened with the File System Access API. Archives are left as they are, since the
+// folder is written back to.
+export async function readFolderHandle(handle: FolderHandle): Promise<ImportResult> {
+  const target = createImport();
+  await addDirectory(target, handle, "");
+  return target.result;
+}
@@ -1,41 +1,118 @@
-import { useEffect, useMemo, useState } from "react";
+import { ChangeEvent, Dispatch, SetStateAction, useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
 import { SidebarProvider, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
 import { Button } from "@/components/ui/button";
-import { EditorPane } from "@/components/editor/EditorPane";
+import { EditorPane, RevealPosition } from "@/components/editor/EditorPane";
+import { EditorBreadcrumb } from "@/components/editor/EditorBreadcrumb";
+import { RenamePreview, RenamePreviewDialog } from "@/components/editor/RenamePreviewDialog";
+import { RenameRequest } from "@/components/editor/skriptRename";
+import { ProblemsPanel } from "@/components/problems/ProblemsPanel";
+import { TestExplorerPanel } from "@/components/testing/TestExplorerPanel";
+import { HistoryPanel } from "@/components/history/HistoryPanel";
+import { useTestRunner } from "@/hooks/useTestRunner";
+import { useFolderSync } from "@/hooks/useFolderSync";
+import { useWorkspaceStorage } from "@/hooks/useWorkspaceStorage";
+import { useFileHistory } from "@/hooks/useFileHistory";
+import { SimulatorPanel } from "@/components/simulator/SimulatorPanel";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
 import { ThemeSwitcher } from "@/components/ThemeSwitcher";
+import { THEMES, applyTheme, savedTheme } from "@/lib/themes";
 import { useEarlyAccess } from "@/hooks/useEarlyAccess";
-import { Download, X, Home, LogOut } from "lucide-react";
+import { useKeybindings } from "@/hooks/useKeybindings";
+import { Command } from "@/lib/commands";
+import { QuickOpen } from "@/components/palette/QuickOpen";
+import { CommandPalette } from "@/components/palette/CommandPalette";
+import { Download, X, Home, LogOut, XCircle, AlertTriangle, Puzzle, AlignLeft, FlaskConical, TestTube2, Upload, FolderSync, History } from "lucide-react";
 import {
   FileLeaf,
   FileNode,
   FileTree,
   addChild,
   createFile,
+  DEFAULT_TREE,
   createFolder,
   findNode,
-  loadTree,
-  removeNode,
+  findParentAndIndex,
+  importFiles,
+  isFile,
+  isFolder,
+  listFiles,
+  nameError,
+  NameError,
+  nodePath,
   renameNode,
-  saveTree,
+  uniqueName,
   updateFileContent,
+  validateName,
   moveNode,
+  MovePosition,
 } from "@/lib/fs";
-import { exportTreeAsZip } from "@/lib/zip";
+import { ImportResult, exportFilesAsZip, exportTreeAsZip, readDroppedFiles, readFolderHandle, readImportFiles } from "@/lib/zip";
+import { DiskChange, applyDiskChanges, isFolderAccessSupported, pickFolder, saveFolderLink } from "@/lib/localFolder";
+import { BUILT_IN_EXPORT_PROFILES, ExportProfile, ExportSource, planExport } from "@/lib/exportProfile";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { WorkspaceDashboard } from "@/components/workspace/WorkspaceDashboard";
-import { loadWorkspaces, switchWorkspace, updateWorkspaceTree } from "@/lib/workspace";
-import { WorkspaceManager } from "@/types/workspace";
+import { TargetServerDialog } from "@/components/workspace/TargetServerDialog";
+import { ImportDialog, ImportOptions } from "@/components/workspace/ImportDialog";
+import { ExportProfilesDialog } from "@/components/workspace/ExportProfilesDialog";
+import { SyncConflictsDialog } from "@/components/workspace/SyncConflictsDialog";
+import { toast } from "@/hooks/use-toast";
+import {
+  WorkspaceSettings,
+  addWorkspace,
+  createWorkspace,
+  switchWorkspace,
+  updateWorkspaceSettings,
+  updateWorkspaceTrash,
+  updateWorkspaceTree,
+} from "@/lib/workspace";
+import { Workspace, WorkspaceManager } from "@/types/workspace";
+import { DiagnosticCounts, isSkriptFile } from "@/lib/skript/diagnostics";
+import { buildOutline, symbolPath } from "@/lib/skript/outline";
+import { parseSkript } from "@/lib/skript/parser";
+import { SourceRange } from "@/lib/skript/ast";
+import { FileRename, planRename } from "@/lib/skript/rename";
+import { VariableCache, analyzeVariables } from "@/lib/skript/variables";
+import { DEFAULT_INDENT, IndentStyle, formatSkript } from "@/lib/skript/formatter";
+import { SkriptProfile } from "@/lib/skript/profile";
+import { DEFAULT_RETENTION, FileSnapshot } from "@/lib/history";
+import { DEFAULT_TRASH_RETENTION_DAYS, TrashItem, moveToTrash, purgeTrash, restoreFromTrash } from "@/lib/trash";
 
-const Index = () => {
+const INDENT_STYLES: Record<string, IndentStyle> = {
+  tabs: { useTabs: true, size: 4 },
+  "2": { useTabs: false, size: 2 },
+  "4": { useTabs: false, size: 4 },
+};
+
+// shared so the trash of a workspace without one keeps its identity between renders
+const NO_TRASH: TrashItem[] = [];
+// search and replaces kept for undoing, one after another
+const MAX_UNDO_REPLACES = 20;
+
+interface IndexContentProps {
+  workspaceManager: WorkspaceManager;
+  setWorkspaceManager: Dispatch<SetStateAction<WorkspaceManager>>;
+}
+
+const IndexContent = ({ workspaceManager, setWorkspaceManager }: IndexContentProps) => {
   const { logout } = useEarlyAccess();
-  const [workspaceManager, setWorkspaceManager] = useState<WorkspaceManager>(() => loadWorkspaces());
   const [showDashboard, setShowDashboard] = useState(true);
   const [tree, setTree] = useState<FileTree>(() => {
     const activeWorkspace = workspaceManager.workspaces.find(ws => ws.id === workspaceManager.activeWorkspaceId);
-    return activeWorkspace?.tree || loadTree();
+    return activeWorkspace?.tree || DEFAULT_TREE;
   });
   const [openTabs, setOpenTabs] = useState<FileLeaf[]>(() => {
     try {
@@ -50,29 +127,29 @@ const Index = () => {
     const workspaceId = workspaceManager.activeWorkspaceId;
     return localStorage.getItem(`skriptpanda.activeFileId.${workspaceId}`) || null;
   });
-  const [mode, setMode] = useState<string>(() => localStorage.getItem("skriptpanda.theme") || "sp-dark");
+  const [mode, setMode] = useState<string>(savedTheme);
   const [cursor, setCursor] = useState({ line: 1, column: 1 });
+  const [problemCounts, setProblemCounts] = useState<DiagnosticCounts>({ errors: 0, warnings: 0 });
+  const [showProblems, setShowProblems] = useState(false);
+  const [showSimulator, setShowSimulator] = useState(false);
+  const [showTests, setShowTests] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [revealAt, setRevealAt] = useState<RevealPosition | null>(null);
+  const [showTarget, setShowTarget] = useState(false);
+  const [renamePreview, setRenamePreview] = useState<RenamePreview | null>(null);
+  // what the files held before each search and replace, and after it, newest last
+  const [replaces, setReplaces] = useState<{ before: Map<string, string>; after: Map<string, string> }[]>([]);
+  const [showExportProfiles, setShowExportProfiles] = useState(false);
+  const [showSyncConflicts, setShowSyncConflicts] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ result: ImportResult; parentId: string } | null>(null);
+  const [showQuickOpen, setShowQuickOpen] = useState(false);
+  const [showCommands, setShowCommands] = useState(false);
+  const importFilesRef = useRef<HTMLInputElement | null>(null);
+  const importFolderRef = useRef<HTMLInputElement | null>(null);
 
-  // Ensure theme is properly applied on mount and synchronized
   useEffect(() => {
-    const savedTheme = localStorage.getItem("skriptpanda.theme") || "sp-dark";
-    if (mode !== savedTheme) {
-      setMode(savedTheme);
-    }
-
-    // Force apply theme to ensure synchronization
-    const themes = [
-      { key: "sp-dark", dark: true },
-      { key: "sp-light", dark: false },
-      { key: "dracula", dark: true },
-      { key: "solarized", dark: false },
-    ];
-
-    const theme = themes.find(t => t.key === savedTheme) || themes[0];
-    document.body.classList.remove(...themes.map(t => `theme-${t.key}`), "dark");
-    document.body.classList.add(`theme-${theme.key}`);
-    if (theme.dark) document.body.classList.add("dark");
-  }, []);
+    applyTheme(mode);
+  }, [mode]);
 
   // Dialog states
   const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
@@ -86,8 +163,7 @@ const Index = () => {
       }
       return prev;
     });
-    saveTree(tree);
-  }, [tree]);
+  }, [tree, setWorkspaceManager]);
 
   // Save open tabs to localStorage whenever they change
   useEffect(() => {
@@ -110,8 +186,91 @@ const Index = () => {
   }, [activeId, workspaceManager.activeWorkspaceId]);
 
 
+  const activeWorkspace = workspaceManager.workspaces.find(ws => ws.id === workspaceManager.activeWorkspaceId);
+  const workspaceAddons = activeWorkspace?.addons;
+  const skriptVersion = activeWorkspace?.skriptVersion;
+  const profile = useMemo<SkriptProfile>(
+    () => ({ addons: workspaceAddons, skriptVersion }),
+    [workspaceAddons, skriptVersion]
+  );
+
+  const workspaceExportProfiles = activeWorkspace?.exportProfiles;
+  const customExportProfiles = useMemo(() => workspaceExportProfiles ?? [], [workspaceExportProfiles]);
+  const exportSource = useMemo<ExportSource>(
+    () => ({ name: activeWorkspace?.name ?? "SkriptPanda", skriptVersion, addons: workspaceAddons }),
+    [activeWorkspace?.name, skriptVersion, workspaceAddons]
+  );
+
+  const historyRetention = activeWorkspace?.historyRetention ?? DEFAULT_RETENTION;
+  const trash = activeWorkspace?.trash ?? NO_TRASH;
+  const trashRetentionDays = activeWorkspace?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+  const indentation = activeWorkspace?.indentation ?? DEFAULT_INDENT;
+  const indentKey = indentation.useTabs ? "tabs" : String(indentation.size);
+
+  const updateSettings = (settings: WorkspaceSettings) =>
+    setWorkspaceManager((prev) =>
+      prev.activeWorkspaceId ? updateWorkspaceSettings(prev, prev.activeWorkspaceId, settings) : prev
+    );
+
+  const updateTrash = (items: TrashItem[]) =>
+    setWorkspaceManager((prev) => (prev.activeWorkspaceId ? updateWorkspaceTrash(prev, prev.activeWorkspaceId, items) : prev));
+
+  // Items past the workspace's retention are purged when it opens or its trash changes
+  useEffect(() => {
+    const kept = purgeTrash(trash, trashRetentionDays);
+    if (kept !== trash) updateTrash(kept);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trash, trashRetentionDays]);
+
+  const handleRestoreFromTrash = (itemId: string) => {
+    const restored = restoreFromTrash(tree, trash, itemId);
+    if (!restored) return;
+    setTree(restored.tree);
+    updateTrash(restored.trash);
+    toast({ title: "Restored", description: restored.path });
+  };
+
   const activeFile = useMemo(() => openTabs.find((t) => t.id === activeId) ?? null, [openTabs, activeId]);
 
+  // looked up through the tree's index, as the tree changes on every keystroke
+  const activeFilePath = useMemo(() => (activeId ? nodePath(tree, activeId) : null), [tree, activeId]);
+
+  // Re-parsing on every keystroke would slow typing down; the outline may trail slightly behind
+  const deferredFile = useDeferredValue(activeFile);
+  const outline = useMemo(
+    () => (deferredFile && isSkriptFile(deferredFile.name) ? buildOutline(parseSkript(deferredFile.content)) : null),
+    [deferredFile]
+  );
+  // Workspace-wide variable analysis; like the outline, it may trail the editor slightly
+  const variableCache = useRef<VariableCache>(new Map());
+  const deferredTree = useDeferredValue(tree);
+  const variables = useMemo(() => analyzeVariables(deferredTree, variableCache.current), [deferredTree]);
+  const testRunner = useTestRunner(tree);
+  const failedTests = useMemo(
+    () => [...testRunner.results.values()].filter((r) => r.status !== "passed").length,
+    [testRunner.results]
+  );
+  // Changes made in the workspace's folder on disk; open tabs take the new content
+  const handleDiskChanges = (changes: DiskChange[]) => {
+    const next = applyDiskChanges(tree, changes);
+    setTree(next);
+    setOpenTabs((tabs) =>
+      tabs.flatMap((tab) => {
+        const node = findNode(next, tab.id);
+        return node && isFile(node) ? [{ ...tab, content: node.content }] : [];
+      })
+    );
+    if (activeId && !findNode(next, activeId)) setActiveId(null);
+  };
+  const fileHistory = useFileHistory(workspaceManager.activeWorkspaceId, tree, historyRetention);
+  const folderSync = useFolderSync(workspaceManager.activeWorkspaceId, tree, handleDiskChanges);
+  const activeVariableDiagnostics = useMemo(
+    () => (activeId ? variables.diagnostics.get(activeId) : undefined),
+    [variables, activeId]
+  );
+
+  const outlinePath = useMemo(() => symbolPath(outline ?? [], cursor.line, cursor.column), [outline, cursor]);
+
   const handleOpenFile = (file: FileLeaf) => {
     setOpenTabs((tabs) => {
       const exists = tabs.some((t) => t.id === file.id);
@@ -120,9 +279,117 @@ const Index = () => {
     setActiveId(file.id);
   };
 
+  const handleOpenAt = (file: FileLeaf, line: number, column: number) => {
+    handleOpenFile(file);
+    setRevealAt({ fileId: file.id, line, column });
+  };
+
+  const handleOpenLocation = (fileId: string, line: number, column: number) => {
+    const node = findNode(tree, fileId);
+    if (node && isFile(node)) handleOpenAt(node, line, column);
+  };
+
+  const handleRenameSymbol = ({ target, newName }: RenameRequest) => {
+    if (!activeFile) return;
+    const renames = planRename(tree, activeFile.id, target, newName);
+    setRenamePreview({ kind: target.kind, oldName: target.name, newName, renames });
+  };
+
+  // Replaces the content of several files at once, keeping open tabs in sync
+  const updateContents = (contents: Map<string, string>) => {
+    setTree((t) => [...contents].reduce((acc, [id, content]) => updateFileContent(acc, id, content), t));
+    setOpenTabs((tabs) => tabs.map((t) => (contents.has(t.id) ? { ...t, content: contents.get(t.id)! } : t)));
+  };
+
+  const applySymbolRename = (renames: FileRename[]) => {
+    updateContents(new Map(renames.map((r) => [r.file.id, r.content])));
+    setRenamePreview(null);
+  };
+
+  const applyReplace = (renames: FileRename[]) => {
+    const replace = {
+      before: new Map(renames.map((r) => [r.file.id, r.file.content])),
+      after: new Map(renames.map((r) => [r.file.id, r.content])),
+    };
+    setReplaces((prev) => [...prev.slice(1 - MAX_UNDO_REPLACES), replace]);
+    updateContents(new Map(renames.map((r) => [r.file.id, r.content])));
+  };
+
+  const applyPreview = (renames: FileRename[]) => {
+    if (renamePreview?.kind !== "text") {
+      applySymbolRename(renames);
+      return;
+    }
+    applyReplace(renames);
+    setRenamePreview(null);
+    const count = renames.reduce((n, r) => n + r.edits.length, 0);
+    toast({ title: "Replaced", description: `${count} occurrences in ${renames.length} files.` });
+  };
+
+  // Undoes the newest replace. Files edited since are left alone, so that undoing it can't lose those edits
+  const undoReplace = () => {
+    const lastReplace = replaces[replaces.length - 1];
+    if (!lastReplace) return;
+    const contents = new Map<string, string>();
+    for (const [id, after] of lastReplace.after) {
+      const node = findNode(tree, id);
+      if (node && isFile(node) && node.content === after) contents.set(id, lastReplace.before.get(id)!);
+    }
+    updateContents(contents);
+    setReplaces((prev) => prev.slice(0, -1));
+    const kept = lastReplace.after.size - contents.size;
+    toast({ title: "Replace undone", description: kept > 0 ? `${kept} files edited since then were left as they are.` : undefined });
+  };
+
+  // The content being replaced gets a snapshot first, so a restore can be undone from the history too
+  const handleRestoreSnapshot = async (snapshot: FileSnapshot) => {
+    await fileHistory.snapshotFile(snapshot.fileId, "restore");
+    updateContents(new Map([[snapshot.fileId, snapshot.content]]));
+    toast({ title: "Version restored", description: `${snapshot.path} as of ${snapshot.createdAt.toLocaleString()}` });
+  };
+
+  const handleFormatAll = () => {
+    const contents = new Map<string, string>();
+    for (const { file } of listFiles(tree)) {
+      if (!isSkriptFile(file.name)) continue;
+      const formatted = formatSkript(file.content, indentation);
+      if (formatted !== file.content) contents.set(file.id, formatted);
+    }
+    updateContents(contents);
+  };
+
+  const handleSelectSymbol = (range: SourceRange) => {
+    if (activeFile) handleOpenAt(activeFile, range.startLineNumber, range.startColumn);
+  };
+
   const createIn = (parentId: string, folder: boolean) => {
+    const parent = findNode(tree, parentId);
     const defaultName = folder ? "new-folder" : "new-file.sk";
-    setCreateState({ parentId, type: folder ? "folder" : "file", name: defaultName });
+    const name = parent && isFolder(parent) ? uniqueName(parent.children, defaultName) : defaultName;
+    setCreateState({ parentId, type: folder ? "folder" : "file", name });
+  };
+
+  // shown under the name fields of the create and rename dialogs
+  const createError = (() => {
+    if (!createState) return null;
+    const parent = findNode(tree, createState.parentId);
+    return parent && isFolder(parent) ? nameError(parent.children, createState.name) : validateName(createState.name);
+  })();
+  const renameError = (() => {
+    if (!renameState) return null;
+    const found = findParentAndIndex(tree, renameState.id);
+    return found ? nameError(found.parent.children, renameState.name, renameState.id) : validateName(renameState.name);
+  })();
+
+  // Moves a node by drag and drop; a name clash in the target folder is returned for the explorer to show.
+  const handleMove = (sourceId: string, targetId: string, position: MovePosition) => {
+    try {
+      setTree(moveNode(tree, sourceId, targetId, position));
+      return null;
+    } catch (e) {
+      if (e instanceof NameError) return e.message;
+      throw e;
+    }
   };
 
   const handleRename = (id: string, current: string) => {
@@ -153,10 +420,84 @@ const Index = () => {
 
   const selectTab = (id: string) => setActiveId(id);
 
-  const handleExport = async () => {
-    const activeWorkspace = workspaceManager.workspaces.find(ws => ws.id === workspaceManager.activeWorkspaceId);
-    const fileName = activeWorkspace ? `${activeWorkspace.name.replace(/\s+/g, '-')}-workspace.zip` : "skriptpanda-workspace.zip";
-    await exportTreeAsZip(tree, fileName);
+  const handleExport = async (exportProfile: ExportProfile) => {
+    const baseName = activeWorkspace ? activeWorkspace.name.replace(/\s+/g, '-') : "skriptpanda";
+    // the as-is export keeps empty folders, which a profile's file list can't hold
+    if (exportProfile.id === BUILT_IN_EXPORT_PROFILES[0].id) {
+      await exportTreeAsZip(tree, `${baseName}-workspace.zip`);
+      return;
+    }
+    const plan = planExport(tree, exportProfile, exportSource);
+    await exportFilesAsZip(plan.files, `${baseName}-${exportProfile.name.trim().replace(/\s+/g, "-").toLowerCase()}.zip`);
+  };
+
+  // Files are read before the dialog opens, so that it can tell what will be imported
+  const startImport = async (read: Promise<ImportResult>, parentId: string) => {
+    try {
+      const result = await read;
+      if (result.files.length === 0 && result.skipped.length === 0) return;
+      setPendingImport({ result, parentId });
+    } catch {
+      toast({ title: "Import failed", description: "The files couldn't be read. Is the archive damaged?", variant: "destructive" });
+    }
+  };
+
+  const handleImportInput = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])];
+    e.target.value = "";
+    if (files.length > 0) startImport(readImportFiles(files), tree.id);
+  };
+
+  const openNewWorkspace = (workspace: Workspace) => {
+    setWorkspaceManager(switchWorkspace(addWorkspace(workspaceManager, workspace), workspace.id));
+    setTree(workspace.tree);
+    setOpenTabs([]);
+    setActiveId(null);
+  };
+
+  const handleImport = ({ destination, policy, name }: ImportOptions) => {
+    if (!pendingImport) return;
+    const { result, parentId } = pendingImport;
+    setPendingImport(null);
+    if (destination === "workspace") {
+      const root = createFolder(name);
+      openNewWorkspace({ ...createWorkspace(name), tree: importFiles(root, root.id, result.files, policy).tree });
+      toast({ title: `Created workspace "${name}"`, description: `Imported ${result.files.length} files.` });
+      return;
+    }
+    const { tree: next, summary } = importFiles(tree, parentId, result.files, policy);
+    setTree(next);
+    toast({
+      title: "Import finished",
+      description: [
+        `${summary.added} added`,
+        summary.replaced > 0 && `${summary.replaced} replaced`,
+        summary.skipped > 0 && `${summary.skipped} skipped`,
+      ]
+        .filter(Boolean)
+        .join(", "),
+    });
+  };
+
+  // Opens a folder on disk as a new workspace that is kept in sync with it
+  const handleOpenFolder = async () => {
+    try {
+      const handle = await pickFolder();
+      if (!handle) return;
+      const result = await readFolderHandle(handle);
+      const root = createFolder(handle.name);
+      const workspace = { ...createWorkspace(handle.name), tree: importFiles(root, root.id, result.files, "replace").tree };
+      // the files as read are the base of the first sync
+      await saveFolderLink({ workspaceId: workspace.id, handle, base: new Map(result.files.map((f) => [f.path, f.content])) });
+      openNewWorkspace(workspace);
+      const skipped = result.skipped.length;
+      toast({
+        title: `Opened "${handle.name}"`,
+        description: `${result.files.length} files are kept in sync with the folder${skipped > 0 ? `; ${skipped} binary, oversized or unusually named files are left out` : ""}.`,
+      });
+    } catch {
+      toast({ title: "Couldn't open the folder", description: "The browser didn't allow reading it.", variant: "destructive" });
+    }
   };
 
   const handleSelectWorkspace = (workspaceId: string) => {
@@ -223,6 +564,73 @@ const Index = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Every action of the IDE, for the command palette and the keyboard shortcuts
+  const commands: Command[] = [
+    { id: "palette.quickOpen", title: "Go to File…", category: "Palette", keybinding: "Ctrl+P", run: () => setShowQuickOpen(true) },
+    { id: "palette.commands", title: "Show All Commands", category: "Palette", keybinding: "Ctrl+Shift+P", run: () => setShowCommands(true) },
+    { id: "file.newFile", title: "New File…", category: "File", run: () => createIn(tree.id, false) },
+    { id: "file.newFolder", title: "New Folder…", category: "File", run: () => createIn(tree.id, true) },
+    {
+      id: "file.close",
+      title: "Close Editor",
+      category: "File",
+      keybinding: "Alt+W",
+      enabled: !!activeId,
+      run: () => activeId && closeTab(activeId),
+    },
+    { id: "file.importFiles", title: "Import Zip Archive or Files…", category: "File", run: () => importFilesRef.current?.click() },
+    { id: "file.importFolder", title: "Import Folder…", category: "File", run: () => importFolderRef.current?.click() },
+    {
+      id: "file.openFolder",
+      title: "Open Folder and Keep in Sync…",
+      category: "File",
+      enabled: isFolderAccessSupported(),
+      run: handleOpenFolder,
+    },
+    ...[...BUILT_IN_EXPORT_PROFILES, ...customExportProfiles].map((p) => ({
+      id: `file.export.${p.id}`,
+      title: `Export: ${p.name}`,
+      category: "File",
+      run: () => handleExport(p),
+    })),
+    { id: "file.exportProfiles", title: "Manage Export Profiles…", category: "File", run: () => setShowExportProfiles(true) },
+    { id: "format.all", title: "Format All Scripts", category: "Format", run: handleFormatAll },
+    {
+      id: "format.onSave",
+      title: activeWorkspace?.formatOnSave ? "Turn Off Format on Save" : "Turn On Format on Save",
+      category: "Format",
+      run: () => updateSettings({ formatOnSave: !activeWorkspace?.formatOnSave }),
+    },
+    { id: "view.problems", title: "Toggle Problems", category: "View", keybinding: "Ctrl+Shift+M", run: () => setShowProblems((s) => !s) },
+    { id: "view.simulator", title: "Toggle Simulator", category: "View", run: () => setShowSimulator((s) => !s) },
+    { id: "view.tests", title: "Toggle Tests", category: "View", run: () => setShowTests((s) => !s) },
+    { id: "view.history", title: "Toggle History", category: "View", run: () => setShowHistory((s) => !s) },
+    { id: "view.target", title: "Target Skript Version and Addons…", category: "View", run: () => setShowTarget(true) },
+    ...THEMES.map((t) => ({
+      id: `theme.${t.key}`,
+      title: `Theme: ${t.label}`,
+      category: "Theme",
+      enabled: t.key !== mode,
+      run: () => setMode(t.key),
+    })),
+    { id: "workspace.dashboard", title: "Show All Workspaces", category: "Workspace", run: () => setShowDashboard(true) },
+    ...workspaceManager.workspaces.map((ws) => ({
+      id: `workspace.switch.${ws.id}`,
+      title: `Switch to ${ws.name}`,
+      category: "Workspace",
+      enabled: ws.id !== workspaceManager.activeWorkspaceId,
+      run: () => handleSelectWorkspace(ws.id),
+    })),
+    {
+      id: "workspace.sync",
+      title: "Sync with Folder Now",
+      category: "Workspace",
+      enabled: folderSync.status === "synced" || folderSync.status === "syncing",
+      run: folderSync.sync,
+    },
+  ];
+  useKeybindings(showDashboard ? [] : commands);
+
   if (showDashboard) {
     return (
       <WorkspaceDashboard
@@ -245,8 +653,27 @@ const Index = () => {
           onOpenFile={handleOpenFile}
           onRename={handleRename}
           onDelete={handleDelete}
-          onMove={(sourceId, targetId, position) => setTree((t) => moveNode(t, sourceId, targetId, position))}
+          onMove={handleMove}
+          onDropFiles={(data, parentId) => startImport(readDroppedFiles(data), parentId)}
           selectedId={activeId}
+          outline={outline}
+          outlinePath={outlinePath}
+          onSelectSymbol={handleSelectSymbol}
+          variables={variables.families}
+          onOpenAt={handleOpenAt}
+          search={{
+            onReplaceAll: (renames, query, replacement) =>
+              setRenamePreview({ kind: "text", oldName: query, newName: replacement, renames }),
+            onReplace: (rename) => applyReplace([rename]),
+            onUndo: replaces.length > 0 ? undoReplace : null,
+          }}
+          trash={{
+            items: trash,
+            retentionDays: trashRetentionDays,
+            onRestore: handleRestoreFromTrash,
+            onPurge: (itemId) => updateTrash(itemId ? trash.filter((t) => t.id !== itemId) : []),
+            onRetentionChange: (days) => updateSettings({ trashRetentionDays: days }),
+          }}
         />
         <SidebarInset 
           className="flex-1 transition-all duration-300"
@@ -273,10 +700,107 @@ const Index = () => {
               </div>
             </div>
             <div className="flex items-center gap-2">
-              <Button size="sm" variant="default" onClick={handleExport}>
-                <Download className="h-4 w-4 mr-1" /> Export Zip
+              <Button
+                size="sm"
+                variant={showSimulator ? "secondary" : "ghost"}
+                onClick={() => setShowSimulator((s) => !s)}
+                title="Run scripts against a simulated server"
+              >
+                <FlaskConical className="h-4 w-4 mr-1" /> Simulator
               </Button>
-              <ThemeSwitcher onModeChange={setMode} />
+              <Button
+                size="sm"
+                variant={showTests ? "secondary" : "ghost"}
+                onClick={() => setShowTests((s) => !s)}
+                title="Run the workspace's tests"
+              >
+                <TestTube2 className="h-4 w-4 mr-1" /> Tests
+                {failedTests > 0 && (
+                  <span className="ml-1 rounded-full bg-destructive px-1.5 text-xs text-destructive-foreground">{failedTests}</span>
+                )}
+              </Button>
+              <Button
+                size="sm"
+                variant={showHistory ? "secondary" : "ghost"}
+                onClick={() => setShowHistory((s) => !s)}
+                title="Earlier versions of the open file"
+              >
+                <History className="h-4 w-4 mr-1" /> History
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" variant="ghost" title="Formatting">
+                    <AlignLeft className="h-4 w-4 mr-1" /> Format
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={handleFormatAll}>Format all scripts</DropdownMenuItem>
+                  <DropdownMenuCheckboxItem
+                    checked={!!activeWorkspace?.formatOnSave}
+                    onCheckedChange={(checked) => updateSettings({ formatOnSave: checked === true })}
+                  >
+                    Format on save (Ctrl+S)
+                  </DropdownMenuCheckboxItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Indentation</DropdownMenuLabel>
+                  <DropdownMenuRadioGroup
+                    value={indentKey}
+                    onValueChange={(v) => updateSettings({ indentation: INDENT_STYLES[v] })}
+                  >
+                    <DropdownMenuRadioItem value="tabs">Tabs</DropdownMenuRadioItem>
+                    <DropdownMenuRadioItem value="2">2 spaces</DropdownMenuRadioItem>
+                    <DropdownMenuRadioItem value="4">4 spaces</DropdownMenuRadioItem>
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button size="sm" variant="ghost" onClick={() => setShowTarget(true)} title="Target Skript version and addons">
+                <Puzzle className="h-4 w-4 mr-1" /> {skriptVersion ? `Skript ${skriptVersion}` : "Target Server"}
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" variant="ghost" title="Import scripts from your computer">
+                    <Upload className="h-4 w-4 mr-1" /> Import
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => importFilesRef.current?.click()}>Zip archive or files…</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => importFolderRef.current?.click()}>Folder…</DropdownMenuItem>
+                  {isFolderAccessSupported() && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={handleOpenFolder}>Open folder and keep in sync…</DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <input ref={importFilesRef} type="file" multiple className="hidden" onChange={handleImportInput} />
+              <input
+                ref={(el) => {
+                  importFolderRef.current = el;
+                  el?.setAttribute("webkitdirectory", "");
+                }}
+                type="file"
+                className="hidden"
+                onChange={handleImportInput}
+              />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" variant="default">
+                    <Download className="h-4 w-4 mr-1" /> Export Zip
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Export as</DropdownMenuLabel>
+                  {[...BUILT_IN_EXPORT_PROFILES, ...customExportProfiles].map((p) => (
+                    <DropdownMenuItem key={p.id} onClick={() => handleExport(p)}>
+                      {p.name}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setShowExportProfiles(true)}>Manage export profiles…</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <ThemeSwitcher theme={mode} onThemeChange={setMode} />
               <Button
                 size="sm"
                 variant="outline"
@@ -304,14 +828,140 @@ const Index = () => {
             ))}
           </div>
 
-          {/* Editor - Full Width */}
-          <div className="flex-1 min-h-0 overflow-hidden">
-            <EditorPane file={activeFile} onChange={handleChange} themeKey={mode} onCursorChange={setCursor} />
-          </div>
+          {activeFile && activeFilePath && (
+            <EditorBreadcrumb path={activeFilePath} symbols={outlinePath} onSelect={handleSelectSymbol} />
+          )}
+
+          {/* Editor - Full Width, with the Problems panel below it */}
+          <ResizablePanelGroup direction="vertical" className="flex-1 min-h-0">
+            <ResizablePanel id="editor" order={1} defaultSize={75} minSize={20}>
+              <div className="h-full overflow-hidden">
+                <EditorPane
+                  file={activeFile}
+                  onChange={handleChange}
+                  themeKey={mode}
+                  profile={profile}
+                  indentation={indentation}
+                  formatOnSave={!!activeWorkspace?.formatOnSave}
+                  onSave={(content) => activeFile && fileHistory.snapshotFile(activeFile.id, "save", content)}
+                  tree={tree}
+                  onOpenLocation={handleOpenLocation}
+                  onRename={handleRenameSymbol}
+                  workspaceDiagnostics={activeVariableDiagnostics}
+                  onCursorChange={setCursor}
+                  onDiagnosticsChange={setProblemCounts}
+                  revealPosition={revealAt}
+                  onRevealed={() => setRevealAt(null)}
+                />
+              </div>
+            </ResizablePanel>
+            {showProblems && (
+              <>
+                <ResizableHandle />
+                <ResizablePanel id="problems" order={2} defaultSize={25} minSize={10}>
+                  <ProblemsPanel
+                    tree={tree}
+                    profile={profile}
+                    workspaceDiagnostics={variables.diagnostics}
+                    onSelect={handleOpenAt}
+                    onClose={() => setShowProblems(false)}
+                  />
+                </ResizablePanel>
+              </>
+            )}
+            {showSimulator && (
+              <>
+                <ResizableHandle />
+                <ResizablePanel id="simulator" order={3} defaultSize={35} minSize={15}>
+                  <SimulatorPanel
+                    tree={tree}
+                    onOpenLocation={handleOpenLocation}
+                    onClose={() => setShowSimulator(false)}
+                  />
+                </ResizablePanel>
+              </>
+            )}
+            {showTests && (
+              <>
+                <ResizableHandle />
+                <ResizablePanel id="tests" order={4} defaultSize={35} minSize={15}>
+                  <TestExplorerPanel
+                    runner={testRunner}
+                    onOpenLocation={handleOpenLocation}
+                    onClose={() => setShowTests(false)}
+                  />
+                </ResizablePanel>
+              </>
+            )}
+            {showHistory && (
+              <>
+                <ResizableHandle />
+                <ResizablePanel id="history" order={5} defaultSize={40} minSize={15}>
+                  <HistoryPanel
+                    file={activeFile}
+                    path={activeFilePath}
+                    history={fileHistory}
+                    retention={historyRetention}
+                    onRetentionChange={(retention) => updateSettings({ historyRetention: retention })}
+                    onRestore={handleRestoreSnapshot}
+                    themeKey={mode}
+                    onClose={() => setShowHistory(false)}
+                  />
+                </ResizablePanel>
+              </>
+            )}
+          </ResizablePanelGroup>
 
           {/* Status bar */}
           <footer className="h-7 border-t text-xs flex items-center justify-between px-3 text-muted-foreground">
-            <div>Ln {cursor.line}, Col {cursor.column}</div>
+            <div className="flex items-center gap-3">
+              <button
+                className="flex items-center gap-3 hover:text-foreground"
+                onClick={() => setShowProblems((s) => !s)}
+                title="Toggle Problems panel"
+              >
+                <span className="flex items-center gap-1">
+                  <XCircle className="h-3.5 w-3.5" /> {problemCounts.errors}
+                </span>
+                <span className="flex items-center gap-1">
+                  <AlertTriangle className="h-3.5 w-3.5" /> {problemCounts.warnings}
+                </span>
+              </button>
+              <span>Ln {cursor.line}, Col {cursor.column}</span>
+              {folderSync.status !== "off" && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button
+                      className={`flex items-center gap-1 hover:text-foreground ${
+                        folderSync.status === "error" || folderSync.conflicts.length > 0 ? "text-destructive" : ""
+                      }`}
+                      title="Folder on disk this workspace is synced with"
+                    >
+                      <FolderSync className="h-3.5 w-3.5" /> {folderSync.folderName}
+                      {folderSync.status === "syncing" && " • Syncing…"}
+                      {folderSync.status === "needs-permission" && " • Paused"}
+                      {folderSync.status === "error" && " • Sync failed"}
+                      {folderSync.conflicts.length > 0 &&
+                        ` • ${folderSync.conflicts.length} ${folderSync.conflicts.length === 1 ? "conflict" : "conflicts"}`}
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start" side="top">
+                    {folderSync.status === "needs-permission" ? (
+                      <DropdownMenuItem onClick={folderSync.reconnect}>Allow access to resume syncing</DropdownMenuItem>
+                    ) : (
+                      <DropdownMenuItem onClick={folderSync.status === "error" ? folderSync.reconnect : folderSync.sync}>
+                        Sync now
+                      </DropdownMenuItem>
+                    )}
+                    {folderSync.conflicts.length > 0 && (
+                      <DropdownMenuItem onClick={() => setShowSyncConflicts(true)}>Resolve conflicts…</DropdownMenuItem>
+                    )}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={folderSync.disconnect}>Stop syncing with the folder</DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </div>
             <div>SkriptLang • Monaco • {mode.charAt(0).toUpperCase() + mode.slice(1).replace('-', ' ')}</div>
           </footer>
         </SidebarInset>
@@ -319,6 +969,50 @@ const Index = () => {
 
       {/* AI Chat moved into ResizablePanelGroup beside the editor */}
 
+      <TargetServerDialog
+        open={showTarget}
+        onOpenChange={setShowTarget}
+        target={profile}
+        onSave={updateSettings}
+      />
+
+      <ExportProfilesDialog
+        open={showExportProfiles}
+        onOpenChange={setShowExportProfiles}
+        profiles={customExportProfiles}
+        tree={tree}
+        source={exportSource}
+        onSave={(exportProfiles) => updateSettings({ exportProfiles })}
+        onExport={(p) => {
+          setShowExportProfiles(false);
+          handleExport(p);
+        }}
+      />
+
+      <SyncConflictsDialog
+        open={showSyncConflicts}
+        onOpenChange={setShowSyncConflicts}
+        folderName={folderSync.folderName ?? ""}
+        conflicts={folderSync.conflicts}
+        onResolve={folderSync.resolveConflict}
+      />
+
+      <ImportDialog
+        pending={pendingImport?.result ?? null}
+        tree={tree}
+        targetId={pendingImport?.parentId ?? tree.id}
+        targetPath={(pendingImport && nodePath(tree, pendingImport.parentId)) ?? ""}
+        defaultName={activeWorkspace ? `${activeWorkspace.name} (imported)` : "Imported Workspace"}
+        onImport={handleImport}
+        onCancel={() => setPendingImport(null)}
+      />
+
+      <RenamePreviewDialog preview={renamePreview} onApply={applyPreview} onCancel={() => setRenamePreview(null)} />
+
+      <QuickOpen open={showQuickOpen} onOpenChange={setShowQuickOpen} tree={tree} onOpen={handleOpenFile} />
+
+      <CommandPalette open={showCommands} onOpenChange={setShowCommands} commands={commands} />
+
       {/* Create Dialog */}
       <Dialog open={!!createState} onOpenChange={(o) => !o && setCreateState(null)}>
         <DialogContent>
@@ -332,15 +1026,17 @@ const Index = () => {
               value={createState?.name ?? ""}
               onChange={(e) => setCreateState((s) => (s ? { ...s, name: e.target.value } : s))}
               placeholder={createState?.type === "folder" ? "new-folder" : "new-file.sk"}
+              aria-invalid={!!createError}
             />
+            {createError && <p className="text-xs text-destructive">{createError}</p>}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setCreateState(null)}>Cancel</Button>
             <Button
+              disabled={!!createError}
               onClick={() => {
-                if (!createState) return;
+                if (!createState || createError) return;
                 const { parentId, type, name } = createState;
-                if (!name.trim()) return;
                 const node = type === "folder" ? createFolder(name) : createFile(name, type === "file" ? "# New Skript file\n" : "");
                 setTree((t) => addChild(t, parentId, node));
                 setCreateState(null);
@@ -364,15 +1060,17 @@ const Index = () => {
               autoFocus
               value={renameState?.name ?? ""}
               onChange={(e) => setRenameState((s) => (s ? { ...s, name: e.target.value } : s))}
+              aria-invalid={!!renameError}
             />
+            {renameError && <p className="text-xs text-destructive">{renameError}</p>}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setRenameState(null)}>Cancel</Button>
             <Button
+              disabled={!!renameError}
               onClick={() => {
-                if (!renameState) return;
+                if (!renameState || renameError) return;
                 const { id, name } = renameState;
-                if (!name.trim()) return;
                 setTree((t) => renameNode(t, id, name));
                 setOpenTabs((tabs) => tabs.map((tab) => (tab.id === id ? { ...tab, name } : tab)));
                 setRenameState(null);
@@ -388,22 +1086,24 @@ const Index = () => {
       <AlertDialog open={!!confirmDelete} onOpenChange={(o) => !o && setConfirmDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete item?</AlertDialogTitle>
-            <AlertDialogDescription>This action cannot be undone.</AlertDialogDescription>
+            <AlertDialogTitle>Move to trash?</AlertDialogTitle>
+            <AlertDialogDescription>It can be restored from the Trash in the explorer.</AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel onClick={() => setConfirmDelete(null)}>Cancel</AlertDialogCancel>
             <AlertDialogAction
               onClick={() => {
                 if (!confirmDelete) return;
-                const id = confirmDelete;
-                setTree((t) => removeNode(t, id));
-                setOpenTabs((tabs) => tabs.filter((t) => t.id !== id));
-                if (activeId === id) setActiveId(null);
+                const deleted = moveToTrash(tree, trash, confirmDelete);
+                setTree(deleted.tree);
+                updateTrash(deleted.trash);
+                // closing the tabs of files inside a deleted folder too
+                setOpenTabs((tabs) => tabs.filter((t) => findNode(deleted.tree, t.id)));
+                if (activeId && !findNode(deleted.tree, activeId)) setActiveId(null);
                 setConfirmDelete(null);
               }}
             >
-              Delete
+              Move to Trash
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -413,4 +1113,18 @@ const Index = () => {
   );
 };
 
+// Workspaces are loaded from storage before the IDE shows
+const Index = () => {
+  const [workspaceManager, setWorkspaceManager] = useWorkspaceStorage();
+
+  if (!workspaceManager) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+  return <IndexContent workspaceManager={workspaceManager} setWorkspaceManager={setWorkspaceManager} />;
+};
+
 export default Index;
@@ -1,3 +1,9 @@
+import { InstalledAddon } from "@/lib/skript/addons";
+import { IndentStyle } from "@/lib/skript/formatter";
+import { ExportProfile } from "@/lib/exportProfile";
+import { HistoryRetention } from "@/lib/history";
+import { TrashItem } from "@/lib/trash";
+
 export interface Workspace {
   id: string;
   name: string;
@@ -5,6 +11,14 @@ export interface Workspace {
   createdAt: Date;
   lastAccessed: Date;
   tree: any; // FileTree type from fs.ts
+  addons?: InstalledAddon[]; // unset until configured: every addon is assumed installed
+  skriptVersion?: string; // target Skript release, e.g. "2.6.4"; unset means any
+  indentation?: IndentStyle; // unset means tabs
+  formatOnSave?: boolean;
+  exportProfiles?: ExportProfile[]; // the workspace's own profiles, listed after the built-in ones
+  historyRetention?: HistoryRetention; // unset means DEFAULT_RETENTION
+  trash?: TrashItem[]; // deleted files and folders, newest first
+  trashRetentionDays?: number; // unset means DEFAULT_TRASH_RETENTION_DAYS; 0 never purges
 }
 
 export interface WorkspaceManager {